@@ -1,12 +1,15 @@
 /**
  * Firebase Cloud Functions for Winy AI Food
  *
- * These functions act as a proxy for the Notion API to bypass CORS restrictions
+ * These functions act as a proxy for the Notion API to bypass CORS restrictions,
+ * and run Gemini food analysis server-side so the API key never ships to the client
  */
 
 const functions = require('firebase-functions'); // v1 API for other functions
 const {onCall, HttpsError} = require('firebase-functions/v2/https'); // v2 API for notionSearchDatabases
+const crypto = require('crypto');
 const admin = require('firebase-admin');
+const {GoogleGenerativeAI} = require('@google/generative-ai');
 
 admin.initializeApp();
 
@@ -19,6 +22,19 @@ const NOTION_CLIENT_ID = functions.config().notion?.client_id || process.env.NOT
 const NOTION_CLIENT_SECRET = functions.config().notion?.client_secret || process.env.NOTION_CLIENT_SECRET;
 const NOTION_REDIRECT_URI = functions.config().notion?.redirect_uri || process.env.NOTION_REDIRECT_URI;
 
+// Gemini Configuration
+// firebase functions:config:set gemini.api_key="YOUR_GEMINI_API_KEY"
+// firebase functions:config:set gemini.daily_limit="50"
+// firebase functions:config:set gemini.cache_ttl_days="30"
+const GEMINI_API_KEY = functions.config().gemini?.api_key || process.env.GEMINI_API_KEY;
+const GEMINI_DAILY_LIMIT = Number(functions.config().gemini?.daily_limit || process.env.GEMINI_DAILY_LIMIT || 50);
+const GEMINI_CACHE_TTL_DAYS = Number(functions.config().gemini?.cache_ttl_days || process.env.GEMINI_CACHE_TTL_DAYS || 30);
+const GEMINI_MODEL = 'gemini-2.0-flash';
+// Models that may run on the project key (quota units cost the same whatever the model's price)
+const PROJECT_KEY_MODELS = ['gemini-2.0-flash', 'gemini-2.0-flash-lite', 'gemini-2.5-flash-lite'];
+const MAX_ANALYSIS_IMAGES = 4; // photos per entry sent to the model
+const MAX_TRANSCRIPTION_BYTES = 4 * 1024 * 1024; // about two minutes of compressed voice
+
 /**
  * Exchange OAuth authorization code for access token
  */
@@ -451,9 +467,42 @@ exports.notionAnalyzeDatabase = functions.https.onCall(async (data, context) =>
   }
 });
 
+/**
+ * Map a schema field value to a Notion property value
+ * Returns null when there is nothing to write (no value, or an empty URL).
+ */
+function toNotionProperty(field, value) {
+  // Skip if no value provided
+  if (value === undefined || value === null) return null;
+
+  // Map field types to Notion property types
+  switch (field.notionPropertyType) {
+    case 'title':
+      return { title: [{ text: { content: String(value) } }] };
+
+    case 'rich_text':
+      return { rich_text: [{ text: { content: String(value) } }] };
+
+    case 'number':
+      return { number: Number(value) || 0 };
+
+    case 'date':
+      return { date: { start: new Date(value).toISOString() } };
+
+    case 'url':
+      return value && String(value).trim() ? { url: String(value) } : null;
+
+    default:
+      // Default to rich_text for unknown types
+      return { rich_text: [{ text: { content: String(value) } }] };
+  }
+}
+
 /**
  * Sync a food entry to Notion database
- * Creates a new page in the Notion database with dynamic properties based on schema
+ * Creates a new page in the Notion database with dynamic properties based on schema.
+ * Every photo (entry.photoUrls, in order) is added to the page body as an image block;
+ * the photo property holds only the first.
  */
 exports.notionSyncEntry = onCall(async (request) => {
   // Verify user is authenticated
@@ -474,51 +523,8 @@ exports.notionSyncEntry = onCall(async (request) => {
     if (schema && schema.fields && entry.fieldValues) {
       // Use schema-based field mapping
       schema.fields.forEach((field) => {
-        const value = entry.fieldValues[field.id];
-
-        // Skip if no value provided
-        if (value === undefined || value === null) return;
-
-        // Map field types to Notion property types
-        switch (field.notionPropertyType) {
-          case 'title':
-            properties[field.name] = {
-              title: [{ text: { content: String(value) } }],
-            };
-            break;
-
-          case 'rich_text':
-            properties[field.name] = {
-              rich_text: [{ text: { content: String(value) } }],
-            };
-            break;
-
-          case 'number':
-            properties[field.name] = {
-              number: Number(value) || 0,
-            };
-            break;
-
-          case 'date':
-            properties[field.name] = {
-              date: { start: new Date(value).toISOString() },
-            };
-            break;
-
-          case 'url':
-            if (value && String(value).trim()) {
-              properties[field.name] = {
-                url: String(value),
-              };
-            }
-            break;
-
-          default:
-            // Default to rich_text for unknown types
-            properties[field.name] = {
-              rich_text: [{ text: { content: String(value) } }],
-            };
-        }
+        const property = toNotionProperty(field, entry.fieldValues[field.id]);
+        if (property) properties[field.name] = property;
       });
     } else {
       // Legacy fallback: use fixed properties matching default database structure
@@ -551,6 +557,15 @@ exports.notionSyncEntry = onCall(async (request) => {
       }
     }
 
+    const photoUrls = Array.isArray(entry.photoUrls)
+      ? entry.photoUrls.filter((url) => typeof url === 'string' && url.startsWith('https://'))
+      : [];
+    const children = photoUrls.map((url) => ({
+      object: 'block',
+      type: 'image',
+      image: { type: 'external', external: { url } },
+    }));
+
     // Create page in Notion
     const response = await fetch('https://api.notion.com/v1/pages', {
       method: 'POST',
@@ -562,6 +577,7 @@ exports.notionSyncEntry = onCall(async (request) => {
       body: JSON.stringify({
         parent: { database_id: databaseId },
         properties,
+        children: children.length > 0 ? children : undefined,
       }),
     });
 
@@ -781,6 +797,60 @@ exports.notionDeletePage = onCall(async (request) => {
   }
 });
 
+/**
+ * Update properties of a synced entry's Notion page
+ * Only the given field values are written; other properties are left as they are.
+ */
+exports.notionUpdateEntry = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { notionApiKey, pageId, schema, fieldValues } = request.data;
+
+  if (!notionApiKey || !pageId || !schema || !Array.isArray(schema.fields) || !fieldValues) {
+    throw new HttpsError('invalid-argument', 'Missing required parameters');
+  }
+
+  const properties = {};
+  schema.fields.forEach((field) => {
+    if (!(field.id in fieldValues)) return;
+    const property = toNotionProperty(field, fieldValues[field.id]);
+    if (property) properties[field.name] = property;
+  });
+
+  if (Object.keys(properties).length === 0) {
+    return { success: true };
+  }
+
+  try {
+    const response = await fetch(`https://api.notion.com/v1/pages/${pageId}`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${notionApiKey}`,
+        'Content-Type': 'application/json',
+        'Notion-Version': '2022-06-28',
+      },
+      body: JSON.stringify({ properties }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new HttpsError('internal', errorData.message || 'Failed to update Notion page');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating Notion page:', error);
+
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    throw new HttpsError('internal', error.message || 'Failed to update Notion page');
+  }
+});
+
 /**
  * Validate embed token and return user ID
  * Used by embed pages to look up user data by token
@@ -845,3 +915,326 @@ exports.validateEmbedToken = onCall(async (request) => {
     throw new HttpsError('internal', error.message || 'Failed to validate token');
   }
 });
+
+/**
+ * Format a date as a YYYY-MM-DD key (UTC) for daily quota buckets
+ */
+function getQuotaDateKey(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Read how many AI analyses the user has run today
+ * Usage is stored in aiUsage/{userId} and resets when the date changes.
+ */
+function getTodayUsageCount(usageDoc, today) {
+  const usage = usageDoc.exists ? usageDoc.data() : {};
+  return usage.date === today ? usage.count || 0 : 0;
+}
+
+/**
+ * Reserve one AI analysis from the user's daily quota (called before the model call)
+ * The check and the increment run in one transaction, so concurrent calls can't all pass
+ * the check and go over the limit. Throws resource-exhausted once the limit is reached.
+ * @param today - Quota date key, passed back to refundAnalysisQuota if the call fails
+ */
+async function reserveAnalysisQuota(db, userId, today) {
+  const usageRef = db.collection('aiUsage').doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const usageDoc = await transaction.get(usageRef);
+    const count = getTodayUsageCount(usageDoc, today);
+
+    if (count >= GEMINI_DAILY_LIMIT) {
+      throw new HttpsError(
+        'resource-exhausted',
+        `Daily AI analysis limit reached (${GEMINI_DAILY_LIMIT}). Try again tomorrow or add your own Gemini API key in Settings.`
+      );
+    }
+
+    transaction.set(usageRef, {
+      userId,
+      date: today,
+      count: count + 1,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { count: count + 1, limit: GEMINI_DAILY_LIMIT };
+  });
+}
+
+/**
+ * Give back a reserved analysis when the model call failed (model errors, invalid JSON),
+ * so failed calls don't use up the allowance
+ * A failed refund is only logged - the caller is already reporting the original error.
+ */
+async function refundAnalysisQuota(db, userId, today) {
+  const usageRef = db.collection('aiUsage').doc(userId);
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const usageDoc = await transaction.get(usageRef);
+      const count = getTodayUsageCount(usageDoc, today);
+      if (count === 0) return; // the day rolled over since the reservation
+
+      transaction.update(usageRef, {
+        count: count - 1,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+  } catch (refundError) {
+    console.error('Failed to refund AI quota:', refundError);
+  }
+}
+
+/**
+ * Pick the Gemini model for a call
+ * Users with their own key can run any Gemini model; on the project key only
+ * PROJECT_KEY_MODELS are allowed, and anything else falls back to GEMINI_MODEL.
+ */
+function resolveGeminiModel(model, userApiKey) {
+  if (typeof model !== 'string' || !/^gemini-[\w.-]+$/.test(model)) return GEMINI_MODEL;
+  if (userApiKey) return model;
+  return PROJECT_KEY_MODELS.includes(model) ? model : GEMINI_MODEL;
+}
+
+/**
+ * Build the content-addressed cache key for an analysis
+ * Hashes the user, task, prompt version, model, normalized text (trimmed, lowercased, whitespace
+ * collapsed), sorted field IDs, optional context (e.g., today's date), the corrections section of
+ * the prompt (so new corrections aren't masked by an older result), and the raw bytes of each
+ * image in order - so re-sending identical inputs hits the cache.
+ */
+function getAnalysisCacheKey(userId, model, cache, images) {
+  const hash = crypto.createHash('sha256');
+  hash.update(JSON.stringify({
+    userId,
+    model,
+    task: String(cache.task || ''),
+    promptVersion: String(cache.promptVersion || ''),
+    text: String(cache.text || '').trim().toLowerCase().replace(/\s+/g, ' '),
+    fieldIds: (Array.isArray(cache.fieldIds) ? cache.fieldIds.map(String) : []).sort(),
+    context: String(cache.context || ''),
+    corrections: String(cache.corrections || ''),
+  }));
+  images.forEach((image) => {
+    const bytes = Buffer.from(image.data, 'base64');
+    // Length prefix keeps image boundaries (and so their order) part of the key
+    hash.update(`${bytes.length}:`);
+    hash.update(bytes);
+  });
+  return hash.digest('hex');
+}
+
+/**
+ * Analyze a food entry with Gemini
+ * The client builds the prompt and structured-output response schema from the user's
+ * active schema; this function supplies the API key, enforces quotas, and returns the
+ * model's JSON text for the client to validate into an AIAnalysisResult.
+ *
+ * Users who saved their own Gemini key in settings ("bring your own key") are billed
+ * on their own key and are not counted against the daily quota.
+ *
+ * When the client sends cache key inputs, results are stored in aiCache/{hash} for
+ * GEMINI_CACHE_TTL_DAYS days (expiresAt is also a Firestore TTL field). Cache hits are
+ * free and don't count against the quota; `cache.forceRefresh` replaces the stored result.
+ */
+exports.analyzeFood = onCall(async (request) => {
+  // Verify user is authenticated
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { prompt, responseSchema, image, model, cache } = request.data;
+  // `image` is the single-photo form sent by older clients
+  const images = Array.isArray(request.data.images) ? request.data.images : image ? [image] : [];
+
+  if (!prompt || typeof prompt !== 'string' || !responseSchema || typeof responseSchema !== 'object') {
+    throw new HttpsError('invalid-argument', 'Prompt and response schema are required');
+  }
+
+  if (images.some((img) => !img || typeof img.data !== 'string' || typeof img.mimeType !== 'string')) {
+    throw new HttpsError('invalid-argument', 'Image must include base64 data and a MIME type');
+  }
+
+  if (images.length > MAX_ANALYSIS_IMAGES) {
+    throw new HttpsError('invalid-argument', `At most ${MAX_ANALYSIS_IMAGES} photos can be analyzed at once`);
+  }
+
+  const db = admin.firestore();
+  const userId = request.auth.uid;
+  const quotaDate = getQuotaDateKey();
+  let usage = null; // reserved quota, refunded if the call fails
+
+  try {
+    // Prefer the user's own key; fall back to the project key with a daily quota
+    const settingsDoc = await db.collection('settings').doc(userId).get();
+    const userApiKey = settingsDoc.exists ? settingsDoc.data().geminiApiKey : null;
+    const apiKey = userApiKey || GEMINI_API_KEY;
+
+    const modelName = resolveGeminiModel(model, userApiKey);
+    const cacheRef = cache && typeof cache === 'object'
+      ? db.collection('aiCache').doc(getAnalysisCacheKey(userId, modelName, cache, images))
+      : null;
+
+    if (cacheRef && !cache.forceRefresh) {
+      const cachedDoc = await cacheRef.get();
+      const cached = cachedDoc.exists ? cachedDoc.data() : null;
+      // TTL deletion can lag by a day or more, so expiry is also checked here
+      if (cached && cached.userId === userId && cached.expiresAt.toMillis() > Date.now()) {
+        return {
+          responseText: cached.responseText,
+          usage: null,
+          cached: true,
+        };
+      }
+    }
+
+    if (!apiKey) {
+      throw new HttpsError('failed-precondition', 'Gemini API key not configured');
+    }
+
+    if (!userApiKey) {
+      usage = await reserveAnalysisQuota(db, userId, quotaDate);
+    }
+
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const generativeModel = genAI.getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        responseSchema,
+      },
+    });
+
+    const result = images.length > 0
+      ? await generativeModel.generateContent([
+        prompt,
+        ...images.map((img) => ({ inlineData: { data: img.data, mimeType: img.mimeType } })),
+      ])
+      : await generativeModel.generateContent(prompt);
+
+    const responseText = result.response.text();
+
+    // A response that isn't JSON is unusable, so it isn't charged (see the refund below) or cached
+    try {
+      JSON.parse(responseText);
+    } catch {
+      throw new HttpsError('internal', 'The AI returned an invalid response. Please try again.');
+    }
+
+    if (cacheRef) {
+      try {
+        await cacheRef.set({
+          userId,
+          model: modelName,
+          task: String(cache.task || ''),
+          promptVersion: String(cache.promptVersion || ''),
+          responseText,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + GEMINI_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000),
+        });
+      } catch (cacheError) {
+        // The analysis itself succeeded - a failed cache write only costs a future call
+        console.error('Failed to cache analysis:', cacheError);
+      }
+    }
+
+    return {
+      responseText,
+      usage,
+      ownKey: !!userApiKey,
+      cached: false,
+    };
+  } catch (error) {
+    console.error('Error analyzing food:', error);
+
+    if (usage) {
+      await refundAnalysisQuota(db, userId, quotaDate);
+    }
+
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    if (error.message?.includes('API key')) {
+      throw new HttpsError('permission-denied', 'Invalid Gemini API key');
+    }
+
+    throw new HttpsError('internal', error.message || 'Failed to analyze food');
+  }
+});
+
+/**
+ * Transcribe a voice note with Gemini
+ * The client records a short voice note describing a meal; the transcript becomes the
+ * entry's description and then goes through the normal analysis. Counts against the same
+ * daily quota as analyzeFood (users with their own key are not counted).
+ */
+exports.transcribeAudio = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { audio, model } = request.data;
+
+  if (!audio || typeof audio.data !== 'string' || typeof audio.mimeType !== 'string' || !audio.mimeType.startsWith('audio/')) {
+    throw new HttpsError('invalid-argument', 'Audio must include base64 data and an audio MIME type');
+  }
+
+  if (Buffer.byteLength(audio.data, 'base64') > MAX_TRANSCRIPTION_BYTES) {
+    throw new HttpsError('invalid-argument', 'Voice note is too long - keep it under two minutes');
+  }
+
+  const db = admin.firestore();
+  const userId = request.auth.uid;
+  const quotaDate = getQuotaDateKey();
+  let usage = null; // reserved quota, refunded if the call fails
+
+  try {
+    const settingsDoc = await db.collection('settings').doc(userId).get();
+    const userApiKey = settingsDoc.exists ? settingsDoc.data().geminiApiKey : null;
+    const apiKey = userApiKey || GEMINI_API_KEY;
+    const modelName = resolveGeminiModel(model, userApiKey);
+
+    if (!apiKey) {
+      throw new HttpsError('failed-precondition', 'Gemini API key not configured');
+    }
+
+    if (!userApiKey) {
+      usage = await reserveAnalysisQuota(db, userId, quotaDate);
+    }
+
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const generativeModel = genAI.getGenerativeModel({ model: modelName });
+    const result = await generativeModel.generateContent([
+      'Transcribe this voice note about food the speaker ate, word for word. ' +
+        'Return only the transcript as plain text, without quotes or commentary. ' +
+        'If there is no intelligible speech, return an empty response.',
+      { inlineData: { data: audio.data, mimeType: audio.mimeType } },
+    ]);
+
+    const transcript = result.response.text().trim();
+
+    return {
+      transcript,
+      usage,
+    };
+  } catch (error) {
+    console.error('Error transcribing audio:', error);
+
+    if (usage) {
+      await refundAnalysisQuota(db, userId, quotaDate);
+    }
+
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    if (error.message?.includes('API key')) {
+      throw new HttpsError('permission-denied', 'Invalid Gemini API key');
+    }
+
+    throw new HttpsError('internal', error.message || 'Failed to transcribe audio');
+  }
+});
@@ -0,0 +1,146 @@
+/**
+ * Import Products Script
+ *
+ * Imports an Open Food Facts JSONL dump into the Firestore `products` collection
+ * used for barcode lookups in the add-entry flow.
+ *
+ * Usage (from the functions directory, with application default credentials):
+ *   node scripts/importProducts.js openfoodfacts-products.jsonl.gz [--limit=50000]
+ *
+ * Dumps: https://world.openfoodfacts.org/data (plain or gzipped JSONL)
+ * Nutrient values are stored keyed by schema field ID (protein, carbs, sodium, ...).
+ */
+
+const fs = require('fs');
+const readline = require('readline');
+const zlib = require('zlib');
+const admin = require('firebase-admin');
+
+admin.initializeApp();
+const db = admin.firestore();
+
+const BATCH_SIZE = 500;
+
+// Open Food Facts nutriment key -> schema field ID and multiplier (OFF stores minerals in g)
+const NUTRIENT_MAP = {
+  'proteins': {fieldId: 'protein', multiplier: 1},
+  'carbohydrates': {fieldId: 'carbs', multiplier: 1},
+  'fat': {fieldId: 'fat', multiplier: 1},
+  'energy-kcal': {fieldId: 'calories', multiplier: 1},
+  'fiber': {fieldId: 'fiber', multiplier: 1},
+  'sugars': {fieldId: 'sugar', multiplier: 1},
+  'saturated-fat': {fieldId: 'saturated_fat', multiplier: 1},
+  'sodium': {fieldId: 'sodium', multiplier: 1000},
+  'cholesterol': {fieldId: 'cholesterol', multiplier: 1000},
+  'potassium': {fieldId: 'potassium', multiplier: 1000},
+};
+
+// Barcode normalization shared with the app (src/utils/barcodes.js, an ES module loaded in main),
+// so products are keyed exactly the way the scanner looks them up - including UPC-E codes
+let normalizeBarcode;
+
+/**
+ * Map OFF nutriments with a given suffix (_100g or _serving) to field values
+ */
+function mapNutriments(nutriments, suffix) {
+  const values = {};
+  Object.entries(NUTRIENT_MAP).forEach(([key, {fieldId, multiplier}]) => {
+    const value = Number(nutriments[`${key}${suffix}`]);
+    if (Number.isFinite(value) && value >= 0) {
+      values[fieldId] = Math.round(value * multiplier * 10) / 10;
+    }
+  });
+
+  if (values.carbs !== undefined && values.fiber !== undefined) {
+    values.net_carbs = Math.max(0, Math.round((values.carbs - values.fiber) * 10) / 10);
+  }
+
+  return values;
+}
+
+/**
+ * Convert an OFF product record to a Product document, or null if unusable
+ */
+function toProduct(record) {
+  const barcode = normalizeBarcode(String(record.code || ''));
+  const name = (record.product_name || record.generic_name || '').trim();
+  if (![8, 13, 14].includes(barcode.length) || !name) return null;
+
+  const nutriments = record.nutriments || {};
+  const per100g = mapNutriments(nutriments, '_100g');
+  const perServing = mapNutriments(nutriments, '_serving');
+  if (Object.keys(per100g).length === 0 && Object.keys(perServing).length === 0) return null;
+
+  const product = {
+    barcode,
+    name,
+    source: 'import',
+    updatedAt: Date.now(),
+  };
+
+  const brand = (record.brands || '').split(',')[0].trim();
+  if (brand) product.brand = brand;
+  if (record.serving_size) product.servingSize = String(record.serving_size).trim();
+  if (Object.keys(per100g).length > 0) product.per100g = per100g;
+  if (Object.keys(perServing).length > 0) product.perServing = perServing;
+
+  return product;
+}
+
+async function main() {
+  const [dumpPath, ...flags] = process.argv.slice(2);
+  if (!dumpPath) {
+    console.error('Usage: node scripts/importProducts.js <dump.jsonl[.gz]> [--limit=N]');
+    process.exit(1);
+  }
+
+  ({normalizeBarcode} = await import('../../src/utils/barcodes.js'));
+
+  const limitFlag = flags.find((flag) => flag.startsWith('--limit='));
+  const limit = limitFlag ? Number(limitFlag.split('=')[1]) : Infinity;
+
+  let input = fs.createReadStream(dumpPath);
+  if (dumpPath.endsWith('.gz')) input = input.pipe(zlib.createGunzip());
+  const lines = readline.createInterface({input, crlfDelay: Infinity});
+
+  let batch = db.batch();
+  let pending = 0;
+  let imported = 0;
+  let skipped = 0;
+
+  for await (const line of lines) {
+    if (imported >= limit) break;
+    if (!line.trim()) continue;
+
+    let product = null;
+    try {
+      product = toProduct(JSON.parse(line));
+    } catch (error) {
+      // Malformed line - count it and keep going
+    }
+
+    if (!product) {
+      skipped++;
+      continue;
+    }
+
+    batch.set(db.collection('products').doc(product.barcode), product);
+    pending++;
+    imported++;
+
+    if (pending === BATCH_SIZE) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+      console.log(`Imported ${imported} products (${skipped} skipped)...`);
+    }
+  }
+
+  if (pending > 0) await batch.commit();
+  console.log(`Done: imported ${imported} products, skipped ${skipped}.`);
+}
+
+main().catch((error) => {
+  console.error('Import failed:', error);
+  process.exit(1);
+});
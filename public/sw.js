@@ -0,0 +1,172 @@
+/**
+ * Service Worker
+ *
+ * - App shell cache: pages are network-first with the cached shell as the offline fallback;
+ *   hashed build assets are cache-first (their names change whenever their content does), and
+ *   assets the cached index.html no longer references are dropped
+ * - Share target: photos shared to the app are kept in a cache and the app is opened to log them
+ * - Reconnect wake-up: when the connection returns, asks open app windows to drain the outbox
+ *   (the worker does not drain it itself - see below)
+ *
+ * Plain JavaScript served as-is from /sw.js (not bundled). Bump CACHE_VERSION to drop old caches.
+ */
+
+const CACHE_VERSION = 'v2';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `assets-${CACHE_VERSION}`;
+const SHARE_CACHE = 'share-target'; // read and emptied by the app (see src/services/shareTarget.ts)
+
+const SHELL_URLS = ['/index.html', '/favicon.png', '/manifest.webmanifest', '/icons/icon-192.png'];
+const OUTBOX_WAKE_UP_TAG = 'outbox-wake-up';
+const WAKE_UP_REPLY_TIMEOUT = 5 * 60 * 1000;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, ASSET_CACHE, SHARE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => caches.match('/index.html', { cacheName: SHELL_CACHE }))
+      .then((shell) => shell && pruneAssets(shell))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return; // Firebase, Notion, and AI calls go straight to the network
+
+  if (request.method === 'POST' && url.pathname === '/share-target') {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(event));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+/**
+ * Pages: every route is the SPA shell, so the latest index.html is kept for offline starts
+ * (this worker rarely changes between deploys, so a new shell is what reveals a new build)
+ */
+async function networkFirstShell(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      await cache.put('/index.html', response.clone());
+      event.waitUntil(pruneAssets(response.clone()));
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Build assets: immutable, so a cached copy never goes stale
+ */
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+/**
+ * Drop cached build assets the shell doesn't reference (left over from earlier deploys)
+ * The app has no lazy-loaded chunks, so index.html lists every asset of its build.
+ */
+async function pruneAssets(shell) {
+  const html = await shell.text();
+  if (!html.includes('/assets/')) return; // not a production build (e.g., the dev server)
+
+  const cache = await caches.open(ASSET_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(
+    keys.filter((key) => !html.includes(new URL(key.url).pathname)).map((key) => cache.delete(key))
+  );
+}
+
+/**
+ * Keep shared photos and text for the app, then open the feed to log them
+ */
+async function receiveShare(request) {
+  const formData = await request.formData();
+  const cache = await caches.open(SHARE_CACHE);
+
+  // Replace anything shared earlier that was never picked up
+  const stale = await cache.keys();
+  await Promise.all(stale.map((key) => cache.delete(key)));
+
+  const files = formData.getAll('photos').filter((file) => file instanceof File);
+  await Promise.all(
+    files.map((file, index) =>
+      cache.put(
+        `/share-target/photos/${index}`,
+        new Response(file, {
+          headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) },
+        })
+      )
+    )
+  );
+
+  const text = [formData.get('title'), formData.get('text'), formData.get('url')]
+    .filter((part) => typeof part === 'string' && part.trim())
+    .join('\n');
+  if (text) {
+    await cache.put('/share-target/text', new Response(text));
+  }
+
+  return Response.redirect('/feed?share=1', 303);
+}
+
+/**
+ * Reconnect wake-up (not a true background sync)
+ * The Background Sync API's sync event is only used as a "back online" signal: logging a queued
+ * meal needs the signed-in app (auth, Firebase, AI settings), which this worker doesn't load, so
+ * open windows are asked to drain the outbox. With no window open nothing is logged until the
+ * app is opened again (it drains the outbox on start).
+ */
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_WAKE_UP_TAG) {
+    event.waitUntil(wakeOpenWindows());
+  }
+});
+
+async function wakeOpenWindows() {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length === 0) return;
+
+  const replies = windows.map(
+    (client) =>
+      new Promise((resolve, reject) => {
+        const channel = new MessageChannel();
+        const timer = setTimeout(() => reject(new Error('Outbox drain timed out')), WAKE_UP_REPLY_TIMEOUT);
+        channel.port1.onmessage = (message) => {
+          clearTimeout(timer);
+          if (message.data && message.data.ok) resolve();
+          else reject(new Error('Outbox drain failed'));
+        };
+        client.postMessage({ type: 'drain-outbox' }, [channel.port2]);
+      })
+  );
+  await Promise.any(replies);
+}
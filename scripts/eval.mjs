@@ -0,0 +1,117 @@
+/**
+ * AI Evaluation Runner
+ *
+ * Scores food analysis against a labeled dataset (services/evaluation.ts) and saves a report:
+ *
+ *   npm run eval -- [dataset.json] [--provider fixture|openai-compatible] [--model name]
+ *                   [--base-url url] [--api-key key] [--out report.json] [--baseline report.json]
+ *
+ * Defaults to eval/dataset.json with the fixture provider, which needs no network.
+ * Reports are written to eval/reports/ unless --out is given; --baseline prints the
+ * per-field change against an earlier report.
+ *
+ * The app's TypeScript is loaded through Vite's SSR loader, so VITE_* settings from
+ * .env apply (e.g., VITE_AI_BASE_URL). Gemini through the analyzeFood Cloud Function
+ * needs a signed-in user - evaluate Gemini models with --provider openai-compatible and
+ * Gemini's OpenAI-compatible endpoint instead.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname, extname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createServer } from 'vite';
+
+const MIME_TYPES_BY_EXTENSION = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+};
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    provider: { type: 'string', default: 'fixture' },
+    model: { type: 'string' },
+    'base-url': { type: 'string' },
+    'api-key': { type: 'string' },
+    out: { type: 'string' },
+    baseline: { type: 'string' },
+  },
+});
+
+const datasetPath = resolve(positionals[0] || 'eval/dataset.json');
+
+// The Firebase SDK rejects an empty config when the app modules load; the fixture and
+// OpenAI-compatible providers never contact Firebase, so placeholders are enough offline
+process.env.VITE_FIREBASE_API_KEY ||= 'eval';
+process.env.VITE_FIREBASE_PROJECT_ID ||= 'eval';
+process.env.VITE_FIREBASE_APP_ID ||= 'eval';
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  // Modules are only loaded through ssrLoadModule, so skip the browser dependency scan
+  // (it crawls index.html and reports errors that have nothing to do with the run)
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+// Keep the app's own debug logging out of the report output
+const log = console.log;
+console.log = () => {};
+
+try {
+  const { runEvaluation, compareReports } = await server.ssrLoadModule('/src/services/evaluation.ts');
+  const { detectImageMimeType } = await server.ssrLoadModule('/src/utils/photos.ts');
+
+  const dataset = JSON.parse(await readFile(datasetPath, 'utf8'));
+
+  const loadImage = async (path) => {
+    const bytes = await readFile(resolve(dirname(datasetPath), path));
+    const mimeType = detectImageMimeType(new Uint8Array(bytes)) || MIME_TYPES_BY_EXTENSION[extname(path).toLowerCase()];
+    if (!mimeType) throw new Error(`Unsupported photo format: ${path}`);
+    return { data: bytes.toString('base64'), mimeType };
+  };
+
+  const report = await runEvaluation(dataset, {
+    providerConfig: {
+      provider: args.provider,
+      model: args.model,
+      baseUrl: args['base-url'],
+      apiKey: args['api-key'],
+    },
+    loadImage,
+    onCase: (result, index, total) => {
+      const detail = result.status === 'ok' ? result.title : result.message;
+      log(`[${index + 1}/${total}] ${result.id}: ${result.status} - ${detail}`);
+    },
+  });
+
+  log(`\n${report.dataset} · prompt ${report.promptVersion} · ${report.provider}${report.model ? ` (${report.model})` : ''}`);
+  report.fields.forEach((field) => {
+    const percent = field.meanAbsolutePercentError !== null ? ` (${field.meanAbsolutePercentError}%)` : '';
+    log(`  ${field.fieldId.padEnd(12)} MAE ${String(field.meanAbsoluteError).padStart(7)}${percent}  bias ${field.meanError > 0 ? '+' : ''}${field.meanError}  n=${field.cases}`);
+  });
+  log(`\n  Parse failures: ${Math.round(report.parseFailureRate * 100)}%  Other errors: ${Math.round(report.errorRate * 100)}%  Title score: ${report.titleScore ?? 'n/a'}`);
+
+  if (args.baseline) {
+    const baseline = JSON.parse(await readFile(resolve(args.baseline), 'utf8'));
+    log(`\nCompared with ${baseline.promptVersion} · ${baseline.provider}${baseline.model ? ` (${baseline.model})` : ''}:`);
+    compareReports(report, baseline).forEach((row) => {
+      const change = row.change === null ? 'n/a' : `${row.change > 0 ? '+' : ''}${row.change}`;
+      log(`  ${row.fieldId.padEnd(12)} MAE ${row.baselineError ?? '-'} -> ${row.currentError ?? '-'} (${change})`);
+    });
+  }
+
+  const outPath = resolve(
+    args.out || `eval/reports/${report.promptVersion}-${report.provider}-${new Date(report.createdAt).toISOString().replace(/[:.]/g, '-')}.json`
+  );
+  await mkdir(dirname(outPath), { recursive: true });
+  await writeFile(outPath, `${JSON.stringify(report, null, 2)}\n`);
+  log(`\nReport saved to ${outPath}`);
+} finally {
+  console.log = log;
+  await server.close();
+}
@@ -8,6 +8,7 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuth } from './hooks/useAuth';
 import { ToastProvider } from './hooks/useToast';
+import { UserDataProvider } from './hooks/UserDataProvider';
 import Home from './pages/Home';
 import Pricing from './pages/Pricing';
 import Privacy from './pages/Privacy';
@@ -15,6 +16,8 @@ import Terms from './pages/Terms';
 import Login from './pages/Login';
 import Feed from './pages/Feed';
 import Settings from './pages/Settings';
+import MyFoods from './pages/MyFoods';
+import Recipes from './pages/Recipes';
 import MainChartEmbed from './pages/embed/MainChartEmbed';
 import ProteinGoalEmbed from './pages/embed/ProteinGoalEmbed';
 import CalorieLimitEmbed from './pages/embed/CalorieLimitEmbed';
@@ -37,40 +40,50 @@ function App() {
 
   return (
     <ToastProvider>
-      <BrowserRouter>
-        <Routes>
-          <Route
-            path="/"
-            element={user ? <Navigate to="/feed" replace /> : <Home />}
-          />
-          <Route
-            path="/login"
-            element={user ? <Navigate to="/feed" replace /> : <Login />}
-          />
-          <Route
-            path="/feed"
-            element={user ? <Feed /> : <Navigate to="/" replace />}
-          />
-          <Route
-            path="/settings"
-            element={user ? <Settings /> : <Navigate to="/" replace />}
-          />
-          <Route path="/pricing" element={<Pricing />} />
-          <Route path="/privacy" element={<Privacy />} />
-          <Route path="/terms" element={<Terms />} />
-          <Route
-            path="/auth/notion/callback"
-            element={<NotionCallback />}
-          />
-          {/* Public embed routes (no auth required) */}
-          <Route path="/embed/main-chart/:token" element={<MainChartEmbed />} />
-          <Route path="/embed/protein-goal/:token" element={<ProteinGoalEmbed />} />
-          <Route path="/embed/calorie-limit/:token" element={<CalorieLimitEmbed />} />
-          <Route path="/embed/protein-streak/:token" element={<ProteinStreakEmbed />} />
-          <Route path="/embed/calorie-streak/:token" element={<CalorieStreakEmbed />} />
-          <Route path="*" element={<Navigate to="/" replace />} />
-        </Routes>
-      </BrowserRouter>
+      <UserDataProvider userId={user?.uid ?? null}>
+        <BrowserRouter>
+          <Routes>
+            <Route
+              path="/"
+              element={user ? <Navigate to="/feed" replace /> : <Home />}
+            />
+            <Route
+              path="/login"
+              element={user ? <Navigate to="/feed" replace /> : <Login />}
+            />
+            <Route
+              path="/feed"
+              element={user ? <Feed /> : <Navigate to="/" replace />}
+            />
+            <Route
+              path="/settings"
+              element={user ? <Settings /> : <Navigate to="/" replace />}
+            />
+            <Route
+              path="/foods"
+              element={user ? <MyFoods /> : <Navigate to="/" replace />}
+            />
+            <Route
+              path="/recipes"
+              element={user ? <Recipes /> : <Navigate to="/" replace />}
+            />
+            <Route path="/pricing" element={<Pricing />} />
+            <Route path="/privacy" element={<Privacy />} />
+            <Route path="/terms" element={<Terms />} />
+            <Route
+              path="/auth/notion/callback"
+              element={<NotionCallback />}
+            />
+            {/* Public embed routes (no auth required) */}
+            <Route path="/embed/main-chart/:token" element={<MainChartEmbed />} />
+            <Route path="/embed/protein-goal/:token" element={<ProteinGoalEmbed />} />
+            <Route path="/embed/calorie-limit/:token" element={<CalorieLimitEmbed />} />
+            <Route path="/embed/protein-streak/:token" element={<ProteinStreakEmbed />} />
+            <Route path="/embed/calorie-streak/:token" element={<CalorieStreakEmbed />} />
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
+        </BrowserRouter>
+      </UserDataProvider>
     </ToastProvider>
   );
 }
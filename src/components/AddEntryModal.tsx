@@ -4,84 +4,246 @@
  * Modal for creating new food entries.
  * Supports photo upload, camera capture, text input, and AI summary generation.
  * Uses dynamic form based on user's active schema.
+ *
+ * Five modes:
+ * - Meal: the AI estimates a photographed or described meal
+ * - Several Meals: a pasted log is split into entries with their own times, reviewed as a batch
+ *   (see MealLogReview)
+ * - Label: the AI reads a nutrition facts panel, and values are scaled by servings eaten
+ *   (see ServingsPicker)
+ * - Barcode: values come from the product database (no AI call); unknown barcodes
+ *   fall back to label mode and the resolved product is saved for the next scan
+ * - Menu: the AI reads a restaurant menu, and dishes are ranked by what's left of
+ *   today's goal and calorie limit; picking one pre-fills the entry (see MenuSuggestions)
+ *
+ * Foods from the user's library (My Foods) are suggested most-frequent first and
+ * can be re-logged with a portion multiplier, skipping the AI entirely. Recipes are
+ * logged the same way, by servings eaten of their computed per-serving values.
  */
 
-import { useState, useRef, useEffect } from 'react';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { storage } from '../config/firebase';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { useToast } from '../hooks/useToast';
-import { createEntry, updateEntry, getUserSettings, getActiveSchema } from '../services/firestore';
-import { generateFoodSummary } from '../services/gemini';
-import { syncEntryToNotion } from '../services/notion';
+import { useUserData } from '../hooks/useUserData';
+import { useEntryPhotos, MAX_PHOTOS } from '../hooks/useEntryPhotos';
+import { useEntryWriter, type ReviewData, type ReviewedEntry } from '../hooks/useEntryWriter';
+import { useVoiceNote } from '../hooks/useVoiceNote';
+import { canRecordVoice } from '../hooks/useVoiceRecorder';
+import { getUserCorrections, getProduct } from '../services/firestore';
+import {
+  generateFoodSummary,
+  extractNutritionLabel,
+  splitMealLog,
+  readRestaurantMenu,
+  AIResponseValidationError,
+  type MenuDish,
+} from '../services/gemini';
+import { resolveAIProviderConfig, type AIImageInput } from '../services/ai';
+import { uploadPhotos, uploadVoiceNote } from '../services/storage';
+import { queueEntry } from '../services/outbox';
+import { getNumericFields, getNumericValues } from '../utils/foodItems';
+import { computeRecipePerServing, getRecipeServingItems } from '../utils/recipes';
+import {
+  normalizeBarcode,
+  isValidBarcode,
+  canDetectBarcodes,
+  detectBarcode,
+  getProductServing,
+} from '../utils/products';
+import { getEntryPhotos, readPhotoForAI } from '../utils/photos';
+import { getRemainingBudget, rankMenuDishes, type RankedDish, type RemainingBudget } from '../utils/menuRanking';
 import ReviewEntryModal from './ReviewEntryModal';
-import type { DatabaseSchema, FoodEntry } from '../types';
+import MealLogReview, { type MealLogEntry } from './MealLogReview';
+import MenuSuggestions from './MenuSuggestions';
+import ServingsPicker, { type ServingSelection } from './ServingsPicker';
+import FoodSuggestions from './FoodSuggestions';
+import PhotoPicker from './PhotoPicker';
+import VoiceNoteInput from './VoiceNoteInput';
+import EntryTimeInput from './EntryTimeInput';
+import type { AICorrection, Recipe, SavedFood } from '../types';
 import './AddEntryModal.css';
 
+type EntryMode = 'meal' | 'log' | 'label' | 'barcode' | 'menu';
+
+const ENTRY_MODES: { id: EntryMode; label: string }[] = [
+  { id: 'meal', label: 'Meal' },
+  { id: 'log', label: 'Several Meals' },
+  { id: 'label', label: 'Nutrition Label' },
+  { id: 'barcode', label: 'Barcode' },
+  { id: 'menu', label: 'Menu' },
+];
+
+const LOADING_LABELS: Record<EntryMode, string> = {
+  meal: 'Analyzing...',
+  log: 'Splitting meals...',
+  label: 'Reading label...',
+  barcode: 'Looking up...',
+  menu: 'Reading menu...',
+};
+
+/**
+ * Dishes read from a restaurant menu, ranked against what's left of today's goals
+ */
+interface MenuSelection {
+  dishes: RankedDish[];
+  budget: RemainingBudget;
+  promptVersion: string;
+}
+
+/**
+ * Text of the photo button before any photo is added
+ */
+function getAddPhotoLabel(mode: EntryMode): string {
+  switch (mode) {
+    case 'label':
+      return 'Photograph Label';
+    case 'menu':
+      return 'Photograph Menu';
+    case 'barcode':
+      return canDetectBarcodes() ? 'Scan Barcode' : 'Add Product Photo';
+    default:
+      return 'Add Photo';
+  }
+}
+
+/**
+ * Log the details of an AI response that failed validation
+ */
+function logValidationError(err: unknown) {
+  if (err instanceof AIResponseValidationError) {
+    console.error('AI response failed validation:', err.issues, err.rawResponse);
+  }
+}
+
 interface AddEntryModalProps {
   onClose: () => void;
   onEntryAdded: () => void;
+  initialPhotos?: File[]; // e.g., shared to the installed app from the camera roll
+  initialText?: string;
 }
 
-export default function AddEntryModal({ onClose, onEntryAdded }: AddEntryModalProps) {
+export default function AddEntryModal({ onClose, onEntryAdded, initialPhotos, initialText }: AddEntryModalProps) {
   const { user } = useAuth();
   const { showToast } = useToast();
-  const [schema, setSchema] = useState<DatabaseSchema | null>(null);
-  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const { settings, schema, recentEntries } = useUserData();
+  const { writeEntry } = useEntryWriter();
+  const [corrections, setCorrections] = useState<AICorrection[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const [text, setText] = useState('');
-  const [photoPreview, setPhotoPreview] = useState<string>('');
-  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState(initialText || '');
+  const [mode, setMode] = useState<EntryMode>('meal');
+  const [barcode, setBarcode] = useState('');
+  const [pendingBarcode, setPendingBarcode] = useState(''); // unknown barcode being resolved from its label
+  const { photos, previews, entryTime, entryTimeFromPhoto, addPhotos, removePhoto, pickEntryTime } = useEntryPhotos();
+  const voiceNote = useVoiceNote(settings); // transcribed into the description
 
   // Review modal state
   const [showReviewModal, setShowReviewModal] = useState(false);
-  const [reviewData, setReviewData] = useState<{
-    title: string;
-    summary: string;
-    extractedFields: Record<string, any>;
-    photoUrl: string;
-  } | null>(null);
+  const [reviewData, setReviewData] = useState<ReviewData | null>(null);
+  const [reviewKey, setReviewKey] = useState(0); // remounts the review modal with re-analyzed data
+  const [reanalyzing, setReanalyzing] = useState(false);
   const [savingEntry, setSavingEntry] = useState(false);
 
-  // Load user's active schema
+  // Several meals: proposed entries reviewed as a batch
+  const [mealLogEntries, setMealLogEntries] = useState<MealLogEntry[] | null>(null);
+
+  // Label, barcode, My Foods, and recipes: per-serving values, waiting for the servings eaten
+  const [servingSelection, setServingSelection] = useState<ServingSelection | null>(null);
+
+  // Restaurant menu, waiting for a dish to be picked
+  const [menuSelection, setMenuSelection] = useState<MenuSelection | null>(null);
+
+  // Past review corrections personalize the AI estimates (optional - analysis works without them;
+  // cached, so reopening the modal doesn't read them again)
   useEffect(() => {
     if (!user) return;
 
-    const loadSchema = async () => {
+    const loadCorrections = async () => {
       try {
-        const activeSchema = await getActiveSchema(user.uid);
-        setSchema(activeSchema);
+        setCorrections(await getUserCorrections(user.uid));
       } catch (err) {
-        console.error('Error loading schema:', err);
+        console.error('Error loading AI corrections:', err);
       }
     };
 
-    loadSchema();
+    loadCorrections();
   }, [user]);
 
-  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Picked or shared photos; in barcode mode the code is read from them when the browser supports it
+  const handleAddPhotos = useCallback(async (files: File[]) => {
+    let added;
+    try {
+      added = await addPhotos(files);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read photo');
+      return;
+    }
+    if (added.length === 0) return;
+    setError('');
 
-    setPhotoFile(file);
-    setPhotoPreview(URL.createObjectURL(file));
+    if (mode === 'barcode' && canDetectBarcodes()) {
+      for (const photo of added) {
+        const detected = await detectBarcode(photo.file);
+        if (detected) {
+          setBarcode(detected);
+          return;
+        }
+      }
+      setError('No barcode found in the photo - type the number instead');
+    }
+  }, [addPhotos, mode]);
+
+  // Shared photos are added as if they had been picked (once - StrictMode runs effects twice in development)
+  const initialPhotosAddedRef = useRef(false);
+  useEffect(() => {
+    if (!initialPhotos?.length || initialPhotosAddedRef.current) return;
+    initialPhotosAddedRef.current = true;
+    handleAddPhotos(initialPhotos);
+  }, [initialPhotos, handleAddPhotos]);
+
+  const handleTranscript = (transcript: string) => {
+    setText((current) => (current.trim() ? `${current.trim()} ${transcript}` : transcript));
   };
 
-  const handleRemovePhoto = () => {
-    setPhotoFile(null);
-    setPhotoPreview('');
-    if (cameraInputRef.current) cameraInputRef.current.value = '';
+  const handleModeChange = (newMode: EntryMode) => {
+    setMode(newMode);
+    setPendingBarcode('');
+    setError('');
+  };
+
+  /**
+   * Check the input for the current mode
+   * @returns The problem to show, or null if the input is complete
+   */
+  const validateInput = (normalizedBarcode: string): string | null => {
+    if (mode === 'barcode' && !isValidBarcode(normalizedBarcode)) return 'Please enter a valid EAN or UPC barcode';
+    if (mode === 'log' && !text.trim()) return 'Please describe what you ate';
+    if (mode === 'label' && photos.length === 0) return 'Please add a photo of the nutrition label';
+    if (mode === 'menu' && photos.length === 0) return 'Please add a photo of the menu';
+    if (!text.trim() && photos.length === 0) return 'Please add some text or a photo';
+    return null;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
-    // Validate basic input
-    if (!text.trim() && !photoFile) {
-      setError('Please add some text or a photo');
+    const normalizedBarcode = normalizeBarcode(barcode);
+    const inputError = validateInput(normalizedBarcode);
+    if (inputError) {
+      setError(inputError);
+      return;
+    }
+
+    // Offline: a meal is queued and logged when the connection returns
+    // (the other modes need the AI or product database before anything can be saved)
+    if (!navigator.onLine) {
+      if (mode === 'meal') {
+        await queueMeal();
+      } else {
+        setError("You're offline. Only meals can be logged without a connection.");
+      }
       return;
     }
 
@@ -89,122 +251,295 @@ export default function AddEntryModal({ onClose, onEntryAdded }: AddEntryModalPr
     setError('');
 
     try {
-      let photoUrl = '';
-      let photoBase64 = '';
-
-      // Upload photo to Firebase Storage if provided
-      if (photoFile) {
-        const storageRef = ref(storage, `entries/${user.uid}/${Date.now()}_${photoFile.name}`);
-        await uploadBytes(storageRef, photoFile);
-        photoUrl = await getDownloadURL(storageRef);
-
-        // Convert to base64 for Gemini AI
-        const reader = new FileReader();
-        photoBase64 = await new Promise((resolve) => {
-          reader.onloadend = () => {
-            const base64 = reader.result as string;
-            resolve(base64.split(',')[1]); // Remove data:image/jpeg;base64, prefix
-          };
-          reader.readAsDataURL(photoFile);
-        });
+      switch (mode) {
+        case 'barcode':
+          await lookUpBarcode(user.uid, normalizedBarcode);
+          break;
+        case 'log':
+          await splitLog(user.uid);
+          break;
+        case 'menu':
+          await readMenu();
+          break;
+        case 'label':
+          await readLabel(user.uid);
+          break;
+        case 'meal':
+          await analyzeMeal(user.uid);
+          break;
+      }
+    } catch (err) {
+      logValidationError(err);
+      // The connection dropped part way: queue the meal instead of losing it
+      if (mode === 'meal' && !navigator.onLine) {
+        await queueMeal();
+        return;
       }
+      setError(err instanceof Error ? err.message : 'Failed to analyze entry');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Get text for AI analysis
-      const entryText = text;
+  // Barcode mode: use the product database instead of the AI
+  const lookUpBarcode = async (userId: string, normalizedBarcode: string) => {
+    const product = await getProduct(userId, normalizedBarcode);
+    const serving = product ? getProductServing(product) : null;
 
-      // Generate AI summary and extract field values
-      const aiResult = await generateFoodSummary(entryText, photoBase64 || undefined, schema);
+    if (!product || !serving) {
+      // Unknown barcode: fall back to reading the nutrition label from a photo
+      setMode('label');
+      setPendingBarcode(normalizedBarcode);
+      setError('Product not found. Add a photo of its nutrition label - it will be saved for the next scan.');
+      return;
+    }
+
+    const uploadedPhotos = await uploadPhotos(userId, photos);
+
+    setServingSelection({
+      productName: product.brand ? `${product.name} (${product.brand})` : product.name,
+      servingSize: serving.servingSize,
+      servingsPerContainer: null,
+      perServing: serving.perServing,
+      photos: uploadedPhotos,
+      source: 'barcode',
+      barcode: normalizedBarcode,
+    });
+  };
+
+  // Several meals: split the log into entries with their own times, then review them together
+  const splitLog = async (userId: string) => {
+    const mealLog = await splitMealLog(text, schema, {
+      providerConfig: resolveAIProviderConfig(settings),
+      corrections,
+    });
+    const voiceNoteUrl = voiceNote.keptNote ? await uploadVoiceNote(userId, voiceNote.keptNote) : undefined;
+
+    setMealLogEntries(
+      mealLog.map((meal) => {
+        const review: ReviewData = {
+          title: meal.title,
+          summary: meal.summary,
+          extractedFields: meal.extractedFields,
+          fieldEstimates: meal.fieldEstimates,
+          items: meal.items,
+          photos: [],
+          voiceNoteUrl,
+          source: 'estimate',
+          promptVersion: meal.promptVersion,
+        };
+        return { review, edited: review, description: meal.description, timestamp: meal.timestamp, included: true };
+      })
+    );
+  };
+
+  // Menu mode: read the dishes and rank them by what's left of today's goals
+  // (the menu photos are not uploaded - they aren't photos of the meal)
+  const readMenu = async () => {
+    const images = await Promise.all(photos.map(readPhotoForAI));
+    const menu = await readRestaurantMenu(images, schema, {
+      providerConfig: resolveAIProviderConfig(settings),
+    }, text);
+    if (menu.dishes.length === 0) {
+      setError('No dishes found on the menu. Try a clearer photo.');
+      return;
+    }
+    const budget = getRemainingBudget(recentEntries, settings);
+    setMenuSelection({
+      dishes: rankMenuDishes(menu.dishes, budget),
+      budget,
+      promptVersion: menu.promptVersion,
+    });
+  };
+
+  // Label mode: read exact per-serving values, then ask for the servings eaten
+  const readLabel = async (userId: string) => {
+    const uploadedPhotos = await uploadPhotos(userId, photos);
+    const images: AIImageInput[] = await Promise.all(photos.map(readPhotoForAI));
+
+    const label = await extractNutritionLabel(images, schema, {
+      providerConfig: resolveAIProviderConfig(settings),
+    }, text);
+    setServingSelection({
+      ...label,
+      photos: uploadedPhotos,
+      source: 'label',
+      barcode: pendingBarcode || undefined,
+    });
+  };
+
+  // Meal mode: generate the AI summary and field values, then review them
+  const analyzeMeal = async (userId: string) => {
+    // Upload photos (already compressed) and their thumbnails to Firebase Storage
+    const uploadedPhotos = await uploadPhotos(userId, photos);
+
+    // Convert to base64 for the AI (every photo is analyzed together)
+    const images: AIImageInput[] = await Promise.all(photos.map(readPhotoForAI));
+
+    const aiResult = await generateFoodSummary(text, images, schema, {
+      providerConfig: resolveAIProviderConfig(settings),
+      corrections,
+    });
+    const voiceNoteUrl = voiceNote.keptNote ? await uploadVoiceNote(userId, voiceNote.keptNote) : undefined;
+
+    setReviewData({
+      title: aiResult.title,
+      summary: aiResult.summary,
+      extractedFields: aiResult.extractedFields,
+      fieldEstimates: aiResult.fieldEstimates,
+      items: aiResult.items,
+      photos: uploadedPhotos,
+      voiceNoteUrl,
+      source: 'estimate',
+      promptVersion: aiResult.promptVersion,
+    });
+    setShowReviewModal(true);
+  };
+
+  /**
+   * Queue the meal in the outbox, to be analyzed and saved when the connection returns
+   * (queued meals skip the review, so the AI values are saved as they are)
+   */
+  const queueMeal = async () => {
+    if (!user) return;
+
+    try {
+      await queueEntry({
+        userId: user.uid,
+        timestamp: entryTime ?? Date.now(),
+        text: text.trim(),
+        photos,
+        voiceNote: voiceNote.keptNote,
+      });
+      showToast("You're offline. The entry will be logged when you're back online.", 'info');
+      onEntryAdded();
+    } catch (err) {
+      console.error('Error queueing entry:', err);
+      setError("You're offline and the entry couldn't be saved on this device.");
+    }
+  };
+
+  const handleSelectSavedFood = (food: SavedFood) => {
+    const otherFields: Record<string, unknown> = {};
+    Object.entries(food.fieldValues).forEach(([fieldId, value]) => {
+      if (typeof value !== 'number') otherFields[fieldId] = value;
+    });
+
+    setServingSelection({
+      productName: food.name,
+      servingSize: food.portion,
+      servingsPerContainer: null,
+      perServing: getNumericValues(food.fieldValues),
+      photos: getEntryPhotos(food),
+      source: 'library',
+      savedFoodId: food.id,
+      otherFields,
+      items: food.items,
+    });
+    setError('');
+  };
+
+  // Per-serving values are computed from the ingredients for the active schema's numeric fields
+  const handleSelectRecipe = (recipe: Recipe) => {
+    const fieldIds = getNumericFields(schema?.fields).map((field) => field.id);
+
+    setServingSelection({
+      productName: recipe.name,
+      servingSize: '1 serving',
+      servingsPerContainer: recipe.servings,
+      perServing: computeRecipePerServing(recipe, fieldIds),
+      photos: [],
+      source: 'recipe',
+      recipeId: recipe.id,
+      items: getRecipeServingItems(recipe, fieldIds),
+    });
+    setError('');
+  };
+
+  const handleServingsReview = (review: ReviewData) => {
+    setReviewData(review);
+    setShowReviewModal(true);
+  };
+
+  // My Foods and recipe values were reviewed when they were saved, so they can be logged directly
+  const handleQuickLog = (review: ReviewData) => {
+    saveEntry(review, review);
+  };
+
+  // A picked dish pre-fills a new entry, reviewed like any other estimate
+  const handleSelectMenuDish = (dish: MenuDish) => {
+    if (!menuSelection) return;
+
+    setText(dish.description ? `${dish.name}: ${dish.description}` : dish.name);
+    setReviewData({
+      title: dish.name,
+      summary: `From a restaurant menu${dish.description ? `: ${dish.description}` : '.'}`,
+      extractedFields: dish.fieldValues,
+      fieldEstimates: dish.fieldEstimates,
+      items: [{ name: dish.name, portion: '1 serving', fieldValues: dish.fieldValues, fieldEstimates: dish.fieldEstimates }],
+      photos: [],
+      source: 'menu',
+      promptVersion: menuSelection.promptVersion,
+    });
+    setShowReviewModal(true);
+  };
+
+  // Identical inputs return the cached analysis, so re-analyzing explicitly bypasses the cache
+  const handleReanalyze = async () => {
+    if (!reviewData) return;
+
+    setReanalyzing(true);
+    try {
+      const images = await Promise.all(photos.map(readPhotoForAI));
+      const aiResult = await generateFoodSummary(text, images, schema, {
+        providerConfig: resolveAIProviderConfig(settings),
+        corrections,
+        forceRefresh: true,
+      });
 
-      // Show review modal with AI-generated data
       setReviewData({
+        ...reviewData,
         title: aiResult.title,
         summary: aiResult.summary,
         extractedFields: aiResult.extractedFields,
-        photoUrl,
+        fieldEstimates: aiResult.fieldEstimates,
+        items: aiResult.items,
+        promptVersion: aiResult.promptVersion,
       });
-      setShowReviewModal(true);
-    } catch (err: any) {
-      setError(err.message || 'Failed to analyze entry');
+      setReviewKey((key) => key + 1);
+    } catch (err) {
+      logValidationError(err);
+      showToast(err instanceof Error ? err.message : 'Failed to analyze entry', 'error');
     } finally {
-      setLoading(false);
+      setReanalyzing(false);
     }
   };
 
-  const handleReviewSave = async (updatedData: {
-    title: string;
-    summary: string;
-    extractedFields: Record<string, any>;
-  }) => {
-    if (!user || !reviewData) return;
+  const handleReviewSave = (updatedData: ReviewedEntry) => {
+    if (reviewData) saveEntry(reviewData, updatedData);
+  };
+
+  const saveEntry = async (review: ReviewData, updatedData: ReviewedEntry) => {
+    if (!user) return;
 
     setSavingEntry(true);
     setError('');
 
     try {
-      // Create entry in Firestore
-      const entryData: any = {
-        userId: user.uid,
-        timestamp: Date.now(),
-        title: updatedData.title,
-        text: text.trim(),
-        photoUrl: reviewData.photoUrl,
-        aiSummary: updatedData.summary,
-      };
-
-      // Always create fieldValues with extracted data (even without schema)
-      // This ensures dashboard can always read macro data
-      entryData.fieldValues = {
-        name: updatedData.title,
-        date: Date.now(),
-        summary: updatedData.summary,
-        photo: reviewData.photoUrl,
-        // Include extracted fields (macros) from AI
-        ...updatedData.extractedFields,
-      };
-
-      // Add schema reference if schema exists
-      if (schema) {
-        entryData.schemaId = schema.id;
-      }
+      const timestamp = updatedData.timestamp ?? entryTime ?? Date.now();
+      const synced = await writeEntry(review, updatedData, timestamp, text.trim());
 
-      // FIRESTORE-FIRST: Save to Firestore first (source of truth)
-      console.log('Creating entry in Firestore (source of truth) with schema:', schema?.id);
-      const entry = await createEntry(entryData);
-      console.log('Entry saved to Firestore:', entry.id);
-
-      // Check if Notion is configured - sync as mirror
-      const settings = await getUserSettings(user.uid);
-      const hasNotion = settings?.notionApiKey && settings?.notionDatabaseId;
-
-      if (hasNotion) {
-        // NOTION SYNC: Try to sync to Notion (mirror/view destination)
-        try {
-          console.log('Syncing entry to Notion (mirror) with schema:', schema?.id);
-          const notionPageId = await syncEntryToNotion(
-            entry as FoodEntry,
-            settings.notionApiKey!,
-            settings.notionDatabaseId!,
-            schema
-          );
-          console.log('Synced to Notion:', notionPageId);
-
-          // Update Firestore entry with Notion page ID
-          await updateEntry(entry.id, { notionPageId });
-          console.log('Updated Firestore entry with notionPageId');
-
-          showToast('Entry saved and synced to Notion!', 'success');
-        } catch (notionError: any) {
-          console.error('Failed to sync to Notion (mirror):', notionError);
-          showToast('Entry saved locally. Notion sync failed - will retry later.', 'warning');
-          // Entry is still saved in Firestore, just failed to mirror to Notion
-        }
+      if (synced === true) {
+        showToast('Entry saved and synced to Notion!', 'success');
+      } else if (synced === false) {
+        showToast('Entry saved locally. Notion sync failed - will retry later.', 'warning');
       } else {
         showToast('Entry saved successfully!', 'success');
       }
 
       onEntryAdded();
-    } catch (err: any) {
-      setError(err.message || 'Failed to create entry');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create entry');
       setSavingEntry(false);
     }
   };
@@ -214,6 +549,8 @@ export default function AddEntryModal({ onClose, onEntryAdded }: AddEntryModalPr
     setReviewData(null);
   };
 
+  const busy = loading || voiceNote.recording || voiceNote.transcribing;
+
   return (
     <>
       <div className="modal-overlay" onClick={onClose}>
@@ -225,69 +562,170 @@ export default function AddEntryModal({ onClose, onEntryAdded }: AddEntryModalPr
             </button>
           </div>
 
-          <form onSubmit={handleSubmit} className="entry-form">
-            {/* Photo Upload or Preview */}
-            {photoPreview ? (
-              <div className="photo-preview">
-                <img src={photoPreview} alt="Preview" />
-                <button
-                  type="button"
-                  onClick={handleRemovePhoto}
-                  className="remove-photo-btn"
-                >
-                  ×
-                </button>
+          {servingSelection ? (
+            <ServingsPicker
+              selection={servingSelection}
+              fields={schema?.fields || []}
+              onReview={handleServingsReview}
+              onQuickLog={handleQuickLog}
+              onBack={() => setServingSelection(null)}
+              error={error}
+              saving={savingEntry}
+            />
+          ) : menuSelection ? (
+            <div className="entry-form">
+              {/* Dishes from the menu, best fit first */}
+              <MenuSuggestions
+                dishes={menuSelection.dishes}
+                budget={menuSelection.budget}
+                fields={getNumericFields(schema?.fields)}
+                onSelect={handleSelectMenuDish}
+                onBack={() => setMenuSelection(null)}
+              />
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="entry-form">
+              {/* Meal estimate, several meals, nutrition label, barcode, or menu */}
+              <div className="mode-toggle" role="tablist">
+                {ENTRY_MODES.map((entryMode) => (
+                  <button
+                    key={entryMode.id}
+                    type="button"
+                    role="tab"
+                    aria-selected={mode === entryMode.id}
+                    className={mode === entryMode.id ? 'active' : ''}
+                    onClick={() => handleModeChange(entryMode.id)}
+                    disabled={loading}
+                  >
+                    {entryMode.label}
+                  </button>
+                ))}
               </div>
-            ) : (
-              <div className="simple-upload-area">
+
+              {/* My Foods and recipes */}
+              {mode === 'meal' && (
+                <FoodSuggestions
+                  onSelectFood={handleSelectSavedFood}
+                  onSelectRecipe={handleSelectRecipe}
+                  disabled={loading}
+                />
+              )}
+
+              {/* Several meals: the log is split into entries, each with its own time */}
+              {mode === 'log' && (
+                <p className="log-hint">
+                  Paste everything you ate, with days and times - e.g., "yesterday: oatmeal for breakfast,
+                  burrito at 1pm; today coffee and a banana". You'll review each entry before saving.
+                </p>
+              )}
+
+              {/* Barcode Input */}
+              {mode === 'barcode' && (
                 <input
-                  ref={cameraInputRef}
-                  type="file"
-                  accept="image/*"
-                  capture="environment"
-                  onChange={handlePhotoSelect}
-                  style={{ display: 'none' }}
+                  type="text"
+                  inputMode="numeric"
+                  value={barcode}
+                  onChange={(e) => setBarcode(e.target.value)}
+                  placeholder="Barcode number (EAN/UPC)"
+                  className="barcode-input"
+                  aria-label="Barcode"
+                  disabled={loading}
                 />
-                <button
-                  type="button"
-                  onClick={() => cameraInputRef.current?.click()}
-                  className="simple-upload-btn"
-                >
-                  Add Photo
-                </button>
-              </div>
-            )}
-
-            {/* Description Input */}
-            <textarea
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              placeholder="Describe what you ate..."
-              className="description-input"
-              rows={6}
-              disabled={loading}
-            />
+              )}
+              {mode === 'label' && pendingBarcode && (
+                <p className="pending-barcode">Saving nutrition values for barcode {pendingBarcode}</p>
+              )}
+
+              {/* Photo Upload and Previews */}
+              {mode !== 'log' && (
+                <PhotoPicker
+                  previews={previews}
+                  maxPhotos={MAX_PHOTOS}
+                  addLabel={getAddPhotoLabel(mode)}
+                  onAdd={handleAddPhotos}
+                  onRemove={removePhoto}
+                />
+              )}
+
+              {/* Description Input */}
+              {mode !== 'barcode' && (
+                <textarea
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder={
+                    mode === 'label'
+                      ? 'Product name or notes (optional)'
+                      : mode === 'menu'
+                        ? 'Restaurant name or notes (optional)'
+                        : 'Describe what you ate...'
+                  }
+                  className="description-input"
+                  rows={mode === 'label' || mode === 'menu' ? 2 : mode === 'log' ? 8 : 6}
+                  disabled={busy}
+                />
+              )}
+
+              {/* Voice Note (transcribed into the description) */}
+              {(mode === 'meal' || mode === 'log') && canRecordVoice() && (
+                <VoiceNoteInput
+                  voiceNote={voiceNote}
+                  onTranscript={handleTranscript}
+                  onError={setError}
+                  disabled={loading}
+                />
+              )}
+
+              {/* When it was eaten (several meals get their times from the log) */}
+              {mode !== 'log' && (
+                <EntryTimeInput
+                  time={entryTime}
+                  fromPhoto={entryTimeFromPhoto}
+                  onChange={pickEntryTime}
+                  disabled={loading}
+                />
+              )}
 
-            {error && <p className="error">{error}</p>}
+              {error && <p className="error">{error}</p>}
 
-            {/* Submit Button */}
-            <button type="submit" className="submit-btn" disabled={loading}>
-              {loading ? 'Analyzing...' : 'Continue'}
-            </button>
-          </form>
+              {/* Submit Button */}
+              <button type="submit" className="submit-btn" disabled={busy}>
+                {loading ? LOADING_LABELS[mode] : 'Continue'}
+              </button>
+            </form>
+          )}
         </div>
       </div>
 
+      {/* Batch Review (several meals) */}
+      {mealLogEntries && (
+        <MealLogReview
+          entries={mealLogEntries}
+          fields={getNumericFields(schema?.fields)}
+          onSaved={onEntryAdded}
+          onCancel={() => setMealLogEntries(null)}
+        />
+      )}
+
       {/* Review Entry Modal */}
       {showReviewModal && reviewData && (
         <ReviewEntryModal
+          key={reviewKey}
           isOpen={showReviewModal}
+          timestamp={entryTime ?? Date.now()}
           title={reviewData.title}
           summary={reviewData.summary}
           extractedFields={reviewData.extractedFields}
-          photoPreview={reviewData.photoUrl || photoPreview}
+          fieldEstimates={reviewData.fieldEstimates}
+          items={reviewData.items}
+          photoPreviews={
+            reviewData.photos.length > 0 || reviewData.source === 'menu'
+              ? reviewData.photos.map((photo) => photo.url)
+              : previews
+          }
           onSave={handleReviewSave}
           onCancel={handleReviewCancel}
+          onReanalyze={reviewData.source === 'estimate' ? handleReanalyze : undefined}
+          reanalyzing={reanalyzing}
           loading={savingEntry}
         />
       )}
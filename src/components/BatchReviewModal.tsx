@@ -0,0 +1,143 @@
+/**
+ * Batch Review Modal Component
+ *
+ * Lists the entries split out of a multi-meal log so they can all be checked
+ * before any is saved. Each entry can be retitled, moved to another time,
+ * opened in the full review modal, or left out of the batch.
+ */
+
+import type { FieldConfig, FieldEstimate } from '../types';
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '../utils/entryTime';
+import './ReviewEntryModal.css';
+import './BatchReviewModal.css';
+
+/**
+ * A proposed entry as shown in the batch
+ */
+export interface BatchReviewEntry {
+  title: string;
+  description: string; // the part of the log this entry came from
+  timestamp: number;
+  extractedFields: Record<string, unknown>;
+  fieldEstimates: Record<string, FieldEstimate>;
+  included: boolean;
+}
+
+interface BatchReviewModalProps {
+  entries: BatchReviewEntry[];
+  fields: FieldConfig[]; // numeric fields to show for each entry
+  onChange: (index: number, updates: Partial<Pick<BatchReviewEntry, 'title' | 'timestamp' | 'included'>>) => void;
+  onEdit: (index: number) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  error?: string;
+  loading?: boolean;
+}
+
+const BatchReviewModal: React.FC<BatchReviewModalProps> = ({
+  entries,
+  fields,
+  onChange,
+  onEdit,
+  onSave,
+  onCancel,
+  error,
+  loading = false,
+}) => {
+  const includedCount = entries.filter((entry) => entry.included).length;
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="review-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="review-header">
+          <h2>Review {entries.length} Entries</h2>
+          <button className="close-btn" onClick={onCancel} disabled={loading}>
+            ×
+          </button>
+        </div>
+
+        <div className="review-content">
+          <ul className="batch-entries">
+            {entries.map((entry, index) => (
+              <li key={index} className={`batch-entry${entry.included ? '' : ' excluded'}`}>
+                <div className="batch-entry-header">
+                  <input
+                    type="checkbox"
+                    checked={entry.included}
+                    onChange={(e) => onChange(index, { included: e.target.checked })}
+                    aria-label={`Include ${entry.title}`}
+                    disabled={loading}
+                  />
+                  <input
+                    type="text"
+                    value={entry.title}
+                    onChange={(e) => onChange(index, { title: e.target.value })}
+                    className="batch-entry-title"
+                    aria-label="Entry title"
+                    disabled={loading || !entry.included}
+                  />
+                </div>
+
+                {entry.description && <p className="batch-entry-description">“{entry.description}”</p>}
+
+                <div className="batch-entry-details">
+                  <input
+                    type="datetime-local"
+                    value={toDateTimeLocalValue(entry.timestamp)}
+                    max={toDateTimeLocalValue(Date.now())}
+                    onChange={(e) => {
+                      const timestamp = fromDateTimeLocalValue(e.target.value);
+                      if (timestamp !== null) onChange(index, { timestamp });
+                    }}
+                    className="batch-entry-time"
+                    aria-label="When it was eaten"
+                    disabled={loading || !entry.included}
+                  />
+                  <button
+                    type="button"
+                    className="batch-entry-edit"
+                    onClick={() => onEdit(index)}
+                    disabled={loading || !entry.included}
+                  >
+                    Edit
+                  </button>
+                </div>
+
+                <p className="batch-entry-values">
+                  {fields
+                    .filter((field) => typeof entry.extractedFields[field.id] === 'number')
+                    .map((field) => (
+                      <span
+                        key={field.id}
+                        className={entry.fieldEstimates[field.id]?.confidence === 'low' ? 'low-confidence' : ''}
+                      >
+                        {String(entry.extractedFields[field.id])}
+                        {field.unit && ` ${field.unit}`} {field.name}
+                      </span>
+                    ))}
+                </p>
+              </li>
+            ))}
+          </ul>
+
+          {error && <p className="error">{error}</p>}
+        </div>
+
+        <div className="review-actions">
+          <button className="btn-secondary" onClick={onCancel} disabled={loading}>
+            Cancel
+          </button>
+          <button
+            className="btn-primary"
+            onClick={onSave}
+            disabled={loading || includedCount === 0 || entries.some((entry) => entry.included && !entry.title.trim())}
+          >
+            {loading ? 'Saving...' : `Save ${includedCount} ${includedCount === 1 ? 'Entry' : 'Entries'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchReviewModal;
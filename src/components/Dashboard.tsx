@@ -1,11 +1,13 @@
 /**
  * Dashboard Component
  *
- * Mobile-optimized dashboard showing macro trends and goal progress.
- * Displays a multi-line chart for daily macros and progress bars for goals/streaks.
+ * Mobile-optimized dashboard showing nutrient trends and goal progress.
+ * Displays a multi-line chart for the schema's numeric fields and progress bars for goals/streaks.
+ * Reads recent entries, the active schema, and settings from the shared user data store;
+ * streaks longer than the recent entries read older entries back to the last day without any.
  */
 
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -16,23 +18,50 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
-import type { FoodEntry, DatabaseSchema, UserSettings } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import { useUserData } from '../hooks/useUserData';
+import { getUserEntriesSinceLastGap } from '../services/firestore';
 import {
   aggregateDailyMacros,
+  getChartFields,
   getCurrentDayTotal,
+  calculateGoalStreak,
   calculateStreak,
   calculateCalorieStreak,
   getCalorieLimit,
+  getDefaultVisibleFields,
+  formatFieldLabel,
+  CHART_LINE_COLORS,
 } from '../utils/dashboardData';
+import type { FoodEntry } from '../types';
 import './Dashboard.css';
 
 interface DashboardProps {
-  entries: FoodEntry[];
-  schema: DatabaseSchema | null;
-  settings?: UserSettings | null;
+  hasEntries: boolean; // whether the user has any entries at all, however old
 }
 
-export default function Dashboard({ entries, schema, settings }: DashboardProps) {
+export default function Dashboard({ hasEntries }: DashboardProps) {
+  const { user } = useAuth();
+  const { recentEntries: entries, historyStart, schema, settings } = useUserData();
+  const [streakEntries, setStreakEntries] = useState<FoodEntry[] | null>(null);
+
+  // Streaks count back past the recent entries when every recent day has entries
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    getUserEntriesSinceLastGap(user.uid, { entries, start: historyStart })
+      .then((loaded) => {
+        if (!cancelled) setStreakEntries(loaded);
+      })
+      .catch((error) => console.error('Error loading entries for streaks:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [user, entries, historyStart]);
+
+  const streakSource = streakEntries || entries;
+
   // Get goal configuration from settings (with defaults)
   const goalField = settings?.goalField || 'protein';
   const goalValue = settings?.proteinGoal || 150;
@@ -47,22 +76,33 @@ export default function Dashboard({ entries, schema, settings }: DashboardProps)
     calorieStreak: true,
   };
 
-  // Filter state for which macros to show
-  const [visibleMacros, setVisibleMacros] = useState({
-    calories: true,
-    protein: true,
-    carbs: true,
-    fat: true,
-  });
+  // Numeric fields of the schema that can be charted
+  const chartFields = useMemo(() => getChartFields(schema), [schema]);
 
-  // Aggregate daily macro data for chart
+  // Fields the user toggled; untoggled fields use the default visibility
+  const [fieldToggles, setFieldToggles] = useState<Record<string, boolean>>({});
+  const defaultVisible = getDefaultVisibleFields(chartFields);
+  const isFieldVisible = (fieldId: string) => fieldToggles[fieldId] ?? defaultVisible.includes(fieldId);
+
+  // Aggregate daily data for chart
   const dailyData = useMemo(() => {
-    const data = aggregateDailyMacros(entries, 7); // Last 7 days
-    console.log('Dashboard - entries:', entries);
-    console.log('Dashboard - dailyData:', data);
-    console.log('Dashboard - schema:', schema);
-    return data;
-  }, [entries, schema]);
+    return aggregateDailyMacros(entries, 7, chartFields.map((f) => f.id)); // Last 7 days
+  }, [entries, chartFields]);
+
+  // Goals for other fields (the goal field and calories have their own cards)
+  const fieldGoals = useMemo(() => {
+    return Object.entries(settings?.fieldGoals || {})
+      .filter(([fieldId, goal]) => goal.target > 0 && fieldId !== goalField && fieldId !== 'calories')
+      .map(([fieldId, goal]) => {
+        const field = chartFields.find((f) => f.id === fieldId) || { id: fieldId, name: fieldId.replace(/_/g, ' ') };
+        return {
+          field,
+          goal,
+          current: getCurrentDayTotal(entries, fieldId),
+          streak: calculateGoalStreak(streakSource, fieldId, goal),
+        };
+      });
+  }, [entries, streakSource, settings?.fieldGoals, goalField, chartFields]);
 
   // Get current day's total for goal field
   const currentTotal = useMemo(() => {
@@ -71,12 +111,12 @@ export default function Dashboard({ entries, schema, settings }: DashboardProps)
 
   // Calculate streaks
   const proteinStreak = useMemo(() => {
-    return calculateStreak(entries, goalField, goalValue);
-  }, [entries, goalField, goalValue]);
+    return calculateStreak(streakSource, goalField, goalValue);
+  }, [streakSource, goalField, goalValue]);
 
   const calorieStreak = useMemo(() => {
-    return calculateCalorieStreak(entries, calorieLimit);
-  }, [entries, calorieLimit]);
+    return calculateCalorieStreak(streakSource, calorieLimit);
+  }, [streakSource, calorieLimit]);
   
   // Get current day calorie total
   const currentCalories = useMemo(() => {
@@ -106,8 +146,8 @@ export default function Dashboard({ entries, schema, settings }: DashboardProps)
     return field?.unit || 'g';
   }, [schema, goalField]);
 
-  // Show empty state if no entries
-  if (entries.length === 0) {
+  // Show empty state if there are no entries (older ones still get the dashboard)
+  if (!hasEntries) {
     return (
       <div className="dashboard-container">
         <div className="dashboard-empty">
@@ -124,48 +164,20 @@ export default function Dashboard({ entries, schema, settings }: DashboardProps)
       <div className="dashboard-section">
         <div className="dashboard-header-with-filter">
           <h2 className="dashboard-title">Daily Macros</h2>
-          {/* Macro Filter Toggles */}
+          {/* Field Filter Toggles */}
           <div className="macro-filters">
-            <label className="macro-filter-item">
-              <input
-                type="checkbox"
-                checked={visibleMacros.calories}
-                onChange={(e) =>
-                  setVisibleMacros({ ...visibleMacros, calories: e.target.checked })
-                }
-              />
-              <span className="filter-label">Calories</span>
-            </label>
-            <label className="macro-filter-item">
-              <input
-                type="checkbox"
-                checked={visibleMacros.protein}
-                onChange={(e) =>
-                  setVisibleMacros({ ...visibleMacros, protein: e.target.checked })
-                }
-              />
-              <span className="filter-label">Protein</span>
-            </label>
-            <label className="macro-filter-item">
-              <input
-                type="checkbox"
-                checked={visibleMacros.carbs}
-                onChange={(e) =>
-                  setVisibleMacros({ ...visibleMacros, carbs: e.target.checked })
-                }
-              />
-              <span className="filter-label">Carbs</span>
-            </label>
-            <label className="macro-filter-item">
-              <input
-                type="checkbox"
-                checked={visibleMacros.fat}
-                onChange={(e) =>
-                  setVisibleMacros({ ...visibleMacros, fat: e.target.checked })
-                }
-              />
-              <span className="filter-label">Fat</span>
-            </label>
+            {chartFields.map((field) => (
+              <label key={field.id} className="macro-filter-item">
+                <input
+                  type="checkbox"
+                  checked={isFieldVisible(field.id)}
+                  onChange={(e) =>
+                    setFieldToggles({ ...fieldToggles, [field.id]: e.target.checked })
+                  }
+                />
+                <span className="filter-label">{field.name}</span>
+              </label>
+            ))}
           </div>
         </div>
         <div className="chart-container">
@@ -197,53 +209,28 @@ export default function Dashboard({ entries, schema, settings }: DashboardProps)
                   wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}
                   iconType="line"
                 />
-                {visibleMacros.calories && (
-                  <Line
-                    type="monotone"
-                    dataKey="calories"
-                    stroke="#000000"
-                    strokeWidth={2}
-                    dot={{ r: 3 }}
-                    name="Calories"
-                  />
-                )}
-                {visibleMacros.protein && (
-                  <Line
-                    type="monotone"
-                    dataKey="protein"
-                    stroke="#666666"
-                    strokeWidth={2}
-                    dot={{ r: 3 }}
-                    name="Protein (g)"
-                  />
-                )}
-                {visibleMacros.carbs && (
-                  <Line
-                    type="monotone"
-                    dataKey="carbs"
-                    stroke="#999999"
-                    strokeWidth={2}
-                    dot={{ r: 3 }}
-                    name="Carbs (g)"
-                  />
-                )}
-                {visibleMacros.fat && (
-                  <Line
-                    type="monotone"
-                    dataKey="fat"
-                    stroke="#cccccc"
-                    strokeWidth={2}
-                    dot={{ r: 3 }}
-                    name="Fat (g)"
-                  />
-                )}
+                {chartFields.filter((field) => isFieldVisible(field.id)).map((field) => {
+                  const index = chartFields.indexOf(field);
+                  return (
+                    <Line
+                      key={field.id}
+                      type="monotone"
+                      dataKey={field.id}
+                      stroke={CHART_LINE_COLORS[index % CHART_LINE_COLORS.length]}
+                      strokeDasharray={index >= CHART_LINE_COLORS.length ? '5 3' : undefined}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      name={formatFieldLabel(field)}
+                    />
+                  );
+                })}
               </LineChart>
             </ResponsiveContainer>
           ) : (
             <div className="chart-empty">
               <p>
                 {entries.length > 0
-                  ? 'No macro data found in entries. Make sure entries have calories, protein, carbs, or fat.'
+                  ? `No data found in entries from the last 7 days. Make sure entries have ${chartFields.map((f) => f.name.toLowerCase()).join(', ')}.`
                   : 'No data to display'}
               </p>
             </div>
@@ -305,6 +292,46 @@ export default function Dashboard({ entries, schema, settings }: DashboardProps)
         </div>
         )}
 
+        {/* Field Goal Progress Bars */}
+        {fieldGoals.map(({ field, goal, current, streak }) => {
+          const unit = field.unit ? ` ${field.unit}` : '';
+          const progress = Math.min((current / goal.target) * 100, 100);
+          const over = goal.direction === 'max' && current > goal.target;
+          return (
+            <div key={field.id} className="progress-card">
+              <div className="progress-header">
+                <span className="progress-label">
+                  {field.name} {goal.direction === 'max' ? 'Limit' : 'Goal'}
+                </span>
+                <span className="progress-value">
+                  {Math.round(current)} / {Math.round(goal.target)}{unit}
+                </span>
+              </div>
+              <div className="progress-bar-container">
+                <div
+                  className="progress-bar-fill"
+                  style={{
+                    width: `${progress}%`,
+                    backgroundColor: over ? '#ff4444' : '#000000'
+                  }}
+                />
+              </div>
+              <div className="progress-percentage">
+                {goal.direction === 'max' ? (
+                  over ? (
+                    <span style={{ color: '#ff4444' }}>{Math.round(current - goal.target)}{unit} over limit</span>
+                  ) : (
+                    <span>{Math.round(goal.target - current)}{unit} remaining</span>
+                  )
+                ) : (
+                  <span>{Math.round(progress)}%</span>
+                )}
+                {streak > 0 && <span> · 🔥 {streak} day streak</span>}
+              </div>
+            </div>
+          );
+        })}
+
         {/* Protein Streak Counter Bar */}
         {visibility.proteinStreak && (
         <div className="progress-card">
@@ -6,51 +6,37 @@
  * Minimal card design with Notion aesthetic.
  */
 
-import { useState, useEffect } from 'react';
-import type { FoodEntry, DatabaseSchema } from '../types';
-import { deleteEntry, getSchema, getUserSettings } from '../services/firestore';
+import { useState } from 'react';
+import type { FoodEntry } from '../types';
+import { deleteEntry, createSavedFood } from '../services/firestore';
 import { deleteNotionPage } from '../services/notion';
 import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../hooks/useToast';
+import { useUserData } from '../hooks/useUserData';
+import { entryToSavedFood } from '../utils/savedFoods';
+import { getEntryPhotos } from '../utils/photos';
+import PhotoCarousel from './PhotoCarousel';
 import './EntryCard.css';
 
 interface EntryCardProps {
   entry: FoodEntry;
-  onDelete: () => void;
+  onDelete?: () => void; // called after the entry is deleted
 }
 
 export default function EntryCard({ entry, onDelete }: EntryCardProps) {
   const { user } = useAuth();
-  const [schema, setSchema] = useState<DatabaseSchema | null>(null);
-  const [loadingSchema, setLoadingSchema] = useState(!!entry.schemaId);
+  const { showToast } = useToast();
+  const { settings, schemas } = useUserData();
   const [isExpanded, setIsExpanded] = useState(false);
 
-  // Load schema if entry has one
-  useEffect(() => {
-    if (!entry.schemaId) {
-      setLoadingSchema(false);
-      return;
-    }
-
-    const loadEntrySchema = async () => {
-      try {
-        const entrySchema = await getSchema(entry.schemaId!);
-        setSchema(entrySchema);
-      } catch (err) {
-        console.error('Error loading schema:', err);
-      } finally {
-        setLoadingSchema(false);
-      }
-    };
-
-    loadEntrySchema();
-  }, [entry.schemaId]);
+  // Schema the entry was logged with (from the shared store, so cards don't fetch it one by one)
+  const schema = entry.schemaId ? schemas.find((s) => s.id === entry.schemaId) || null : null;
 
   const handleDelete = async () => {
     if (!user) return;
 
     try {
-      // Get user settings to check if Notion is configured
-      const settings = await getUserSettings(user.uid);
+      // Check if Notion is configured
       const hasNotion = settings?.notionApiKey && settings?.notionDatabaseId && entry.notionPageId;
 
       let deleteFromNotion = false;
@@ -84,13 +70,25 @@ export default function EntryCard({ entry, onDelete }: EntryCardProps) {
         }
       }
 
-      onDelete();
+      onDelete?.();
     } catch (error) {
       console.error('Error deleting entry:', error);
       alert('Failed to delete entry');
     }
   };
 
+  const handleSaveToLibrary = async () => {
+    if (!user) return;
+
+    try {
+      const food = await createSavedFood(entryToSavedFood(entry, user.uid));
+      showToast(`Saved "${food.name}" to My Foods`, 'success');
+    } catch (error) {
+      console.error('Error saving to My Foods:', error);
+      showToast('Failed to save to My Foods', 'error');
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     const today = new Date();
@@ -202,6 +200,29 @@ export default function EntryCard({ entry, onDelete }: EntryCardProps) {
     );
   };
 
+  const renderItems = () => {
+    if (!entry.items || entry.items.length === 0) return null;
+
+    return (
+      <ul className="entry-items">
+        {entry.items.map((item, index) => (
+          <li key={index} className="entry-item">
+            <span className="entry-item-name">
+              {item.name}
+              {item.portion && <span className="entry-item-portion"> · {item.portion}</span>}
+            </span>
+            <span className="entry-item-macros">
+              {[
+                item.fieldValues.calories != null && `${Math.round(item.fieldValues.calories)} kcal`,
+                item.fieldValues.protein != null && `${Math.round(item.fieldValues.protein)}g protein`,
+              ].filter(Boolean).join(' · ')}
+            </span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
   const renderDynamicFields = () => {
     if (!schema || !entry.fieldValues) return null;
 
@@ -246,18 +267,8 @@ export default function EntryCard({ entry, onDelete }: EntryCardProps) {
     );
   };
 
-  if (loadingSchema) {
-    return (
-      <div className="entry-card loading-card">
-        <div className="entry-content">
-          <p className="loading-text">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  // Get the photo URL (from fieldValues or legacy field)
-  const photoUrl = entry.fieldValues?.photo || entry.photoUrl;
+  // The feed shows thumbnails; full photos are loaded when the card is expanded
+  const photoUrls = getEntryPhotos(entry).map((photo) => (isExpanded ? photo.url : photo.thumbnailUrl || photo.url));
   
   // Get the title text (from fieldValues.name or legacy text)
   const titleText = entry.fieldValues?.name || entry.text;
@@ -286,8 +297,10 @@ export default function EntryCard({ entry, onDelete }: EntryCardProps) {
     return otherFields.length > 0;
   })();
 
+  const hasItems = !!entry.items && entry.items.length > 0;
+
   // Check if there's expandable content
-  const hasExpandableContent = summary || hasOtherFields;
+  const hasExpandableContent = summary || hasOtherFields || hasItems || entry.voiceNoteUrl;
 
   return (
     <div 
@@ -295,11 +308,7 @@ export default function EntryCard({ entry, onDelete }: EntryCardProps) {
       onClick={hasExpandableContent ? () => setIsExpanded(!isExpanded) : undefined}
       style={hasExpandableContent ? { cursor: 'pointer' } : undefined}
     >
-      {photoUrl && (
-        <div className="entry-photo">
-          <img src={photoUrl} alt="Food" />
-        </div>
-      )}
+      <PhotoCarousel photos={photoUrls} alt="Food" className="entry-photo" />
 
       <div className="entry-content">
         {titleText && <p className="entry-text">{titleText}</p>}
@@ -310,6 +319,9 @@ export default function EntryCard({ entry, onDelete }: EntryCardProps) {
         {/* Expanded content (shown when clicked) */}
         {isExpanded && (
           <div className="entry-expanded">
+            {/* Itemized breakdown of the meal */}
+            {renderItems()}
+
             {/* Display other dynamic fields if using schema */}
             {hasOtherFields && renderDynamicFields()}
 
@@ -320,6 +332,16 @@ export default function EntryCard({ entry, onDelete }: EntryCardProps) {
                 <p className="summary-text">{summary}</p>
               </div>
             )}
+
+            {/* Voice note the description was transcribed from */}
+            {entry.voiceNoteUrl && (
+              <audio
+                controls
+                src={entry.voiceNoteUrl}
+                className="entry-voice-note"
+                onClick={(e) => e.stopPropagation()}
+              />
+            )}
           </div>
         )}
 
@@ -330,6 +352,26 @@ export default function EntryCard({ entry, onDelete }: EntryCardProps) {
               {schema.name}
             </span>
           )}
+          {entry.source === 'label' && (
+            <span className="source-badge" title="Values from the nutrition label">
+              Label
+            </span>
+          )}
+          {entry.source === 'barcode' && (
+            <span className="source-badge" title={`Values from the product database (${entry.barcode})`}>
+              Barcode
+            </span>
+          )}
+          {entry.source === 'recipe' && (
+            <span className="source-badge" title="Values computed from a recipe's ingredients">
+              Recipe
+            </span>
+          )}
+          {entry.source === 'menu' && (
+            <span className="source-badge" title="Values estimated from a restaurant menu">
+              Menu
+            </span>
+          )}
           <div className="entry-actions">
             {hasExpandableContent && (
               <button
@@ -343,6 +385,16 @@ export default function EntryCard({ entry, onDelete }: EntryCardProps) {
                 {isExpanded ? '▲' : '▼'}
               </button>
             )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleSaveToLibrary();
+              }}
+              className="save-food-btn"
+              title="Save to My Foods"
+            >
+              ☆
+            </button>
             <button 
               onClick={(e) => {
                 e.stopPropagation();
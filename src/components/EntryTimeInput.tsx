@@ -0,0 +1,39 @@
+/**
+ * Entry Time Input Component
+ *
+ * When a new entry was eaten: now by default, the photos' capture time when
+ * they have one, or a time picked by hand.
+ */
+
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '../utils/entryTime';
+import './EntryTimeInput.css';
+
+interface EntryTimeInputProps {
+  time: number | null; // null = now
+  fromPhoto: boolean; // whether the time was read from the photos
+  onChange: (time: number | null) => void;
+  disabled?: boolean;
+}
+
+export default function EntryTimeInput({ time, fromPhoto, onChange, disabled }: EntryTimeInputProps) {
+  return (
+    <div className="entry-time">
+      <label htmlFor="entry-time">When</label>
+      <input
+        id="entry-time"
+        type="datetime-local"
+        value={toDateTimeLocalValue(time ?? Date.now())}
+        max={toDateTimeLocalValue(Date.now())}
+        onChange={(e) => onChange(fromDateTimeLocalValue(e.target.value))}
+        disabled={disabled}
+      />
+      {time === null ? (
+        <span className="entry-time-note">Now</span>
+      ) : (
+        <button type="button" className="entry-time-reset" onClick={() => onChange(null)}>
+          {fromPhoto ? 'From photo · use now' : 'Use now'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * Field Backfill Component
+ *
+ * Settings section for filling in AI fields that were added to the active schema
+ * after entries were logged. Shows how many entries are missing each field, runs
+ * the backfill one entry at a time with progress, and can be stopped at any point.
+ * Values already on an entry are never changed.
+ * Entries are only checked (a page at a time) when the user asks; the results are
+ * dropped when the schema's AI fields change.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { getUserEntriesPage, type EntryCursor } from '../services/firestore';
+import { useUserData } from '../hooks/useUserData';
+import { resolveAIProviderConfig } from '../services/ai';
+import { getSchemaAIFields } from '../services/gemini';
+import {
+  countMissingFields,
+  findBackfillCandidates,
+  runFieldBackfill,
+  type BackfillCandidate,
+  type BackfillProgress,
+} from '../services/backfill';
+import './FieldBackfill.css';
+
+const SCAN_PAGE_SIZE = 100;
+
+interface FieldBackfillProps {
+  userId: string;
+}
+
+export default function FieldBackfill({ userId }: FieldBackfillProps) {
+  const { settings, schema } = useUserData();
+  const [scan, setScan] = useState<{ key: string; candidates: BackfillCandidate[] } | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [progress, setProgress] = useState<BackfillProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const scanIdRef = useRef(0);
+
+  // Schema snapshots arrive as new objects, so scan results are keyed on what they depend on
+  const schemaKey = `${schema?.id}:${getSchemaAIFields(schema).map((field) => field.id).join(',')}`;
+  const candidates = scan?.key === schemaKey ? scan.candidates : null;
+
+  const scanEntries = async () => {
+    if (!schema) return;
+
+    const scanId = ++scanIdRef.current; // a newer scan replaces this one
+    setScanning(true);
+    setScan({ key: schemaKey, candidates: [] });
+
+    try {
+      let found: BackfillCandidate[] = [];
+      let cursor: EntryCursor | null = null;
+      do {
+        const page = await getUserEntriesPage(userId, cursor, SCAN_PAGE_SIZE);
+        if (scanId !== scanIdRef.current) return;
+        found = [...found, ...findBackfillCandidates(page.entries, schema)];
+        setScan({ key: schemaKey, candidates: found });
+        cursor = page.cursor;
+      } while (cursor);
+    } catch (error) {
+      console.error('Error finding entries to backfill:', error);
+    } finally {
+      if (scanId === scanIdRef.current) setScanning(false);
+    }
+  };
+
+  // Stop a running backfill or scan when leaving the page
+  useEffect(() => {
+    const scanIds = scanIdRef;
+    return () => {
+      abortRef.current?.abort();
+      scanIds.current++;
+    };
+  }, []);
+
+  const handleStart = async () => {
+    if (!schema || !candidates) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+
+    try {
+      await runFieldBackfill(candidates, schema, {
+        providerConfig: resolveAIProviderConfig(settings),
+        notionApiKey: settings?.notionApiKey,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+      if (!controller.signal.aborted) await scanEntries();
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  if (scanning && !running) {
+    return <p className="section-description">Checking entries for missing fields...</p>;
+  }
+
+  if (!candidates) {
+    return (
+      <div className="field-backfill">
+        <p className="section-description">
+          Check your entries for AI fields added to your schema after they were logged.
+        </p>
+        <div className="form-actions">
+          <button type="button" className="btn btn-secondary" onClick={scanEntries} disabled={!schema}>
+            Check Entries
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const missingCounts = countMissingFields(candidates);
+
+  return (
+    <div className="field-backfill">
+      {missingCounts.length === 0 && !progress && (
+        <p className="section-description">All entries have a value for every AI field in your schema.</p>
+      )}
+
+      {missingCounts.length > 0 && !running && (
+        <ul className="field-backfill-missing">
+          {missingCounts.map(({ field, count }) => (
+            <li key={field.id}>
+              <strong>{field.name}</strong> missing on {count} {count === 1 ? 'entry' : 'entries'}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {progress && (
+        <div className="field-backfill-progress">
+          <div className="field-backfill-bar">
+            <div
+              className="field-backfill-bar-fill"
+              style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <p className="input-hint">
+            {progress.done} of {progress.total} entries processed · {progress.updated} updated
+            {progress.failed > 0 && ` · ${progress.failed} failed`}
+            {progress.notionFailed > 0 && ` · ${progress.notionFailed} not updated in Notion`}
+          </p>
+          {progress.lastError && !running && <p className="error">Last error: {progress.lastError}</p>}
+        </div>
+      )}
+
+      <div className="form-actions">
+        {running ? (
+          <button type="button" className="btn btn-secondary" onClick={handleStop}>
+            Stop
+          </button>
+        ) : (
+          candidates.length > 0 && (
+            <button type="button" className="btn btn-primary" onClick={handleStart}>
+              Backfill {candidates.length} {candidates.length === 1 ? 'Entry' : 'Entries'}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
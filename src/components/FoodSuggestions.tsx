@@ -0,0 +1,93 @@
+/**
+ * Food Suggestions Component
+ *
+ * Foods from the user's library (My Foods), most frequent first, and recipes,
+ * most recently updated first. Picking one skips the AI entirely.
+ */
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { getUserSavedFoods, getUserRecipes } from '../services/firestore';
+import { getSuggestedFoods } from '../utils/savedFoods';
+import type { Recipe, SavedFood } from '../types';
+import './FoodSuggestions.css';
+
+const MAX_RECIPE_SUGGESTIONS = 6;
+
+interface FoodSuggestionsProps {
+  onSelectFood: (food: SavedFood) => void;
+  onSelectRecipe: (recipe: Recipe) => void;
+  disabled?: boolean;
+}
+
+export default function FoodSuggestions({ onSelectFood, onSelectRecipe, disabled }: FoodSuggestionsProps) {
+  const { user } = useAuth();
+  const [savedFoods, setSavedFoods] = useState<SavedFood[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+
+  // Cached, so reopening the modal doesn't read them again
+  useEffect(() => {
+    if (!user) return;
+
+    const loadSavedFoods = async () => {
+      try {
+        setSavedFoods(await getUserSavedFoods(user.uid));
+      } catch (err) {
+        console.error('Error loading saved foods:', err);
+      }
+    };
+
+    const loadRecipes = async () => {
+      try {
+        setRecipes(await getUserRecipes(user.uid));
+      } catch (err) {
+        console.error('Error loading recipes:', err);
+      }
+    };
+
+    loadSavedFoods();
+    loadRecipes();
+  }, [user]);
+
+  return (
+    <>
+      {savedFoods.length > 0 && (
+        <div className="food-suggestions">
+          <p className="suggestions-label">My Foods</p>
+          <div className="suggestion-chips">
+            {getSuggestedFoods(savedFoods).map((food) => (
+              <button
+                key={food.id}
+                type="button"
+                className="suggestion-chip"
+                onClick={() => onSelectFood(food)}
+                disabled={disabled}
+              >
+                {food.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {recipes.length > 0 && (
+        <div className="food-suggestions">
+          <p className="suggestions-label">Recipes</p>
+          <div className="suggestion-chips">
+            {recipes.slice(0, MAX_RECIPE_SUGGESTIONS).map((recipe) => (
+              <button
+                key={recipe.id}
+                type="button"
+                className="suggestion-chip"
+                onClick={() => onSelectRecipe(recipe)}
+                disabled={disabled}
+              >
+                {recipe.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
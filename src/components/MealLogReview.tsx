@@ -0,0 +1,131 @@
+/**
+ * Meal Log Review Component
+ *
+ * Reviews the entries split out of a multi-meal log as a batch (one can be opened
+ * in the full review modal), then saves the included ones one at a time.
+ */
+
+import { useState } from 'react';
+import { useToast } from '../hooks/useToast';
+import { useEntryWriter, type ReviewData, type ReviewedEntry } from '../hooks/useEntryWriter';
+import BatchReviewModal, { type BatchReviewEntry } from './BatchReviewModal';
+import ReviewEntryModal from './ReviewEntryModal';
+import type { FieldConfig } from '../types';
+
+/**
+ * One entry split out of a multi-meal log, as proposed and as reviewed
+ */
+export interface MealLogEntry {
+  review: ReviewData; // as proposed by the AI (used to record corrections)
+  edited: ReviewedEntry;
+  description: string; // the part of the log it came from
+  timestamp: number;
+  included: boolean;
+}
+
+interface MealLogReviewProps {
+  entries: MealLogEntry[];
+  fields: FieldConfig[]; // numeric fields to show for each entry
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+export default function MealLogReview({ entries: initialEntries, fields, onSaved, onCancel }: MealLogReviewProps) {
+  const { showToast } = useToast();
+  const { writeEntry } = useEntryWriter();
+  const [entries, setEntries] = useState(initialEntries);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleChange = (
+    index: number,
+    updates: Partial<Pick<BatchReviewEntry, 'title' | 'timestamp' | 'included'>>
+  ) => {
+    setEntries((prev) =>
+      prev.map((entry, i) => {
+        if (i !== index) return entry;
+        const { title, ...rest } = updates;
+        return {
+          ...entry,
+          ...rest,
+          edited: title === undefined ? entry.edited : { ...entry.edited, title },
+        };
+      })
+    );
+  };
+
+  const handleEditSave = (updatedData: ReviewedEntry) => {
+    setEntries((prev) => prev.map((entry, i) => (i === editingIndex ? { ...entry, edited: updatedData } : entry)));
+    setEditingIndex(null);
+  };
+
+  // Entries are written one at a time; saved ones leave the batch so a retry never duplicates them
+  const handleSave = async () => {
+    const remaining = entries.filter((entry) => entry.included);
+    setSaving(true);
+    setError('');
+
+    let savedCount = 0;
+    let failedSyncs = 0;
+    try {
+      while (remaining.length > 0) {
+        const entry = remaining[0];
+        const synced = await writeEntry(entry.review, entry.edited, entry.timestamp, entry.description);
+        if (synced === false) failedSyncs++;
+        remaining.shift();
+        savedCount++;
+      }
+
+      if (failedSyncs > 0) {
+        showToast(`${savedCount} entries saved. Notion sync failed for ${failedSyncs} - will retry later.`, 'warning');
+      } else {
+        showToast(`${savedCount} entries saved!`, 'success');
+      }
+
+      onSaved();
+    } catch (err) {
+      setEntries(remaining);
+      setError(
+        `${savedCount > 0 ? `Saved ${savedCount}, but ` : ''}${err instanceof Error ? err.message : 'Failed to create entries'}`
+      );
+      setSaving(false);
+    }
+  };
+
+  if (editingIndex !== null) {
+    const editing = entries[editingIndex].edited;
+    return (
+      <ReviewEntryModal
+        isOpen
+        title={editing.title}
+        summary={editing.summary}
+        extractedFields={editing.extractedFields}
+        fieldEstimates={editing.fieldEstimates}
+        items={editing.items}
+        onSave={handleEditSave}
+        onCancel={() => setEditingIndex(null)}
+      />
+    );
+  }
+
+  return (
+    <BatchReviewModal
+      entries={entries.map((entry) => ({
+        title: entry.edited.title,
+        description: entry.description,
+        timestamp: entry.timestamp,
+        extractedFields: entry.edited.extractedFields,
+        fieldEstimates: entry.edited.fieldEstimates,
+        included: entry.included,
+      }))}
+      fields={fields}
+      onChange={handleChange}
+      onEdit={setEditingIndex}
+      onSave={handleSave}
+      onCancel={onCancel}
+      error={error}
+      loading={saving}
+    />
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Menu Suggestions Component
+ *
+ * Lists the dishes read from a restaurant menu, best fit for what's left of
+ * today's goal and calorie limit first. Picking a dish pre-fills a new entry.
+ */
+
+import type { FieldConfig } from '../types';
+import type { MenuDish } from '../services/gemini';
+import type { RankedDish, RemainingBudget } from '../utils/menuRanking';
+import './MenuSuggestions.css';
+
+interface MenuSuggestionsProps {
+  dishes: RankedDish[]; // ranked, best fit first
+  budget: RemainingBudget;
+  fields: FieldConfig[]; // numeric fields to show for each dish
+  onSelect: (dish: MenuDish) => void;
+  onBack: () => void;
+}
+
+/**
+ * Describe how a dish fits the remaining budget
+ */
+function describeFit(ranked: RankedDish, goalName: string): string {
+  if (ranked.caloriesOver > 0) {
+    return `${Math.round(ranked.caloriesOver)} kcal over your limit`;
+  }
+  if (ranked.goalCoverage === null) {
+    return `${goalName} goal already met`;
+  }
+  return `Covers ${Math.round(ranked.goalCoverage * 100)}% of the ${goalName.toLowerCase()} you still need`;
+}
+
+export default function MenuSuggestions({ dishes, budget, fields, onSelect, onBack }: MenuSuggestionsProps) {
+  const goal = fields.find((f) => f.id === budget.goalField);
+  const goalName = goal?.name || budget.goalField.replace(/_/g, ' ');
+  const goalUnit = goal?.unit || 'g';
+
+  return (
+    <div className="menu-suggestions">
+      <p className="menu-budget">
+        Left today:{' '}
+        {budget.goalRemaining !== null && (
+          <strong>
+            {Math.round(budget.goalRemaining)} {goalUnit} {goalName.toLowerCase()}
+          </strong>
+        )}
+        {budget.goalRemaining !== null && budget.caloriesRemaining !== null && ' · '}
+        {budget.caloriesRemaining !== null && (
+          <strong>
+            {budget.caloriesRemaining >= 0
+              ? `${Math.round(budget.caloriesRemaining)} kcal`
+              : `${Math.round(-budget.caloriesRemaining)} kcal over`}
+          </strong>
+        )}
+        {budget.goalRemaining === null && budget.caloriesRemaining === null && 'no goals set'}
+      </p>
+
+      <ul className="menu-dishes">
+        {dishes.map((ranked, index) => (
+          <li key={`${ranked.dish.name}-${index}`} className={`menu-dish${ranked.caloriesOver > 0 ? ' over' : ''}`}>
+            <div className="menu-dish-header">
+              <span className="menu-dish-name">{ranked.dish.name}</span>
+              {index === 0 && ranked.caloriesOver === 0 && <span className="menu-dish-badge">Best fit</span>}
+              {ranked.dish.price && <span className="menu-dish-price">{ranked.dish.price}</span>}
+            </div>
+            {ranked.dish.description && <p className="menu-dish-description">{ranked.dish.description}</p>}
+            <p className="menu-dish-values">
+              {fields
+                .filter((field) => ranked.dish.fieldValues[field.id] !== undefined)
+                .map((field) => `${Math.round(ranked.dish.fieldValues[field.id])}${field.unit ? ` ${field.unit}` : ''} ${field.name.toLowerCase()}`)
+                .join(' · ')}
+            </p>
+            <div className="menu-dish-footer">
+              <span className="menu-dish-fit">{describeFit(ranked, goalName)}</span>
+              <button type="button" className="menu-dish-select" onClick={() => onSelect(ranked.dish)}>
+                Log This
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <button type="button" className="label-back-btn" onClick={onBack}>
+        Back
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * Outbox Entry Card Component
+ *
+ * Placeholder card for a meal logged offline that hasn't been saved yet.
+ * Shows the photo and description from the device, where logging it is at,
+ * and Retry / Discard for entries that keep failing.
+ */
+
+import { useEffect, useState } from 'react';
+import type { OutboxEntry } from '../types';
+import './OutboxEntryCard.css';
+
+interface OutboxEntryCardProps {
+  entry: OutboxEntry;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Describe where logging the entry is at
+ */
+function getStatusLabel(entry: OutboxEntry, online: boolean): string {
+  switch (entry.status) {
+    case 'waiting':
+      if (!online) return 'Waiting for connection';
+      if (entry.nextAttemptAt > Date.now()) {
+        return `Retrying at ${new Date(entry.nextAttemptAt).toLocaleTimeString('en-US', {
+          hour: 'numeric',
+          minute: '2-digit',
+        })}`;
+      }
+      return entry.entryId ? 'Saved - waiting to sync to Notion' : 'Waiting to upload';
+    case 'uploading':
+      return 'Uploading photos...';
+    case 'analyzing':
+      return 'Analyzing...';
+    case 'saving':
+      return 'Saving...';
+    case 'syncing':
+      return 'Syncing to Notion...';
+    case 'failed':
+      return 'Failed';
+  }
+}
+
+export default function OutboxEntryCard({ entry, onRetry, onDiscard }: OutboxEntryCardProps) {
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [online, setOnline] = useState(navigator.onLine);
+
+  // The photo is only on this device until it is uploaded
+  const thumbnail = entry.photos[0]?.thumbnail;
+  useEffect(() => {
+    if (!thumbnail) return;
+    const url = URL.createObjectURL(thumbnail);
+    setPhotoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [thumbnail]);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const handleDiscard = () => {
+    const message = entry.entryId
+      ? 'Stop syncing this entry to Notion? It is already saved in the app.'
+      : 'Discard this entry? It has not been saved yet.';
+    if (window.confirm(message)) onDiscard();
+  };
+
+  const busy = entry.status !== 'waiting' && entry.status !== 'failed';
+
+  return (
+    <div className={`outbox-card ${entry.status === 'failed' ? 'failed' : ''}`}>
+      {photoUrl && (
+        <div className="outbox-photo">
+          <img src={photoUrl} alt="Food" />
+        </div>
+      )}
+
+      <div className="outbox-content">
+        <p className="outbox-text">{entry.text || 'Photo'}</p>
+
+        <div className="outbox-status">
+          {busy && <span className="outbox-spinner" />}
+          <span>{getStatusLabel(entry, online)}</span>
+        </div>
+        {entry.lastError && <p className="outbox-error">{entry.lastError}</p>}
+
+        <div className="outbox-footer">
+          <span className="outbox-timestamp">
+            {new Date(entry.timestamp).toLocaleString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              hour: 'numeric',
+              minute: '2-digit',
+            })}
+          </span>
+          {!busy && (
+            <div className="outbox-actions">
+              {online && (
+                <button onClick={onRetry} className="outbox-btn">
+                  Retry
+                </button>
+              )}
+              <button onClick={handleDiscard} className="outbox-btn">
+                Discard
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * Photo Carousel Component
+ *
+ * Shows one or more photos in a horizontally swipeable strip.
+ * With several photos, previous/next buttons and position dots are shown.
+ * Clicks on the controls don't reach the parent (e.g., an expandable card).
+ */
+
+import { useRef, useState } from 'react';
+import './PhotoCarousel.css';
+
+interface PhotoCarouselProps {
+  photos: string[]; // image URLs in display order
+  alt: string;
+  className?: string; // sizing from the parent (e.g., 'entry-photo')
+}
+
+export default function PhotoCarousel({ photos, alt, className = '' }: PhotoCarouselProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  if (photos.length === 0) return null;
+
+  const scrollTo = (index: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+    track.scrollTo({ left: index * track.clientWidth, behavior: 'smooth' });
+  };
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track || track.clientWidth === 0) return;
+    setActiveIndex(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  const handleStep = (e: React.MouseEvent, step: number) => {
+    e.stopPropagation();
+    scrollTo(Math.min(photos.length - 1, Math.max(0, activeIndex + step)));
+  };
+
+  return (
+    <div className={`photo-carousel ${className}`}>
+      <div className="photo-carousel-track" ref={trackRef} onScroll={handleScroll}>
+        {photos.map((url, index) => (
+          <img
+            key={`${index}-${url}`}
+            src={url}
+            alt={photos.length > 1 ? `${alt} (${index + 1} of ${photos.length})` : alt}
+            loading="lazy"
+          />
+        ))}
+      </div>
+
+      {photos.length > 1 && (
+        <>
+          <button
+            type="button"
+            className="photo-carousel-nav prev"
+            onClick={(e) => handleStep(e, -1)}
+            disabled={activeIndex === 0}
+            aria-label="Previous photo"
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            className="photo-carousel-nav next"
+            onClick={(e) => handleStep(e, 1)}
+            disabled={activeIndex === photos.length - 1}
+            aria-label="Next photo"
+          >
+            ›
+          </button>
+          <div className="photo-carousel-dots">
+            {photos.map((url, index) => (
+              <button
+                key={`${index}-${url}`}
+                type="button"
+                className={`photo-carousel-dot${index === activeIndex ? ' active' : ''}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  scrollTo(index);
+                }}
+                aria-label={`Show photo ${index + 1}`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
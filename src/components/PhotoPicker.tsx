@@ -0,0 +1,63 @@
+/**
+ * Photo Picker Component
+ *
+ * Camera / photo library button with previews of the photos picked so far
+ * (several angles, or a plate and a drink). Previews can be removed one by one.
+ */
+
+import { useRef } from 'react';
+import './PhotoPicker.css';
+
+interface PhotoPickerProps {
+  previews: string[]; // object URLs, in the order added
+  maxPhotos: number;
+  addLabel: string; // button text while no photo is picked
+  onAdd: (files: File[]) => void;
+  onRemove: (index: number) => void;
+}
+
+export default function PhotoPicker({ previews, maxPhotos, addLabel, onAdd, onRemove }: PhotoPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (inputRef.current) inputRef.current.value = ''; // so the same file can be picked again
+    onAdd(files);
+  };
+
+  return (
+    <div className="simple-upload-area">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        onChange={handleSelect}
+        style={{ display: 'none' }}
+      />
+      {previews.length > 0 && (
+        <div className={`photo-previews${previews.length > 1 ? ' multiple' : ''}`}>
+          {previews.map((preview, index) => (
+            <div key={preview} className="photo-preview">
+              <img src={preview} alt={`Photo ${index + 1}`} />
+              <button
+                type="button"
+                onClick={() => onRemove(index)}
+                className="remove-photo-btn"
+                aria-label={`Remove photo ${index + 1}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {previews.length < maxPhotos && (
+        <button type="button" onClick={() => inputRef.current?.click()} className="simple-upload-btn">
+          {previews.length > 0 ? 'Add Another Photo' : addLabel}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,23 @@
  * Review Entry Modal
  *
  * Displays AI-generated entry data for user review and editing before saving.
- * Shows title, extracted fields (macros), summary, and photo preview.
+ * Shows title, food items, the active schema's numeric fields, summary, and photo preview.
+ * When the meal is itemized, the field totals are computed from the items.
+ * Low-confidence AI estimates are highlighted with their plausible range.
  */
 
 import React, { useState } from 'react';
+import type { FieldEstimate, FoodItem } from '../types';
+import { useUserData } from '../hooks/useUserData';
+import {
+  createEmptyItem,
+  getItemFieldIds,
+  getNumericFields,
+  sumItemEstimates,
+  sumItemFields,
+} from '../utils/foodItems';
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '../utils/entryTime';
+import PhotoCarousel from './PhotoCarousel';
 import './ReviewEntryModal.css';
 
 interface ReviewEntryModalProps {
@@ -13,51 +26,150 @@ interface ReviewEntryModalProps {
   title: string;
   summary: string;
   extractedFields: Record<string, any>;
-  photoPreview?: string;
+  fieldEstimates?: Record<string, FieldEstimate>;
+  items?: FoodItem[];
+  photoPreviews?: string[]; // photo URLs in the order added
+  timestamp?: number; // when it was eaten - shows a date/time picker when set
   onSave: (updatedData: {
     title: string;
     summary: string;
     extractedFields: Record<string, any>;
+    fieldEstimates: Record<string, FieldEstimate>;
+    items: FoodItem[];
+    timestamp?: number;
   }) => void;
   onCancel: () => void;
+  onReanalyze?: () => void; // request a fresh AI analysis instead of the cached one
+  reanalyzing?: boolean;
   loading?: boolean;
 }
 
+/**
+ * Render the plausible range under an AI-estimated value
+ */
+function renderEstimate(estimate: FieldEstimate | undefined, unit: string) {
+  if (!estimate) return null;
+
+  return (
+    <span className={`field-estimate confidence-${estimate.confidence}`}>
+      {estimate.low}–{estimate.high}{unit && ` ${unit}`} · {estimate.confidence}
+    </span>
+  );
+}
+
+/**
+ * Remove a single field's estimate (once the user has entered the value themselves)
+ */
+function withoutEstimate(
+  estimates: Record<string, FieldEstimate> | undefined,
+  fieldId: string
+): Record<string, FieldEstimate> {
+  const remaining = { ...estimates };
+  delete remaining[fieldId];
+  return remaining;
+}
+
 const ReviewEntryModal: React.FC<ReviewEntryModalProps> = ({
   isOpen,
   title: initialTitle,
   summary: initialSummary,
   extractedFields: initialFields,
-  photoPreview,
+  fieldEstimates: initialEstimates = {},
+  items: initialItems = [],
+  photoPreviews = [],
+  timestamp: initialTimestamp,
   onSave,
   onCancel,
+  onReanalyze,
+  reanalyzing = false,
   loading = false,
 }) => {
   const [title, setTitle] = useState(initialTitle);
   const [summary, setSummary] = useState(initialSummary);
   const [extractedFields, setExtractedFields] = useState(initialFields);
+  const [fieldEstimates, setFieldEstimates] = useState(initialEstimates);
+  const [items, setItems] = useState<FoodItem[]>(initialItems);
+  const [timestamp, setTimestamp] = useState(initialTimestamp);
+  const { schema } = useUserData();
 
   if (!isOpen) return null;
 
+  // The active schema's numeric fields the AI filled in, in schema order - tracked per item and totaled
+  const numericFields = getNumericFields(schema?.fields);
+  const fieldsById = new Map(numericFields.map((field) => [field.id, field]));
+  const itemFieldIds = numericFields
+    .map((field) => field.id)
+    .filter((fieldId) => getItemFieldIds(initialItems).includes(fieldId) || extractedFields[fieldId] != null);
+
+  // Totals are derived from items whenever the meal is itemized
+  const hasItems = items.length > 0;
+  const fieldValues = hasItems
+    ? { ...extractedFields, ...sumItemFields(items, itemFieldIds) }
+    : extractedFields;
+  const totalEstimates = hasItems ? sumItemEstimates(items, itemFieldIds) : fieldEstimates;
+
   const handleFieldChange = (fieldId: string, value: any) => {
     setExtractedFields((prev) => ({
       ...prev,
       [fieldId]: value,
     }));
+    setFieldEstimates((prev) => withoutEstimate(prev, fieldId));
+  };
+
+  const handleItemChange = (index: number, updates: Partial<FoodItem>) => {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...updates } : item)));
+  };
+
+  const handleItemFieldChange = (index: number, fieldId: string, value: number) => {
+    setItems((prev) =>
+      prev.map((item, i) =>
+        i === index
+          ? {
+              ...item,
+              fieldValues: { ...item.fieldValues, [fieldId]: value },
+              fieldEstimates: withoutEstimate(item.fieldEstimates, fieldId),
+            }
+          : item
+      )
+    );
+  };
+
+  const handleAddItem = () => {
+    setItems((prev) => [...prev, createEmptyItem(itemFieldIds)]);
+  };
+
+  const handleRemoveItem = (index: number) => {
+    const remaining = items.filter((_, i) => i !== index);
+    // Keep the last computed totals editable once every item is removed
+    if (remaining.length === 0) {
+      setExtractedFields((prev) => ({ ...prev, ...sumItemFields(items, itemFieldIds) }));
+      setFieldEstimates(sumItemEstimates(items, itemFieldIds));
+    }
+    setItems(remaining);
   };
 
   const handleSave = () => {
     onSave({
       title,
       summary,
-      extractedFields,
+      extractedFields: fieldValues,
+      fieldEstimates: totalEstimates,
+      items: items.map((item) => ({ ...item, name: item.name.trim(), portion: item.portion.trim() })),
+      timestamp,
     });
   };
 
-  // Determine which fields to display - only show macro fields
-  const MACRO_FIELDS = ['protein', 'carbs', 'fat', 'calories', 'net_carbs'];
-  const displayFields = Object.entries(extractedFields).filter(
-    ([key]) => MACRO_FIELDS.includes(key) && extractedFields[key] != null
+  // Every item needs a name before the entry can be saved
+  const hasUnnamedItem = items.some((item) => !item.name.trim());
+
+  // Totals for the same fields the items track
+  const displayFields = itemFieldIds
+    .filter((fieldId) => fieldValues[fieldId] != null)
+    .map((fieldId) => [fieldId, fieldValues[fieldId]] as const);
+
+  // Point users at the values worth double-checking
+  const hasLowConfidence = [totalEstimates, ...items.map((item) => item.fieldEstimates || {})].some(
+    (estimates) => Object.values(estimates).some((estimate) => estimate.confidence === 'low')
   );
 
   return (
@@ -72,11 +184,7 @@ const ReviewEntryModal: React.FC<ReviewEntryModalProps> = ({
 
         <div className="review-content">
           {/* Photo Preview */}
-          {photoPreview && (
-            <div className="review-photo">
-              <img src={photoPreview} alt="Entry preview" />
-            </div>
-          )}
+          <PhotoCarousel photos={photoPreviews} alt="Entry preview" className="review-photo" />
 
           {/* Title Input */}
           <div className="review-field">
@@ -91,27 +199,43 @@ const ReviewEntryModal: React.FC<ReviewEntryModalProps> = ({
             />
           </div>
 
-          {/* Extracted Macro Fields */}
+          {/* Date and time eaten */}
+          {timestamp !== undefined && (
+            <div className="review-field">
+              <label htmlFor="entry-time">When</label>
+              <input
+                id="entry-time"
+                type="datetime-local"
+                value={toDateTimeLocalValue(timestamp)}
+                max={toDateTimeLocalValue(Date.now())}
+                onChange={(e) => setTimestamp(fromDateTimeLocalValue(e.target.value) ?? timestamp)}
+                disabled={loading}
+              />
+            </div>
+          )}
+
+          {/* Extracted Macro Fields (read-only totals when itemized) */}
           {displayFields.length > 0 && (
             <div className="review-macros">
+              {hasItems && <p className="review-section-label">Totals</p>}
+              {hasLowConfidence && (
+                <p className="review-confidence-note">
+                  Highlighted values are low-confidence guesses - worth a quick check.
+                </p>
+              )}
               <div className="macros-grid">
                 {displayFields.map(([fieldId, value]) => {
-                  // Format field name for display
-                  const fieldName = fieldId
-                    .replace(/_/g, ' ')
-                    .replace(/\b\w/g, (char) => char.toUpperCase());
-
-                  // Determine unit
-                  let unit = '';
-                  if (fieldId === 'calories') unit = 'kcal';
-                  else if (fieldId.includes('carb') || fieldId.includes('protein') || fieldId.includes('fat')) {
-                    unit = 'g';
-                  }
+                  const field = fieldsById.get(fieldId);
+                  const unit = field?.unit || '';
+                  const estimate = totalEstimates[fieldId];
 
                   return (
-                    <div key={fieldId} className="macro-field">
+                    <div
+                      key={fieldId}
+                      className={`macro-field${estimate?.confidence === 'low' ? ' low-confidence' : ''}`}
+                    >
                       <label htmlFor={`field-${fieldId}`}>
-                        {fieldName}
+                        {field?.name || fieldId}
                         {unit && <span className="unit"> ({unit})</span>}
                       </label>
                       <input
@@ -125,9 +249,10 @@ const ReviewEntryModal: React.FC<ReviewEntryModalProps> = ({
                           )
                         }
                         placeholder="0"
-                        disabled={loading}
+                        disabled={loading || hasItems}
                         step="0.1"
                       />
+                      {renderEstimate(estimate, unit)}
                     </div>
                   );
                 })}
@@ -135,6 +260,89 @@ const ReviewEntryModal: React.FC<ReviewEntryModalProps> = ({
             </div>
           )}
 
+          {/* Itemized Breakdown */}
+          {(hasItems || itemFieldIds.length > 0) && (
+            <div className="review-items">
+              <p className="review-section-label">Items</p>
+              {items.map((item, index) => (
+                <div key={index} className="review-item">
+                  <div className="review-item-header">
+                    <input
+                      type="text"
+                      className="review-item-name"
+                      value={item.name}
+                      onChange={(e) => handleItemChange(index, { name: e.target.value })}
+                      placeholder="Food item"
+                      aria-label={`Item ${index + 1} name`}
+                      disabled={loading}
+                    />
+                    <input
+                      type="text"
+                      className="review-item-portion"
+                      value={item.portion}
+                      onChange={(e) => handleItemChange(index, { portion: e.target.value })}
+                      placeholder="Portion"
+                      aria-label={`Item ${index + 1} portion`}
+                      disabled={loading}
+                    />
+                    <button
+                      type="button"
+                      className="review-item-remove"
+                      onClick={() => handleRemoveItem(index)}
+                      title="Remove item"
+                      disabled={loading}
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <div className="macros-grid">
+                    {itemFieldIds.map((fieldId) => {
+                      const field = fieldsById.get(fieldId);
+                      const unit = field?.unit || '';
+                      const estimate = item.fieldEstimates?.[fieldId];
+
+                      return (
+                        <div
+                          key={fieldId}
+                          className={`macro-field${estimate?.confidence === 'low' ? ' low-confidence' : ''}`}
+                        >
+                          <label htmlFor={`item-${index}-${fieldId}`}>
+                            {field?.name || fieldId}
+                            {unit && <span className="unit"> ({unit})</span>}
+                          </label>
+                          <input
+                            id={`item-${index}-${fieldId}`}
+                            type="number"
+                            value={item.fieldValues[fieldId] ?? ''}
+                            onChange={(e) =>
+                              handleItemFieldChange(
+                                index,
+                                fieldId,
+                                e.target.value === '' ? 0 : parseFloat(e.target.value)
+                              )
+                            }
+                            placeholder="0"
+                            disabled={loading}
+                            step="0.1"
+                          />
+                          {renderEstimate(estimate, unit)}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                className="review-add-item"
+                onClick={handleAddItem}
+                disabled={loading}
+              >
+                + Add Item
+              </button>
+            </div>
+          )}
+
           {/* Summary Textarea */}
           <div className="review-field">
             <label htmlFor="entry-summary">Summary</label>
@@ -157,10 +365,20 @@ const ReviewEntryModal: React.FC<ReviewEntryModalProps> = ({
           >
             Cancel
           </button>
+          {onReanalyze && (
+            <button
+              className="btn-secondary"
+              onClick={onReanalyze}
+              disabled={loading || reanalyzing}
+              title="Ignore the cached result and analyze again"
+            >
+              {reanalyzing ? 'Analyzing...' : 'Re-analyze'}
+            </button>
+          )}
           <button
             className="btn-primary"
             onClick={handleSave}
-            disabled={loading || !title.trim()}
+            disabled={loading || reanalyzing || !title.trim() || hasUnnamedItem}
           >
             {loading ? 'Saving...' : 'Save Entry'}
           </button>
@@ -0,0 +1,190 @@
+/**
+ * Servings Picker Component
+ *
+ * Shows per-serving values (from a nutrition label, the product database, My Foods,
+ * or a recipe) and asks how many servings were eaten. The scaled values go to the
+ * review modal, or are logged directly for My Foods and recipes (their values were
+ * reviewed when they were saved).
+ */
+
+import { useState } from 'react';
+import type { ReviewData } from '../hooks/useEntryWriter';
+import { scaleFieldValues } from '../utils/foodItems';
+import type { EntryPhoto, EntrySource, FieldConfig, FoodItem } from '../types';
+import './ServingsPicker.css';
+
+/**
+ * Per-serving values waiting for the servings eaten
+ */
+export interface ServingSelection {
+  productName: string;
+  servingSize: string;
+  servingsPerContainer: number | null;
+  perServing: Record<string, number>;
+  photos: EntryPhoto[];
+  source: EntrySource;
+  barcode?: string;
+  savedFoodId?: string;
+  recipeId?: string;
+  otherFields?: Record<string, unknown>; // non-numeric values copied as-is (e.g., meal type)
+  items?: FoodItem[]; // per-serving item breakdown, scaled with the totals
+  promptVersion?: string; // prompt that read the label, if the values came from the AI
+}
+
+interface ServingsPickerProps {
+  selection: ServingSelection;
+  fields: FieldConfig[]; // schema fields, for names and units
+  onReview: (review: ReviewData) => void;
+  onQuickLog: (review: ReviewData) => void;
+  onBack: () => void;
+  error?: string; // e.g., a failed quick log
+  saving?: boolean;
+}
+
+const SOURCE_DESCRIPTIONS: Partial<Record<EntrySource, string>> = {
+  label: 'nutrition label',
+  barcode: 'product database',
+  library: 'My Foods',
+  recipe: 'recipe',
+};
+
+/**
+ * Scale a serving selection by the servings eaten into reviewable entry data
+ */
+function buildServingReview(selection: ServingSelection, servingsEaten: number): ReviewData {
+  const fieldValues = scaleFieldValues(selection.perServing, servingsEaten);
+  const items = selection.items?.length
+    ? selection.items.map((item) => ({
+        ...item,
+        portion: servingsEaten === 1 ? item.portion : `${servingsEaten} × ${item.portion}`,
+        fieldValues: scaleFieldValues(item.fieldValues, servingsEaten),
+      }))
+    : [{ name: selection.productName, portion: `${servingsEaten} × ${selection.servingSize}`, fieldValues }];
+
+  const review: ReviewData = {
+    title: selection.productName,
+    summary: `From ${SOURCE_DESCRIPTIONS[selection.source]}: ${servingsEaten} × ${selection.servingSize}.`,
+    extractedFields: { ...selection.otherFields, ...fieldValues },
+    fieldEstimates: {},
+    items,
+    photos: selection.photos,
+    source: selection.source,
+    barcode: selection.barcode,
+    savedFoodId: selection.savedFoodId,
+    recipeId: selection.recipeId,
+    promptVersion: selection.promptVersion,
+  };
+
+  if (selection.source === 'label' || selection.source === 'barcode') {
+    review.nutritionLabel = {
+      servingSize: selection.servingSize,
+      servingsPerContainer: selection.servingsPerContainer,
+      servings: servingsEaten,
+      perServing: selection.perServing,
+    };
+  }
+
+  return review;
+}
+
+export default function ServingsPicker({
+  selection,
+  fields,
+  onReview,
+  onQuickLog,
+  onBack,
+  error,
+  saving,
+}: ServingsPickerProps) {
+  const [servings, setServings] = useState('1');
+  const [inputError, setInputError] = useState('');
+
+  /**
+   * Scale the values by the servings input
+   * @returns Entry data, or null (with an error shown) if the input is invalid
+   */
+  const getReview = (): ReviewData | null => {
+    const servingsEaten = parseFloat(servings);
+    if (!(servingsEaten > 0)) {
+      setInputError('Please enter how many servings you ate');
+      return null;
+    }
+    setInputError('');
+    return buildServingReview(selection, servingsEaten);
+  };
+
+  const handleReview = () => {
+    const review = getReview();
+    if (review) onReview(review);
+  };
+
+  const handleQuickLog = () => {
+    const review = getReview();
+    if (review) onQuickLog(review);
+  };
+
+  const shownError = inputError || error;
+
+  return (
+    <div className="entry-form">
+      <div className="label-result">
+        <p className="label-product">{selection.productName}</p>
+        <p className="label-serving">
+          {selection.source === 'library' ? 'Portion' : 'Per serving'}: {selection.servingSize}
+          {selection.servingsPerContainer != null &&
+            (selection.source === 'recipe'
+              ? ` · recipe makes ${selection.servingsPerContainer} servings`
+              : ` · ${selection.servingsPerContainer} servings per container`)}
+        </p>
+        <ul className="label-values">
+          {Object.entries(selection.perServing).map(([fieldId, value]) => {
+            const field = fields.find((f) => f.id === fieldId);
+            return (
+              <li key={fieldId}>
+                <span>{field?.name || fieldId.replace(/_/g, ' ')}</span>
+                <span>
+                  {value}
+                  {field?.unit && ` ${field.unit}`}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="servings-input">
+        <label htmlFor="servings-eaten">Servings eaten</label>
+        <input
+          id="servings-eaten"
+          type="number"
+          min="0"
+          step="0.25"
+          value={servings}
+          onChange={(e) => setServings(e.target.value)}
+        />
+      </div>
+
+      {shownError && <p className="error">{shownError}</p>}
+
+      <div className="label-actions">
+        <button type="button" className="label-back-btn" onClick={onBack} disabled={saving}>
+          Back
+        </button>
+        {selection.source === 'library' || selection.source === 'recipe' ? (
+          <>
+            <button type="button" className="label-back-btn" onClick={handleReview} disabled={saving}>
+              Review
+            </button>
+            <button type="button" className="submit-btn" onClick={handleQuickLog} disabled={saving}>
+              {saving ? 'Logging...' : 'Log'}
+            </button>
+          </>
+        ) : (
+          <button type="button" className="submit-btn" onClick={handleReview}>
+            Continue
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Voice Note Input Component
+ *
+ * Records a voice note and hands its transcript to the description.
+ * The latest recording can be played back and kept with the entry.
+ */
+
+import type { VoiceNote } from '../hooks/useVoiceNote';
+import './VoiceNoteInput.css';
+
+interface VoiceNoteInputProps {
+  voiceNote: VoiceNote;
+  onTranscript: (transcript: string) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Format a recording length as m:ss
+ */
+function formatDuration(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function VoiceNoteInput({ voiceNote, onTranscript, onError, disabled }: VoiceNoteInputProps) {
+  const { recording, transcribing } = voiceNote;
+
+  const handleClick = async () => {
+    if (!recording) onError('');
+    try {
+      const transcript = await voiceNote.toggle();
+      if (transcript !== null) onTranscript(transcript);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to transcribe voice note');
+    }
+  };
+
+  return (
+    <div className="voice-note">
+      <button
+        type="button"
+        onClick={handleClick}
+        className={`voice-note-btn${recording ? ' recording' : ''}`}
+        disabled={disabled || transcribing}
+      >
+        {recording && `Stop Recording (${formatDuration(voiceNote.elapsedSeconds)})`}
+        {!recording && transcribing && 'Transcribing...'}
+        {!recording && !transcribing && (voiceNote.hasRecording ? 'Record Another Voice Note' : 'Record Voice Note')}
+      </button>
+      {voiceNote.preview && !recording && (
+        <>
+          <audio controls src={voiceNote.preview} className="voice-note-audio" />
+          <label className="voice-note-keep">
+            <input
+              type="checkbox"
+              checked={voiceNote.keep}
+              onChange={(e) => voiceNote.setKeep(e.target.checked)}
+              disabled={disabled}
+            />
+            Keep the latest voice note with the entry
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ export const TEMPLATE_IDS = {
   MACRO_TRACKING: 'macro-tracking',
   SIMPLE_LOGGING: 'simple-logging',
   KETO_TRACKING: 'keto-tracking',
+  MICRONUTRIENT_TRACKING: 'micronutrient-tracking',
 } as const;
 
 /**
@@ -234,6 +235,226 @@ const ketoTrackingFields: FieldConfig[] = [
   },
 ];
 
+/**
+ * Micronutrient Tracking Template
+ * Tracks: Macros plus fiber, sugar, sodium, saturated fat, cholesterol, potassium, and key minerals and vitamins
+ */
+const micronutrientTrackingFields: FieldConfig[] = [
+  {
+    id: 'name',
+    name: 'Name',
+    type: 'title',
+    required: true,
+    showInForm: false,
+    notionPropertyType: 'title',
+    extractFromAI: true,
+    aiPromptHint: 'A short, descriptive name for this meal (2-5 words)',
+  },
+  {
+    id: 'date',
+    name: 'Date',
+    type: 'date',
+    required: true,
+    showInForm: false,
+    notionPropertyType: 'date',
+    defaultValue: Date.now(),
+  },
+  {
+    id: 'calories',
+    name: 'Calories',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'kcal',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated total calories',
+  },
+  {
+    id: 'protein',
+    name: 'Protein',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'g',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated grams of protein',
+  },
+  {
+    id: 'carbs',
+    name: 'Carbs',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'g',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated grams of total carbohydrates, including fiber and sugar',
+  },
+  {
+    id: 'fat',
+    name: 'Fat',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'g',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated grams of total fat, including saturated fat',
+  },
+  {
+    id: 'fiber',
+    name: 'Fiber',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'g',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated grams of dietary fiber',
+  },
+  {
+    id: 'sugar',
+    name: 'Sugar',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'g',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated grams of total sugars (natural and added)',
+  },
+  {
+    id: 'saturated_fat',
+    name: 'Saturated Fat',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'g',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated grams of saturated fat',
+  },
+  {
+    id: 'sodium',
+    name: 'Sodium',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'mg',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated milligrams of sodium (not salt - 1 g of salt is about 400 mg of sodium), including salt added in cooking',
+  },
+  {
+    id: 'cholesterol',
+    name: 'Cholesterol',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'mg',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated milligrams of cholesterol',
+  },
+  {
+    id: 'potassium',
+    name: 'Potassium',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'mg',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated milligrams of potassium',
+  },
+  {
+    id: 'calcium',
+    name: 'Calcium',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'mg',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated milligrams of calcium',
+  },
+  {
+    id: 'iron',
+    name: 'Iron',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'mg',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated milligrams of iron',
+  },
+  {
+    id: 'vitamin_a',
+    name: 'Vitamin A',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'µg',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated micrograms of vitamin A as retinol activity equivalents (RAE)',
+  },
+  {
+    id: 'vitamin_c',
+    name: 'Vitamin C',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'mg',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated milligrams of vitamin C',
+  },
+  {
+    id: 'vitamin_d',
+    name: 'Vitamin D',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'µg',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated micrograms of vitamin D (1 µg = 40 IU)',
+  },
+  {
+    id: 'vitamin_b12',
+    name: 'Vitamin B12',
+    type: 'number',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'number',
+    unit: 'µg',
+    extractFromAI: true,
+    aiPromptHint: 'Estimated micrograms of vitamin B12',
+  },
+  {
+    id: 'summary',
+    name: 'Summary',
+    type: 'text',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'rich_text',
+    extractFromAI: true,
+    aiPromptHint: 'A brief nutritional summary of the meal, noting anything high in sodium, sugar, or saturated fat',
+  },
+  {
+    id: 'photo',
+    name: 'Photo',
+    type: 'url',
+    required: false,
+    showInForm: false,
+    notionPropertyType: 'url',
+  },
+];
+
 /**
  * Template metadata for UI display
  */
@@ -270,6 +491,13 @@ export const SCHEMA_TEMPLATES: SchemaTemplate[] = [
     fields: ketoTrackingFields,
     icon: '🥑',
   },
+  {
+    id: TEMPLATE_IDS.MICRONUTRIENT_TRACKING,
+    name: 'Micronutrient Tracking',
+    description: 'Track macros plus fiber, sugar, sodium, cholesterol, and key vitamins and minerals',
+    fields: micronutrientTrackingFields,
+    icon: '🥦',
+  },
 ];
 
 /**
@@ -0,0 +1,122 @@
+/**
+ * User Data Provider
+ *
+ * App-level store of the signed-in user's settings, schemas, and recent entries.
+ * UserDataProvider keeps one set of Firestore snapshot listeners for the whole app,
+ * so a change made on another device shows up on every open page. What the listeners
+ * receive is also stored in the read cache, so firestore.ts getters return it without a read.
+ * Components read the store with useUserData (see useUserData.ts).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import {
+  subscribeToUserSettings,
+  subscribeToUserSchemas,
+  subscribeToUserEntriesSince,
+} from '../services/firestore';
+import { clearCache, setCachedValue } from '../services/dataCache';
+import { DASHBOARD_HISTORY_DAYS, getHistoryStart } from '../utils/dashboardData';
+import { UserDataContext } from './useUserData';
+import type { DatabaseSchema, FoodEntry, UserSettings } from '../types';
+
+export function UserDataProvider({ userId, children }: { userId: string | null; children: ReactNode }) {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [schemas, setSchemas] = useState<DatabaseSchema[]>([]);
+  const [schemasLoaded, setSchemasLoaded] = useState(false);
+  const [recentEntries, setRecentEntries] = useState<FoodEntry[]>([]);
+  const [entriesLoaded, setEntriesLoaded] = useState(false);
+  const [historyStart, setHistoryStart] = useState(() => getHistoryStart(DASHBOARD_HISTORY_DAYS));
+
+  // Settings (a new user starts over with an empty cache)
+  useEffect(() => {
+    clearCache();
+    setSettings(null);
+    setSettingsLoaded(false);
+    if (!userId) return;
+
+    return subscribeToUserSettings(
+      userId,
+      (nextSettings) => {
+        setCachedValue(`settings/${userId}`, nextSettings);
+        setSettings(nextSettings);
+        setSettingsLoaded(true);
+      },
+      (error) => {
+        console.error('Settings listener failed:', error);
+        setSettingsLoaded(true);
+      }
+    );
+  }, [userId]);
+
+  // Schemas (entries keep the ID of the schema they were logged with)
+  useEffect(() => {
+    setSchemas([]);
+    setSchemasLoaded(false);
+    if (!userId) return;
+
+    return subscribeToUserSchemas(
+      userId,
+      (nextSchemas) => {
+        setCachedValue(`schemas/${userId}`, nextSchemas);
+        nextSchemas.forEach((nextSchema) => setCachedValue(`schema/${nextSchema.id}`, nextSchema));
+        setSchemas(nextSchemas);
+        setSchemasLoaded(true);
+      },
+      (error) => {
+        console.error('Schemas listener failed:', error);
+        setSchemasLoaded(true);
+      }
+    );
+  }, [userId]);
+
+  // Active schema: the one in settings, or the most recently updated if none is set (as getActiveSchema)
+  const activeSchemaId = settings?.activeSchemaId;
+  const schema = useMemo(
+    () => (activeSchemaId ? schemas.find((s) => s.id === activeSchemaId) || null : schemas[0] || null),
+    [schemas, activeSchemaId]
+  );
+
+  // The dashboard's days move forward at midnight
+  useEffect(() => {
+    const midnight = new Date();
+    midnight.setHours(24, 0, 0, 0);
+    const timer = setTimeout(
+      () => setHistoryStart(getHistoryStart(DASHBOARD_HISTORY_DAYS)),
+      midnight.getTime() - Date.now()
+    );
+    return () => clearTimeout(timer);
+  }, [historyStart]);
+
+  // Entries of the days the dashboard shows (kept while the listener moves to a new day)
+  useEffect(() => {
+    setRecentEntries([]);
+    setEntriesLoaded(false);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeToUserEntriesSince(
+      userId,
+      historyStart,
+      (entries) => {
+        setRecentEntries(entries);
+        setEntriesLoaded(true);
+      },
+      (error) => {
+        console.error('Entries listener failed:', error);
+        setEntriesLoaded(true);
+      }
+    );
+  }, [userId, historyStart]);
+
+  const loading = !!userId && !(settingsLoaded && schemasLoaded && entriesLoaded);
+
+  return (
+    <UserDataContext.Provider value={{ settings, schema, schemas, recentEntries, historyStart, loading }}>
+      {children}
+    </UserDataContext.Provider>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * useEntryFeed Hook
+ *
+ * Custom React hook for the entry feed, newest first.
+ * The first page is live (new, edited, or deleted entries show up at once); loadMore()
+ * reads each older page once with a cursor, so scrolling never re-reads loaded entries.
+ * Entries pushed off the live page by newer ones are kept with the older pages.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  subscribeToUserEntries,
+  getUserEntriesPage,
+  ENTRY_PAGE_SIZE,
+  type EntryCursor,
+  type EntryPage,
+} from '../services/firestore';
+import type { FoodEntry } from '../types';
+
+export function useEntryFeed(userId: string | null, pageSize: number = ENTRY_PAGE_SIZE) {
+  const [firstPage, setFirstPage] = useState<EntryPage>({ entries: [], cursor: null });
+  const [olderEntries, setOlderEntries] = useState<FoodEntry[]>([]);
+  const [olderCursor, setOlderCursor] = useState<EntryCursor | null>(null);
+  const [olderLoaded, setOlderLoaded] = useState(false); // whether any older page was read
+  const [loading, setLoading] = useState(true); // until the first snapshot
+  const [loadingMore, setLoadingMore] = useState(false);
+  const olderLoadedRef = useRef(false);
+  const generationRef = useRef(0); // drops pages that arrive after the user changed
+
+  // Live first page (starting over for a new user)
+  useEffect(() => {
+    generationRef.current++;
+    olderLoadedRef.current = false;
+    setFirstPage({ entries: [], cursor: null });
+    setOlderEntries([]);
+    setOlderCursor(null);
+    setOlderLoaded(false);
+    setLoadingMore(false);
+    setLoading(!!userId);
+    if (!userId) return;
+
+    let previous: FoodEntry[] = [];
+    return subscribeToUserEntries(
+      userId,
+      pageSize,
+      (page) => {
+        // A full page that lost entries older than its last one had them pushed off by new entries
+        if (olderLoadedRef.current && page.cursor) {
+          const ids = new Set(page.entries.map((entry) => entry.id));
+          const oldest = page.entries[page.entries.length - 1].timestamp;
+          const pushedOff = previous.filter((entry) => !ids.has(entry.id) && entry.timestamp <= oldest);
+          if (pushedOff.length > 0) {
+            setOlderEntries((older) => [...pushedOff, ...older.filter((entry) => !pushedOff.some((p) => p.id === entry.id))]);
+          }
+        }
+        previous = page.entries;
+        setFirstPage(page);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Entry feed listener failed:', error);
+        setLoading(false);
+      }
+    );
+  }, [userId, pageSize]);
+
+  const nextCursor = olderLoaded ? olderCursor : firstPage.cursor;
+  const hasMore = nextCursor !== null;
+
+  // Entries of the live page win over their older copies (e.g., one pulled back in after a delete)
+  const liveIds = new Set(firstPage.entries.map((entry) => entry.id));
+  const entries = [...firstPage.entries, ...olderEntries.filter((entry) => !liveIds.has(entry.id))];
+
+  /**
+   * Load the next page of older entries
+   */
+  const loadMore = useCallback(async () => {
+    if (!userId || !nextCursor || loadingMore) return;
+
+    const generation = generationRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await getUserEntriesPage(userId, nextCursor, pageSize);
+      if (generation !== generationRef.current) return;
+
+      olderLoadedRef.current = true;
+      setOlderEntries((older) => [...older, ...page.entries.filter((entry) => !older.some((o) => o.id === entry.id))]);
+      setOlderCursor(page.cursor);
+      setOlderLoaded(true);
+    } catch (error) {
+      console.error('Error loading more entries:', error);
+    } finally {
+      if (generation === generationRef.current) setLoadingMore(false);
+    }
+  }, [userId, nextCursor, loadingMore, pageSize]);
+
+  /**
+   * Drop an entry deleted from an older page (older pages aren't live)
+   */
+  const removeEntry = (entryId: string) => {
+    setOlderEntries((older) => older.filter((entry) => entry.id !== entryId));
+  };
+
+  return { entries, hasMore, loading, loadingMore, loadMore, removeEntry };
+}
@@ -0,0 +1,91 @@
+/**
+ * useEntryPhotos Hook
+ *
+ * Custom React hook for the photos of a new entry and when it was eaten.
+ * The earliest capture time of the photos is the default entry time, unless
+ * one was picked by hand.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { preparePhoto, type PreparedPhoto } from '../utils/photos';
+
+export const MAX_PHOTOS = 4; // per entry (the analyzeFood limit)
+
+/**
+ * A photo and the object URL its preview is shown from
+ */
+interface PickedPhoto {
+  photo: PreparedPhoto;
+  preview: string;
+}
+
+/**
+ * Earliest EXIF capture time among photos, ignoring times in the future
+ */
+function getEarliestCaptureTime(photos: PreparedPhoto[]): number | null {
+  const times = photos
+    .map((photo) => photo.capturedAt)
+    .filter((capturedAt): capturedAt is number => capturedAt !== null && capturedAt <= Date.now());
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+export function useEntryPhotos() {
+  const [picked, setPicked] = useState<PickedPhoto[]>([]); // in the order added; location metadata already stripped
+  const [pickedTime, setPickedTime] = useState<{ time: number | null } | null>(null); // picked by hand (null = now)
+  const pickedRef = useRef(picked); // latest photos, for adds in flight and the unmount cleanup
+
+  useEffect(() => {
+    pickedRef.current = picked;
+  }, [picked]);
+
+  // Release every preview when the modal closes
+  useEffect(() => {
+    const current = pickedRef;
+    return () => current.current.forEach(({ preview }) => URL.revokeObjectURL(preview));
+  }, []);
+
+  const photos = picked.map(({ photo }) => photo);
+  const previews = picked.map(({ preview }) => preview);
+  const capturedAt = getEarliestCaptureTime(photos);
+  const entryTime = pickedTime ? pickedTime.time : capturedAt; // when it was eaten (null = now)
+  const entryTimeFromPhoto = !pickedTime && capturedAt !== null;
+
+  /**
+   * Add picked or shared photos (up to MAX_PHOTOS in all)
+   * @returns The photos added
+   * @throws Error if a photo can't be read
+   */
+  const addPhotos = useCallback(async (newFiles: File[]): Promise<PreparedPhoto[]> => {
+    // Detect the real image type, read the capture time, and strip location metadata before anything else
+    // (one at a time - each photo is decoded at full size)
+    const prepared: PreparedPhoto[] = [];
+    for (const file of newFiles) {
+      if (pickedRef.current.length + prepared.length >= MAX_PHOTOS) break;
+      prepared.push(await preparePhoto(file));
+    }
+    if (prepared.length === 0) return [];
+
+    const added = prepared.map((photo) => ({ photo, preview: URL.createObjectURL(photo.file) }));
+    pickedRef.current = [...pickedRef.current, ...added]; // counted by an add that is still preparing
+    setPicked((current) => [...current, ...added]);
+
+    // A time reset to "now" by hand gives way to the new photos' capture time
+    setPickedTime((current) => (current?.time === null ? null : current));
+
+    return prepared;
+  }, []);
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(picked[index].preview);
+    setPicked((current) => current.filter((_, i) => i !== index));
+  };
+
+  /**
+   * Pick the entry time by hand (null = now)
+   */
+  const pickEntryTime = (time: number | null) => {
+    setPickedTime({ time });
+  };
+
+  return { photos, previews, entryTime, entryTimeFromPhoto, addPhotos, removePhoto, pickEntryTime };
+}
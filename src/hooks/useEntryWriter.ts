@@ -0,0 +1,200 @@
+/**
+ * useEntryWriter Hook
+ *
+ * Custom React hook for saving reviewed entries from the add entry flow.
+ * Firestore is written first (source of truth), then the AI correction, product,
+ * and library bookkeeping, then the Notion mirror.
+ */
+
+import { useAuth } from './useAuth';
+import { useUserData } from './useUserData';
+import {
+  createEntry,
+  updateEntry,
+  createCorrection,
+  saveProduct,
+  recordSavedFoodLogged,
+} from '../services/firestore';
+import { getSchemaAIFields } from '../services/gemini';
+import { syncEntryToNotion } from '../services/notion';
+import { getNumericValues } from '../utils/foodItems';
+import type { EntryPhoto, EntrySource, FieldEstimate, FoodEntry, FoodItem, NutritionLabel } from '../types';
+
+/**
+ * Entry data shown in (and edited by) the review modal
+ */
+export interface ReviewData {
+  title: string;
+  summary: string;
+  extractedFields: Record<string, unknown>;
+  fieldEstimates: Record<string, FieldEstimate>;
+  items: FoodItem[];
+  photos: EntryPhoto[];
+  voiceNoteUrl?: string;
+  source: EntrySource;
+  nutritionLabel?: NutritionLabel;
+  barcode?: string;
+  savedFoodId?: string;
+  recipeId?: string;
+  promptVersion?: string; // prompt that produced the AI values (see PROMPT_VERSIONS)
+}
+
+export type ReviewedEntry = Pick<ReviewData, 'title' | 'summary' | 'extractedFields' | 'fieldEstimates' | 'items'> & {
+  timestamp?: number; // when it was eaten, if picked in the review modal
+};
+
+export function useEntryWriter() {
+  const { user } = useAuth();
+  const { settings, schema } = useUserData();
+
+  /**
+   * Write one entry
+   * @param review - Entry data as proposed (AI values are compared with the reviewed ones)
+   * @param updatedData - Entry data as reviewed
+   * @param timestamp - When the entry was eaten
+   * @param entryText - Description the entry was created from
+   * @returns Whether the Notion sync succeeded, or null if Notion isn't configured
+   */
+  const writeEntry = async (
+    review: ReviewData,
+    updatedData: ReviewedEntry,
+    timestamp: number,
+    entryText: string
+  ): Promise<boolean | null> => {
+    if (!user) return null;
+
+    // The first photo is also stored in the single-photo fields older readers use
+    const [firstPhoto] = review.photos;
+
+    // Create entry in Firestore
+    const entryData: Omit<FoodEntry, 'id'> = {
+      userId: user.uid,
+      timestamp,
+      title: updatedData.title,
+      text: entryText,
+      photoUrl: firstPhoto?.url || '',
+      aiSummary: updatedData.summary,
+      items: updatedData.items,
+      fieldEstimates: updatedData.fieldEstimates,
+      source: review.source,
+      // Always create fieldValues with extracted data (even without schema)
+      // This ensures dashboard can always read macro data
+      fieldValues: {
+        name: updatedData.title,
+        date: timestamp,
+        summary: updatedData.summary,
+        photo: firstPhoto?.url || '',
+        // Include extracted fields (macros) from AI
+        ...updatedData.extractedFields,
+      },
+    };
+
+    if (review.photos.length > 0) {
+      entryData.photos = review.photos;
+    }
+    if (firstPhoto?.thumbnailUrl) {
+      entryData.thumbnailUrl = firstPhoto.thumbnailUrl;
+    }
+    if (review.voiceNoteUrl) {
+      entryData.voiceNoteUrl = review.voiceNoteUrl;
+    }
+    if (review.nutritionLabel) {
+      entryData.nutritionLabel = review.nutritionLabel;
+    }
+    if (review.barcode) {
+      entryData.barcode = review.barcode;
+    }
+    if (review.savedFoodId) {
+      entryData.savedFoodId = review.savedFoodId;
+    }
+    if (review.recipeId) {
+      entryData.recipeId = review.recipeId;
+    }
+    if (review.promptVersion) {
+      entryData.promptVersion = review.promptVersion;
+    }
+
+    // Add schema reference if schema exists
+    if (schema) {
+      entryData.schemaId = schema.id;
+    }
+
+    // AI estimates remember which fields were asked for, so a later backfill only adds new ones
+    if (review.source === 'estimate' && schema) {
+      entryData.analyzedFieldIds = getSchemaAIFields(schema).map((field) => field.id);
+    }
+
+    // FIRESTORE-FIRST: Save to Firestore first (source of truth)
+    console.log('Creating entry in Firestore (source of truth) with schema:', schema?.id);
+    const entry = await createEntry(entryData);
+    console.log('Entry saved to Firestore:', entry.id);
+
+    // Record AI estimates vs. reviewed values so future analyses can learn from them
+    // (label values are printed, not estimated, so they are not recorded; menu values are)
+    if (review.source === 'estimate' || review.source === 'menu') {
+      try {
+        await createCorrection({
+          userId: user.uid,
+          entryId: entry.id,
+          createdAt: Date.now(),
+          text: entryText,
+          title: updatedData.title,
+          itemNames: updatedData.items.map((item) => item.name),
+          originalValues: getNumericValues(review.extractedFields),
+          correctedValues: getNumericValues(updatedData.extractedFields),
+        });
+      } catch (correctionError) {
+        console.error('Failed to record AI correction:', correctionError);
+      }
+    }
+
+    // Save a barcode resolved from its label so the next scan skips the AI
+    if (review.source === 'label' && review.barcode && review.nutritionLabel) {
+      try {
+        await saveProduct(user.uid, {
+          barcode: review.barcode,
+          name: updatedData.title,
+          servingSize: review.nutritionLabel.servingSize,
+          perServing: review.nutritionLabel.perServing,
+          source: 'user',
+          createdBy: user.uid,
+          updatedAt: Date.now(),
+        });
+      } catch (productError) {
+        console.error('Failed to save product:', productError);
+      }
+    }
+
+    // Count the re-log so frequent foods are suggested first
+    if (review.savedFoodId) {
+      try {
+        await recordSavedFoodLogged(review.savedFoodId);
+      } catch (foodError) {
+        console.error('Failed to update saved food:', foodError);
+      }
+    }
+
+    // Check if Notion is configured - sync as mirror
+    if (!settings?.notionApiKey || !settings?.notionDatabaseId) {
+      return null;
+    }
+
+    // NOTION SYNC: Try to sync to Notion (mirror/view destination)
+    try {
+      console.log('Syncing entry to Notion (mirror) with schema:', schema?.id);
+      const notionPageId = await syncEntryToNotion(entry, settings.notionApiKey, settings.notionDatabaseId, schema);
+      console.log('Synced to Notion:', notionPageId);
+
+      // Update Firestore entry with Notion page ID
+      await updateEntry(entry.id, { notionPageId });
+      console.log('Updated Firestore entry with notionPageId');
+      return true;
+    } catch (notionError) {
+      // Entry is still saved in Firestore, just failed to mirror to Notion
+      console.error('Failed to sync to Notion (mirror):', notionError);
+      return false;
+    }
+  };
+
+  return { writeEntry };
+}
@@ -0,0 +1,98 @@
+/**
+ * useOutbox Hook
+ *
+ * Custom React hook for the meals queued while offline.
+ * Drains the queue when mounted, when the connection returns, when a retry is due, and when
+ * the service worker wakes it, and re-reads it whenever it changes (in this tab or another).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getOutboxEntries,
+  drainOutbox,
+  onOutboxChange,
+  retryOutboxEntry,
+  discardOutboxEntry,
+} from '../services/outbox';
+import { onDrainRequest } from '../services/serviceWorker';
+import type { OutboxEntry } from '../types';
+
+export function useOutbox(userId: string | null) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setEntries(await getOutboxEntries(userId));
+    } catch (err) {
+      console.error('Error loading queued entries:', err);
+    }
+  }, [userId]);
+
+  // Keep the list current and drain now and whenever the connection returns
+  useEffect(() => {
+    setEntries([]);
+    if (!userId) return;
+
+    const drain = () => {
+      drainOutbox(userId).catch((err) => console.error('Error draining outbox:', err));
+    };
+
+    refresh();
+    drain();
+    const unsubscribe = onOutboxChange(refresh);
+    window.addEventListener('online', drain);
+
+    // Service worker wake-up: done once nothing is left waiting (entries that ran out of attempts wait for the user)
+    const removeDrainHandler = onDrainRequest(async () => {
+      await drainOutbox(userId);
+      const remaining = await getOutboxEntries(userId);
+      return !remaining.some((entry) => entry.status === 'waiting');
+    });
+
+    return () => {
+      unsubscribe();
+      removeDrainHandler();
+      window.removeEventListener('online', drain);
+    };
+  }, [userId, refresh]);
+
+  // Drain again when the earliest backed-off retry is due
+  useEffect(() => {
+    if (!userId) return;
+
+    const due = entries
+      .filter((entry) => entry.status === 'waiting')
+      .map((entry) => entry.nextAttemptAt);
+    if (due.length === 0) return;
+
+    const timer = window.setTimeout(() => {
+      drainOutbox(userId).catch((err) => console.error('Error draining outbox:', err));
+    }, Math.max(Math.min(...due) - Date.now(), 0));
+    return () => window.clearTimeout(timer);
+  }, [userId, entries]);
+
+  /**
+   * Retry a queued entry now
+   */
+  const retry = async (id: string) => {
+    try {
+      await retryOutboxEntry(id);
+    } catch (err) {
+      console.error('Error retrying queued entry:', err);
+    }
+  };
+
+  /**
+   * Remove a queued entry without logging it
+   */
+  const discard = async (id: string) => {
+    try {
+      await discardOutboxEntry(id);
+    } catch (err) {
+      console.error('Error discarding queued entry:', err);
+    }
+  };
+
+  return { entries, retry, discard };
+}
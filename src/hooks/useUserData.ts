@@ -0,0 +1,28 @@
+/**
+ * User Data Hook
+ *
+ * Reads the signed-in user's settings, schemas, and recent entries from the
+ * app-level store kept by UserDataProvider.
+ */
+
+import { createContext, useContext } from 'react';
+import type { DatabaseSchema, FoodEntry, UserSettings } from '../types';
+
+export interface UserDataContextType {
+  settings: UserSettings | null;
+  schema: DatabaseSchema | null; // active schema
+  schemas: DatabaseSchema[]; // every schema of the user, most recently updated first
+  recentEntries: FoodEntry[]; // eaten since historyStart, newest first
+  historyStart: number; // start of the day DASHBOARD_HISTORY_DAYS days ago (moves forward at midnight)
+  loading: boolean; // true until each listener has delivered its first snapshot
+}
+
+export const UserDataContext = createContext<UserDataContextType | undefined>(undefined);
+
+export function useUserData() {
+  const context = useContext(UserDataContext);
+  if (!context) {
+    throw new Error('useUserData must be used within UserDataProvider');
+  }
+  return context;
+}
@@ -0,0 +1,60 @@
+/**
+ * useVoiceNote Hook
+ *
+ * Custom React hook for a voice note transcribed into an entry's description.
+ * The latest recording can optionally be kept with the entry.
+ */
+
+import { useState } from 'react';
+import { useVoiceRecorder } from './useVoiceRecorder';
+import { resolveSpeechProviderConfig, transcribeVoiceNote } from '../services/speech';
+import type { UserSettings } from '../types';
+
+export function useVoiceNote(settings: UserSettings | null) {
+  const recorder = useVoiceRecorder();
+  const [recordingBlob, setRecordingBlob] = useState<Blob | null>(null); // latest recording
+  const [preview, setPreview] = useState('');
+  const [keep, setKeep] = useState(false);
+  const [transcribing, setTranscribing] = useState(false);
+
+  /**
+   * Start recording, or stop the recording in progress
+   * @returns The transcript once a recording is transcribed, or null when stopping
+   * @throws Error if recording or transcription fails
+   */
+  const toggle = async (): Promise<string | null> => {
+    if (recorder.recording) {
+      recorder.stop();
+      return null;
+    }
+
+    try {
+      const audio = await recorder.record();
+      setTranscribing(true);
+      const transcript = await transcribeVoiceNote(audio, resolveSpeechProviderConfig(settings));
+
+      setRecordingBlob(audio);
+      setPreview((previous) => {
+        if (previous) URL.revokeObjectURL(previous);
+        return URL.createObjectURL(audio);
+      });
+      return transcript;
+    } finally {
+      setTranscribing(false);
+    }
+  };
+
+  return {
+    recording: recorder.recording,
+    elapsedSeconds: recorder.elapsedSeconds,
+    transcribing,
+    hasRecording: recordingBlob !== null,
+    preview,
+    keep,
+    setKeep,
+    keptNote: keep && recordingBlob ? recordingBlob : undefined, // to upload with the entry
+    toggle,
+  };
+}
+
+export type VoiceNote = ReturnType<typeof useVoiceNote>;
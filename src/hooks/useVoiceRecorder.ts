@@ -0,0 +1,90 @@
+/**
+ * useVoiceRecorder Hook
+ *
+ * Custom React hook for recording a short voice note from the microphone.
+ * Recording stops on request or automatically after the maximum length.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+
+export const MAX_VOICE_NOTE_SECONDS = 120;
+
+// Preferred recording formats, first supported wins (Safari only records MP4)
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+/**
+ * Check whether the browser can record audio
+ */
+export function canRecordVoice(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export function useVoiceRecorder(maxSeconds: number = MAX_VOICE_NOTE_SECONDS) {
+  const [recording, setRecording] = useState(false);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  // Release the microphone if the component unmounts mid-recording
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    };
+  }, []);
+
+  /**
+   * Record until stop() is called or the maximum length is reached
+   * @returns The recording
+   * @throws Error if microphone access is denied or recording fails
+   */
+  const record = async (): Promise<Blob> => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      throw new Error('Microphone access was denied - allow it in your browser to record voice notes');
+    }
+
+    const mimeType = RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorderRef.current = recorder;
+
+    return new Promise((resolve, reject) => {
+      const startedAt = Date.now();
+      const timer = window.setInterval(() => {
+        const seconds = Math.floor((Date.now() - startedAt) / 1000);
+        setElapsedSeconds(seconds);
+        if (seconds >= maxSeconds && recorder.state === 'recording') recorder.stop();
+      }, 250);
+
+      const finish = () => {
+        window.clearInterval(timer);
+        stream.getTracks().forEach((track) => track.stop());
+        recorderRef.current = null;
+        setRecording(false);
+      };
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        finish();
+        resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+      };
+      recorder.onerror = () => {
+        finish();
+        reject(new Error('Recording failed - please try again'));
+      };
+
+      setElapsedSeconds(0);
+      setRecording(true);
+      recorder.start();
+    });
+  };
+
+  const stop = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  return { recording, elapsedSeconds, record, stop };
+}
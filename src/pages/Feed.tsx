@@ -1,157 +1,139 @@
 /**
  * Feed Page Component
  *
- * Main dashboard displaying all food entries.
+ * Main dashboard displaying food entries, newest first, loaded a page at a time as the feed scrolls.
+ * The newest entries, the dashboard, and settings update live, so entries logged on another device appear.
+ * Meals logged offline are shown above the feed until they are saved.
+ * Photos shared to the installed app open the new entry modal with them.
  * Shows photo thumbnails, text, timestamps, and AI summaries.
  */
 
-import { useState, useEffect } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
-import { getUserEntries, getActiveSchema, getUserSettings, updateEntry, createEntry } from '../services/firestore';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { getUserEntriesByNotionPageIds, updateEntry, createEntry } from '../services/firestore';
 import { queryNotionEntries } from '../services/notion';
-import type { FoodEntry, DatabaseSchema, UserSettings } from '../types';
+import { takeSharedContent, type SharedContent } from '../services/shareTarget';
 import { useAuth } from '../hooks/useAuth';
+import { useUserData } from '../hooks/useUserData';
+import { useEntryFeed } from '../hooks/useEntryFeed';
+import { useOutbox } from '../hooks/useOutbox';
 import AddEntryModal from '../components/AddEntryModal';
 import EntryCard from '../components/EntryCard';
+import OutboxEntryCard from '../components/OutboxEntryCard';
 import Dashboard from '../components/Dashboard';
 import './Feed.css';
 
 export default function Feed() {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const location = useLocation();
-  const [entries, setEntries] = useState<FoodEntry[]>([]);
-  const [schema, setSchema] = useState<DatabaseSchema | null>(null);
-  const [settings, setSettings] = useState<UserSettings | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { settings, schema, loading: dataLoading } = useUserData();
+  const feed = useEntryFeed(user?.uid ?? null);
+  const entries = feed.entries;
+  const loading = dataLoading || feed.loading;
+  const outbox = useOutbox(user?.uid ?? null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [shared, setShared] = useState<SharedContent | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const syncedUserRef = useRef<string | null>(null); // Notion is synced once per sign-in
 
-  // Reload data when returning from Settings page (in case Notion was disconnected)
-  useEffect(() => {
-    if (!user) {
-      // Clear entries if user logs out
-      setEntries([]);
-      return;
-    }
-
-    loadData();
-  }, [user, location.pathname]); // Reload when pathname changes (e.g., coming back from Settings)
-
-  // Removed Notion disconnect safety check - Firestore is now source of truth
-
-  const loadData = async () => {
-    if (!user) return;
+  // BIDIRECTIONAL SYNC: Merge changes made in Notion into Firestore
+  const syncFromNotion = useCallback(async () => {
+    if (!user || !settings?.notionApiKey || !settings?.notionDatabaseId) return;
 
-    setLoading(true);
     try {
-      // Load schema and settings first
-      const [activeSchema, userSettings] = await Promise.all([
-        getActiveSchema(user.uid),
-        getUserSettings(user.uid),
-      ]);
-
-      console.log('Loaded schema:', activeSchema);
-      console.log('Loaded settings:', userSettings);
-
-      setSchema(activeSchema);
-      setSettings(userSettings);
-
-      // BIDIRECTIONAL SYNC: Load from Firestore, then sync from Notion
-      try {
-        console.log('Loading entries from Firestore...');
-        const firestoreEntries = await getUserEntries(user.uid);
-
-        console.log('✅ Loaded entries from Firestore:', firestoreEntries.length, 'entries');
-
-        // If Notion is connected, sync changes from Notion to Firestore
-        const hasNotion = !!(userSettings?.notionApiKey && userSettings?.notionDatabaseId);
-
-        if (hasNotion) {
-          try {
-            console.log('🔄 Syncing from Notion...');
-            const notionEntries = await queryNotionEntries(
-              userSettings.notionApiKey!,
-              userSettings.notionDatabaseId!,
-              activeSchema
-            );
-
-            console.log('✅ Loaded from Notion:', notionEntries.length, 'entries');
-
-            // Merge Notion entries into Firestore
-            for (const notionEntry of notionEntries) {
-              if (!notionEntry.notionPageId) continue;
-
-              // Find matching Firestore entry by notionPageId
-              const existingEntry = firestoreEntries.find(
-                e => e.notionPageId === notionEntry.notionPageId
-              );
-
-              const entryData = {
-                ...notionEntry,
-                userId: user.uid,
-                schemaId: activeSchema?.id,
-              };
-
-              if (existingEntry) {
-                // Update existing entry with Notion changes
-                await updateEntry(existingEntry.id, entryData);
-                console.log('Updated entry from Notion:', existingEntry.id);
-              } else {
-                // Create new entry from Notion
-                const created = await createEntry(entryData);
-                console.log('Created new entry from Notion:', created.id);
-              }
-            }
-
-            // Reload from Firestore after sync
-            const updatedEntries = await getUserEntries(user.uid);
-            setEntries(updatedEntries);
-            console.log('✅ Sync complete. Total entries:', updatedEntries.length);
-          } catch (notionError: any) {
-            console.error('⚠️ Notion sync failed (continuing with Firestore data):', notionError);
-            // Continue with Firestore data even if Notion sync fails
-            setEntries(firestoreEntries);
-          }
+      console.log('🔄 Syncing from Notion...');
+      const notionEntries = await queryNotionEntries(
+        settings.notionApiKey,
+        settings.notionDatabaseId,
+        schema
+      );
+
+      console.log('✅ Loaded from Notion:', notionEntries.length, 'entries');
+
+      // Notion pages can be any age, so look up just the entries linked to them (not the whole history)
+      const firestoreEntries = await getUserEntriesByNotionPageIds(
+        user.uid,
+        notionEntries.flatMap((notionEntry) => (notionEntry.notionPageId ? [notionEntry.notionPageId] : []))
+      );
+
+      // Merge Notion entries into Firestore
+      for (const notionEntry of notionEntries) {
+        if (!notionEntry.notionPageId) continue;
+
+        // Find matching Firestore entry by notionPageId
+        const existingEntry = firestoreEntries.find(
+          e => e.notionPageId === notionEntry.notionPageId
+        );
+
+        const entryData = {
+          ...notionEntry,
+          userId: user.uid,
+          schemaId: schema?.id,
+        };
+
+        if (existingEntry) {
+          // Update existing entry with Notion changes
+          await updateEntry(existingEntry.id, entryData);
+          console.log('Updated entry from Notion:', existingEntry.id);
         } else {
-          // No Notion connected, just use Firestore data
-          setEntries(firestoreEntries);
+          // Create new entry from Notion
+          const created = await createEntry(entryData);
+          console.log('Created new entry from Notion:', created.id);
         }
-      } catch (error: any) {
-        console.error('❌ Failed to load from Firestore:', error);
-        setEntries([]);
-        alert(`Failed to load entries: ${error.message}`);
       }
-    } catch (error) {
-      console.error('Error loading data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
 
-  const loadEntries = async () => {
-    if (!user) return;
+      console.log('✅ Sync complete');
+    } catch (notionError: any) {
+      console.error('⚠️ Notion sync failed (continuing with Firestore data):', notionError);
+      // Continue with Firestore data even if Notion sync fails
+    }
+  }, [user, settings, schema]);
 
-    try {
-      const activeSchema = await getActiveSchema(user.uid);
+  // Sync from Notion once settings have loaded (the listeners pick up what it changes)
+  useEffect(() => {
+    if (!user || dataLoading || syncedUserRef.current === user.uid) return;
 
-      // Reload schema
-      setSchema(activeSchema);
+    syncedUserRef.current = user.uid;
+    syncFromNotion();
+  }, [user, dataLoading, syncFromNotion]);
 
-      // FIRESTORE-FIRST: Load from Firestore (source of truth)
-      console.log('Reloading entries from Firestore (source of truth)...');
-      const firestoreEntries = await getUserEntries(user.uid);
+  // Opened by the share target (see public/sw.js): log what was shared
+  useEffect(() => {
+    if (searchParams.get('share') === null) return;
+    setSearchParams({}, { replace: true });
+
+    takeSharedContent()
+      .then((content) => {
+        if (!content) return;
+        setShared(content);
+        setShowAddModal(true);
+      })
+      .catch((err) => console.error('Error reading shared photos:', err));
+  }, [searchParams, setSearchParams]);
 
-      console.log('✅ Reloaded entries from Firestore:', firestoreEntries.length);
-      setEntries(firestoreEntries);
-    } catch (error) {
-      console.error('Error loading entries:', error);
-      setEntries([]);
-    }
-  };
+  // Removed Notion disconnect safety check - Firestore is now source of truth
 
-  const handleEntryAdded = async () => {
+  // Load the next page when the end of the feed scrolls into view
+  // (re-observed after each page, so a short page keeps loading until the screen is full)
+  const { hasMore, loadingMore, loadMore } = feed;
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || loadingMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, loadMore, loading]);
+
+  const closeAddModal = () => {
     setShowAddModal(false);
-    await loadEntries(); // Ensure entries are reloaded before continuing
+    setShared(null);
   };
 
   return (
@@ -164,6 +146,20 @@ export default function Feed() {
         </div>
 
         <div className="header-right">
+          <button
+            onClick={() => navigate('/foods')}
+            className="settings-btn"
+            title="My Foods"
+          >
+            My Foods
+          </button>
+          <button
+            onClick={() => navigate('/recipes')}
+            className="settings-btn"
+            title="Recipes"
+          >
+            Recipes
+          </button>
           <button
             onClick={() => navigate('/settings')}
             className="settings-btn"
@@ -177,7 +173,7 @@ export default function Feed() {
       {/* Main Content */}
       <main className="feed-main">
         {/* Dashboard */}
-        {!loading && <Dashboard entries={entries} schema={schema} settings={settings} />}
+        {!loading && <Dashboard hasEntries={entries.length > 0} />}
 
         {/* New Entry Button */}
         <div className="feed-actions">
@@ -189,6 +185,20 @@ export default function Feed() {
           </button>
         </div>
 
+        {/* Entries logged offline that haven't been saved yet */}
+        {outbox.entries.length > 0 && (
+          <div className="entries-grid outbox-grid">
+            {outbox.entries.map((entry) => (
+              <OutboxEntryCard
+                key={entry.id}
+                entry={entry}
+                onRetry={() => outbox.retry(entry.id)}
+                onDiscard={() => outbox.discard(entry.id)}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Entries Grid */}
         {loading ? (
           <div className="loading">Loading entries...</div>
@@ -254,18 +264,33 @@ export default function Feed() {
               }
 
               return filteredEntries.map((entry) => (
-                <EntryCard key={entry.id || entry.notionPageId} entry={entry} onDelete={loadEntries} />
+                <EntryCard
+                  key={entry.id || entry.notionPageId}
+                  entry={entry}
+                  onDelete={() => feed.removeEntry(entry.id)}
+                />
               ));
             })()}
           </div>
         )}
+
+        {/* Next page (loads automatically when scrolled into view) */}
+        {!loading && feed.hasMore && (
+          <div ref={loadMoreRef} className="feed-load-more">
+            <button onClick={feed.loadMore} className="settings-btn" disabled={feed.loadingMore}>
+              {feed.loadingMore ? 'Loading...' : 'Load More'}
+            </button>
+          </div>
+        )}
       </main>
 
       {/* Add Entry Modal */}
       {showAddModal && (
         <AddEntryModal
-          onClose={() => setShowAddModal(false)}
-          onEntryAdded={handleEntryAdded}
+          onClose={closeAddModal}
+          onEntryAdded={closeAddModal} // the feed listener shows the new entry
+          initialPhotos={shared?.photos}
+          initialText={shared?.text}
         />
       )}
     </div>
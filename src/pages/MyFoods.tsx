@@ -0,0 +1,199 @@
+/**
+ * My Foods Page Component
+ *
+ * Manages the user's personal food library.
+ * Foods can be saved from any entry (EntryCard) or created here by hand,
+ * and are suggested in AddEntryModal for re-logging without an AI call.
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../hooks/useToast';
+import { useUserData } from '../hooks/useUserData';
+import { getUserSavedFoods, createSavedFood, deleteSavedFood } from '../services/firestore';
+import { getNumericFields } from '../utils/foodItems';
+import { getSuggestedFoods } from '../utils/savedFoods';
+import type { FieldConfig, SavedFood } from '../types';
+import './MyFoods.css';
+
+export default function MyFoods() {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const { schema } = useUserData();
+  const [foods, setFoods] = useState<SavedFood[]>([]);
+  const fields: FieldConfig[] = getNumericFields(schema?.fields);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // New food form
+  const [name, setName] = useState('');
+  const [portion, setPortion] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadFoods = async () => {
+      setLoading(true);
+      try {
+        const savedFoods = await getUserSavedFoods(user.uid);
+        setFoods(getSuggestedFoods(savedFoods, savedFoods.length));
+      } catch (error) {
+        console.error('Error loading saved foods:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFoods();
+  }, [user]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !name.trim()) return;
+
+    setSaving(true);
+    try {
+      const fieldValues: Record<string, number> = {};
+      fields.forEach((field) => {
+        const value = parseFloat(values[field.id]);
+        if (Number.isFinite(value)) fieldValues[field.id] = value;
+      });
+
+      const food = await createSavedFood({
+        userId: user.uid,
+        name: name.trim(),
+        portion: portion.trim() || '1 serving',
+        fieldValues,
+        logCount: 0,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+
+      setFoods((prev) => [...prev, food]);
+      setName('');
+      setPortion('');
+      setValues({});
+      showToast(`Added "${food.name}" to My Foods`, 'success');
+    } catch (error) {
+      console.error('Error creating food:', error);
+      showToast('Failed to add food', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (food: SavedFood) => {
+    if (!window.confirm(`Remove "${food.name}" from My Foods?`)) return;
+
+    try {
+      await deleteSavedFood(food.id);
+      setFoods((prev) => prev.filter((f) => f.id !== food.id));
+    } catch (error) {
+      console.error('Error deleting food:', error);
+      showToast('Failed to remove food', 'error');
+    }
+  };
+
+  /**
+   * Short summary of a food's numeric values (e.g., "30 g Protein · 450 kcal Calories")
+   */
+  const formatValues = (food: SavedFood) =>
+    fields
+      .filter((field) => typeof food.fieldValues[field.id] === 'number')
+      .map((field) => `${food.fieldValues[field.id]}${field.unit ? ` ${field.unit}` : ''} ${field.name}`)
+      .join(' · ');
+
+  return (
+    <div className="my-foods-container">
+      <header className="my-foods-header">
+        <button onClick={() => navigate('/feed')} className="back-btn">
+          ← Back to Feed
+        </button>
+      </header>
+
+      <main className="my-foods-main">
+        <h1>My Foods</h1>
+        <p className="my-foods-description">
+          Foods you log often. Tap one in New Entry to log it again without another AI analysis.
+          Save any entry with ☆ in the feed, or add a food by hand below.
+        </p>
+
+        {loading ? (
+          <div className="loading">Loading foods...</div>
+        ) : foods.length === 0 ? (
+          <p className="my-foods-empty">No saved foods yet.</p>
+        ) : (
+          <ul className="my-foods-list">
+            {foods.map((food) => (
+              <li key={food.id} className="my-food">
+                {food.photoUrl && <img src={food.thumbnailUrl || food.photoUrl} alt="" className="my-food-photo" loading="lazy" />}
+                <div className="my-food-details">
+                  <p className="my-food-name">{food.name}</p>
+                  <p className="my-food-meta">
+                    {food.portion}
+                    {food.logCount > 0 && ` · logged ${food.logCount}×`}
+                  </p>
+                  <p className="my-food-values">{formatValues(food)}</p>
+                </div>
+                <button
+                  onClick={() => handleDelete(food)}
+                  className="my-food-delete"
+                  title="Remove from My Foods"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <section className="my-foods-add">
+          <h2>Add a Food</h2>
+          <form onSubmit={handleCreate} className="my-foods-form">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name (e.g., Overnight Oats)"
+              className="input"
+              aria-label="Food name"
+              required
+            />
+            <input
+              type="text"
+              value={portion}
+              onChange={(e) => setPortion(e.target.value)}
+              placeholder="Portion (e.g., 1 jar)"
+              className="input"
+              aria-label="Portion"
+            />
+            <div className="my-foods-values">
+              {fields.map((field) => (
+                <label key={field.id} className="my-foods-value">
+                  <span>
+                    {field.name}
+                    {field.unit && ` (${field.unit})`}
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={values[field.id] ?? ''}
+                    onChange={(e) => setValues((prev) => ({ ...prev, [field.id]: e.target.value }))}
+                    className="input"
+                  />
+                </label>
+              ))}
+            </div>
+            <button type="submit" className="btn btn-primary" disabled={saving || !name.trim()}>
+              {saving ? 'Saving...' : 'Add Food'}
+            </button>
+          </form>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,481 @@
+/**
+ * Recipes Page Component
+ *
+ * Builds home-cooked dishes from ingredients with quantities.
+ * Ingredient values come from My Foods, the barcode database, or an AI estimate of a
+ * single ingredient line, and per-serving values are computed for the active schema's
+ * numeric fields. Recipes are logged by servings eaten from AddEntryModal.
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../hooks/useToast';
+import { useUserData } from '../hooks/useUserData';
+import {
+  getUserSavedFoods,
+  getUserRecipes,
+  createRecipe,
+  updateRecipe,
+  deleteRecipe,
+  getProduct,
+} from '../services/firestore';
+import { generateFoodSummary } from '../services/gemini';
+import { resolveAIProviderConfig } from '../services/ai';
+import { getNumericFields, getNumericValues } from '../utils/foodItems';
+import { computeRecipePerServing, getMissingIngredientFields } from '../utils/recipes';
+import { normalizeBarcode, isValidBarcode, getProductServing } from '../utils/products';
+import type {
+  FieldConfig,
+  Recipe,
+  RecipeIngredient,
+  SavedFood,
+} from '../types';
+import './Recipes.css';
+
+type IngredientSource = RecipeIngredient['source'];
+
+const INGREDIENT_SOURCES: { id: IngredientSource; label: string }[] = [
+  { id: 'library', label: 'My Foods' },
+  { id: 'barcode', label: 'Barcode' },
+  { id: 'estimate', label: 'AI Estimate' },
+];
+
+/**
+ * Recipe being created or edited
+ */
+interface RecipeDraft {
+  id?: string; // set when editing an existing recipe
+  name: string;
+  servings: string;
+  ingredients: RecipeIngredient[];
+}
+
+const EMPTY_DRAFT: RecipeDraft = { name: '', servings: '4', ingredients: [] };
+
+/**
+ * Short summary of values (e.g., "30 g Protein · 450 kcal Calories")
+ */
+function formatValues(values: Record<string, number>, fields: FieldConfig[]): string {
+  return fields
+    .filter((field) => typeof values[field.id] === 'number')
+    .map((field) => `${values[field.id]}${field.unit ? ` ${field.unit}` : ''} ${field.name}`)
+    .join(' · ');
+}
+
+export default function Recipes() {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [savedFoods, setSavedFoods] = useState<SavedFood[]>([]);
+  const { schema, settings } = useUserData();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Recipe editor
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
+  const [ingredientSource, setIngredientSource] = useState<IngredientSource>('library');
+  const [ingredientInput, setIngredientInput] = useState('');
+  const [addingIngredient, setAddingIngredient] = useState(false);
+  const [ingredientError, setIngredientError] = useState('');
+
+  const fields = getNumericFields(schema?.fields);
+  const fieldIds = fields.map((field) => field.id);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadRecipes = async () => {
+      setLoading(true);
+      try {
+        const [userRecipes, foods] = await Promise.all([
+          getUserRecipes(user.uid),
+          getUserSavedFoods(user.uid),
+        ]);
+        setRecipes(userRecipes);
+        setSavedFoods(foods);
+      } catch (error) {
+        console.error('Error loading recipes:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRecipes();
+  }, [user]);
+
+  const openEditor = (recipe?: Recipe) => {
+    setDraft(
+      recipe
+        ? { id: recipe.id, name: recipe.name, servings: String(recipe.servings), ingredients: recipe.ingredients }
+        : EMPTY_DRAFT
+    );
+    setIngredientInput('');
+    setIngredientError('');
+  };
+
+  const addIngredient = (ingredient: RecipeIngredient) => {
+    setDraft((prev) => prev && { ...prev, ingredients: [...prev.ingredients, ingredient] });
+    setIngredientInput('');
+    setIngredientError('');
+  };
+
+  const updateIngredientQuantity = (index: number, quantity: string) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      ingredients: prev.ingredients.map((ingredient, i) =>
+        i === index ? { ...ingredient, quantity: parseFloat(quantity) || 0 } : ingredient
+      ),
+    });
+  };
+
+  const removeIngredient = (index: number) => {
+    setDraft((prev) => prev && { ...prev, ingredients: prev.ingredients.filter((_, i) => i !== index) });
+  };
+
+  const handleAddFromLibrary = (foodId: string) => {
+    const food = savedFoods.find((f) => f.id === foodId);
+    if (!food) return;
+
+    addIngredient({
+      name: food.name,
+      quantity: 1,
+      portion: food.portion,
+      fieldValues: getNumericValues(food.fieldValues),
+      source: 'library',
+      savedFoodId: food.id,
+    });
+  };
+
+  const handleAddFromBarcode = async () => {
+    if (!user) return;
+    const barcode = normalizeBarcode(ingredientInput);
+    if (!isValidBarcode(barcode)) {
+      setIngredientError('Please enter a valid EAN or UPC barcode');
+      return;
+    }
+
+    setAddingIngredient(true);
+    try {
+      const product = await getProduct(user.uid, barcode);
+      const serving = product ? getProductServing(product) : null;
+      if (!product || !serving) {
+        setIngredientError('Product not found - scan its nutrition label from New Entry first, or use an AI estimate');
+        return;
+      }
+
+      addIngredient({
+        name: product.brand ? `${product.name} (${product.brand})` : product.name,
+        quantity: 1,
+        portion: serving.servingSize,
+        fieldValues: serving.perServing,
+        source: 'barcode',
+        barcode,
+      });
+    } catch (error) {
+      setIngredientError(error instanceof Error ? error.message : 'Failed to look up barcode');
+    } finally {
+      setAddingIngredient(false);
+    }
+  };
+
+  const handleAddFromEstimate = async () => {
+    const description = ingredientInput.trim();
+    if (!description) {
+      setIngredientError('Describe the ingredient and its amount (e.g., "500 g ground beef")');
+      return;
+    }
+
+    setAddingIngredient(true);
+    try {
+      const result = await generateFoodSummary(description, undefined, schema, {
+        providerConfig: resolveAIProviderConfig(settings),
+      });
+
+      // The described amount is the portion, so the quantity starts at one
+      addIngredient({
+        name: result.title,
+        quantity: 1,
+        portion: description,
+        fieldValues: getNumericValues(result.extractedFields),
+        source: 'estimate',
+      });
+    } catch (error) {
+      setIngredientError(error instanceof Error ? error.message : 'Failed to estimate ingredient');
+    } finally {
+      setAddingIngredient(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !draft) return;
+
+    const servings = parseFloat(draft.servings);
+    if (!draft.name.trim() || !(servings > 0) || draft.ingredients.length === 0) {
+      showToast('A recipe needs a name, servings, and at least one ingredient', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const recipeData = {
+        name: draft.name.trim(),
+        servings,
+        ingredients: draft.ingredients.filter((ingredient) => ingredient.quantity > 0),
+      };
+
+      if (draft.id) {
+        await updateRecipe(draft.id, recipeData);
+        setRecipes((prev) =>
+          prev.map((r) => (r.id === draft.id ? { ...r, ...recipeData, updatedAt: Date.now() } : r))
+        );
+      } else {
+        const recipe = await createRecipe({
+          ...recipeData,
+          userId: user.uid,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+        setRecipes((prev) => [recipe, ...prev]);
+      }
+
+      setDraft(null);
+      showToast(`Saved "${recipeData.name}"`, 'success');
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+      showToast('Failed to save recipe', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (recipe: Recipe) => {
+    if (!window.confirm(`Delete the recipe "${recipe.name}"?`)) return;
+
+    try {
+      await deleteRecipe(recipe.id);
+      setRecipes((prev) => prev.filter((r) => r.id !== recipe.id));
+    } catch (error) {
+      console.error('Error deleting recipe:', error);
+      showToast('Failed to delete recipe', 'error');
+    }
+  };
+
+  const renderEditor = (editing: RecipeDraft) => {
+    const servings = parseFloat(editing.servings);
+    const perServing = computeRecipePerServing(
+      { ingredients: editing.ingredients, servings: servings > 0 ? servings : 1 },
+      fieldIds
+    );
+    const missing = getMissingIngredientFields(editing, fieldIds);
+
+    return (
+      <form onSubmit={handleSave} className="recipe-editor">
+        <h2>{editing.id ? 'Edit Recipe' : 'New Recipe'}</h2>
+
+        <div className="recipe-editor-row">
+          <input
+            type="text"
+            value={editing.name}
+            onChange={(e) => setDraft({ ...editing, name: e.target.value })}
+            placeholder="Name (e.g., Chili)"
+            className="input"
+            aria-label="Recipe name"
+            required
+          />
+          <label className="recipe-servings">
+            <span>Servings</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={editing.servings}
+              onChange={(e) => setDraft({ ...editing, servings: e.target.value })}
+              className="input"
+            />
+          </label>
+        </div>
+
+        {editing.ingredients.length > 0 && (
+          <ul className="recipe-ingredients">
+            {editing.ingredients.map((ingredient, index) => (
+              <li key={index} className="recipe-ingredient">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={ingredient.quantity}
+                  onChange={(e) => updateIngredientQuantity(index, e.target.value)}
+                  className="input recipe-quantity"
+                  aria-label={`Quantity of ${ingredient.name}`}
+                />
+                <div className="recipe-ingredient-details">
+                  <p className="recipe-ingredient-name">
+                    × {ingredient.portion} <span>{ingredient.name}</span>
+                  </p>
+                  <p className="recipe-ingredient-values">{formatValues(ingredient.fieldValues, fields)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeIngredient(index)}
+                  className="recipe-remove"
+                  title="Remove ingredient"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Add an ingredient from My Foods, the barcode database, or an AI estimate */}
+        <div className="recipe-add-ingredient">
+          <div className="recipe-source-toggle" role="tablist">
+            {INGREDIENT_SOURCES.map((source) => (
+              <button
+                key={source.id}
+                type="button"
+                role="tab"
+                aria-selected={ingredientSource === source.id}
+                className={ingredientSource === source.id ? 'active' : ''}
+                onClick={() => {
+                  setIngredientSource(source.id);
+                  setIngredientInput('');
+                  setIngredientError('');
+                }}
+              >
+                {source.label}
+              </button>
+            ))}
+          </div>
+
+          {ingredientSource === 'library' ? (
+            <select
+              value=""
+              onChange={(e) => handleAddFromLibrary(e.target.value)}
+              className="input"
+              aria-label="Add from My Foods"
+              disabled={savedFoods.length === 0}
+            >
+              <option value="">{savedFoods.length > 0 ? 'Add from My Foods...' : 'No saved foods yet'}</option>
+              {savedFoods.map((food) => (
+                <option key={food.id} value={food.id}>
+                  {food.name} ({food.portion})
+                </option>
+              ))}
+            </select>
+          ) : (
+            <div className="recipe-editor-row">
+              <input
+                type="text"
+                inputMode={ingredientSource === 'barcode' ? 'numeric' : undefined}
+                value={ingredientInput}
+                onChange={(e) => setIngredientInput(e.target.value)}
+                placeholder={
+                  ingredientSource === 'barcode' ? 'Barcode number (EAN/UPC)' : 'e.g., 500 g ground beef'
+                }
+                className="input"
+                aria-label={ingredientSource === 'barcode' ? 'Barcode' : 'Ingredient description'}
+                disabled={addingIngredient}
+              />
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={ingredientSource === 'barcode' ? handleAddFromBarcode : handleAddFromEstimate}
+                disabled={addingIngredient || !ingredientInput.trim()}
+              >
+                {addingIngredient ? 'Adding...' : 'Add'}
+              </button>
+            </div>
+          )}
+          {ingredientError && <p className="error">{ingredientError}</p>}
+        </div>
+
+        {editing.ingredients.length > 0 && (
+          <div className="recipe-per-serving">
+            <p className="recipe-per-serving-label">Per serving</p>
+            <p>{formatValues(perServing, fields)}</p>
+            {Object.keys(missing).length > 0 && (
+              <p className="recipe-missing">
+                Counted as zero:{' '}
+                {Object.entries(missing)
+                  .map(([name, fieldIdList]) =>
+                    `${name} (${fieldIdList.map((id) => fields.find((f) => f.id === id)?.name || id).join(', ')})`
+                  )
+                  .join('; ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="recipe-editor-actions">
+          <button type="button" className="btn btn-secondary" onClick={() => setDraft(null)} disabled={saving}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Recipe'}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <div className="recipes-container">
+      <header className="recipes-header">
+        <button onClick={() => navigate('/feed')} className="back-btn">
+          ← Back to Feed
+        </button>
+      </header>
+
+      <main className="recipes-main">
+        <h1>Recipes</h1>
+        <p className="recipes-description">
+          Build home-cooked dishes from their ingredients. Per-serving values are computed from the
+          ingredients, and you can log any number of servings from New Entry.
+        </p>
+
+        {draft ? (
+          renderEditor(draft)
+        ) : (
+          <>
+            {loading ? (
+              <div className="loading">Loading recipes...</div>
+            ) : recipes.length === 0 ? (
+              <p className="recipes-empty">No recipes yet.</p>
+            ) : (
+              <ul className="recipes-list">
+                {recipes.map((recipe) => (
+                  <li key={recipe.id} className="recipe-card">
+                    <button type="button" className="recipe-card-details" onClick={() => openEditor(recipe)}>
+                      <p className="recipe-card-name">{recipe.name}</p>
+                      <p className="recipe-card-meta">
+                        {recipe.ingredients.length} ingredients · {recipe.servings} servings
+                      </p>
+                      <p className="recipe-card-values">
+                        Per serving: {formatValues(computeRecipePerServing(recipe, fieldIds), fields)}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(recipe)}
+                      className="recipe-remove"
+                      title="Delete recipe"
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <button className="btn btn-primary" onClick={() => openEditor()} disabled={loading}>
+              New Recipe
+            </button>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -8,14 +8,25 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
-import { getUserSettings, saveUserSettings, createSchema, setActiveSchema } from '../services/firestore';
+import { useUserData } from '../hooks/useUserData';
+import {
+  saveUserSettings,
+  createSchema,
+  setActiveSchema,
+  getTodayAIUsage,
+  getUserCorrections,
+} from '../services/firestore';
 import { verifyNotionConnection } from '../services/notion';
+import { AI_PROVIDER_OPTIONS, type AIProviderId } from '../services/ai';
 import NotionOnboarding from '../components/NotionOnboarding';
 import DashboardSettings from '../components/DashboardSettings';
+import FieldBackfill from '../components/FieldBackfill';
 import { createSchemaFromTemplate } from '../constants/schemaTemplates';
+import { getFieldAccuracy, type FieldAccuracy } from '../utils/corrections';
+import { getChartFields, type ChartField } from '../utils/dashboardData';
 import { signOut } from 'firebase/auth';
 import { auth } from '../config/firebase';
-import type { UserSettings } from '../types';
+import type { FieldGoal } from '../types';
 import './Settings.css';
 
 export default function Settings() {
@@ -24,62 +35,85 @@ export default function Settings() {
   const location = useLocation();
   const [notionApiKey, setNotionApiKey] = useState('');
   const [notionDatabaseId, setNotionDatabaseId] = useState('');
-  const [loading, setLoading] = useState(true);
+  const { settings, schema, loading: dataLoading } = useUserData();
+  const [loadingUsage, setLoadingUsage] = useState(true);
+  const loading = dataLoading || loadingUsage;
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState('');
   const [messageType, setMessageType] = useState<'success' | 'error'>('success');
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [hasNotionSetup, setHasNotionSetup] = useState(false);
   const [showDashboardSettings, setShowDashboardSettings] = useState(false);
-  const [userSettings, setUserSettings] = useState<UserSettings | null>(null);
   const [proteinGoal, setProteinGoal] = useState<number>(150);
   const [calorieLimit, setCalorieLimit] = useState<number>(2000);
+  const [goalFields, setGoalFields] = useState<ChartField[]>([]);
+  const [fieldGoals, setFieldGoals] = useState<Record<string, FieldGoal>>({});
+  const [geminiApiKey, setGeminiApiKey] = useState('');
+  const [aiUsageToday, setAiUsageToday] = useState(0);
+  const [aiProvider, setAiProvider] = useState<AIProviderId>('gemini');
+  const [aiModel, setAiModel] = useState('');
+  const [aiBaseUrl, setAiBaseUrl] = useState('');
+  const [aiApiKey, setAiApiKey] = useState('');
+  const [fieldAccuracy, setFieldAccuracy] = useState<FieldAccuracy[]>([]);
+
+  // Fill the form from the live settings (after saving here, and after changes on another device)
+  useEffect(() => {
+    if (dataLoading) return;
+
+    if (settings) {
+      setNotionApiKey(settings.notionApiKey || '');
+      setNotionDatabaseId(settings.notionDatabaseId || '');
+      setHasNotionSetup(!!settings.notionApiKey && !!settings.notionDatabaseId);
+      setProteinGoal(settings.proteinGoal || 150);
+      setCalorieLimit(settings.calorieLimit || 2000);
+      setFieldGoals(settings.fieldGoals || {});
+      setGeminiApiKey(settings.geminiApiKey || '');
+      setAiProvider(settings.aiProvider || 'gemini');
+      setAiModel(settings.aiModel || '');
+      setAiBaseUrl(settings.aiBaseUrl || '');
+      setAiApiKey(settings.aiApiKey || '');
+    }
+    // Protein and calories have their own inputs; every other numeric field can get a goal
+    const goalField = settings?.goalField || 'protein';
+    setGoalFields(
+      schema ? getChartFields(schema).filter((f) => f.id !== goalField && f.id !== 'calories') : []
+    );
+  }, [settings, schema, dataLoading]);
 
   useEffect(() => {
     if (!user) return;
 
-    loadSettings();
+    loadUsage();
 
     // Check if returning from OAuth callback
     const state = location.state as { notionOAuthSuccess?: boolean; notionAccessToken?: string };
     if (state?.notionOAuthSuccess && state?.notionAccessToken) {
-      // OAuth completed successfully, reload settings to get the token
-      loadSettings().then(() => {
-        // Open onboarding to continue with database selection
-        setShowOnboarding(true);
-        setMessage('Successfully connected to Notion! Continue by selecting a database.');
-        setMessageType('success');
-        // Clear location state
-        navigate(location.pathname, { replace: true, state: {} });
-      });
+      // OAuth completed successfully (the settings listener delivers the token)
+      // Open onboarding to continue with database selection
+      setShowOnboarding(true);
+      setMessage('Successfully connected to Notion! Continue by selecting a database.');
+      setMessageType('success');
+      // Clear location state
+      navigate(location.pathname, { replace: true, state: {} });
     }
   }, [user, location.state]);
 
-  const loadSettings = async () => {
+  const loadUsage = async () => {
     if (!user) return;
 
-    setLoading(true);
+    setLoadingUsage(true);
     try {
-      const settings = await getUserSettings(user.uid);
-      if (settings) {
-        setNotionApiKey(settings.notionApiKey || '');
-        setNotionDatabaseId(settings.notionDatabaseId || '');
-        setHasNotionSetup(!!settings.notionApiKey && !!settings.notionDatabaseId);
-        setUserSettings(settings);
-        setProteinGoal(settings.proteinGoal || 150);
-        setCalorieLimit(settings.calorieLimit || 2000);
-      }
+      setAiUsageToday(await getTodayAIUsage(user.uid));
+      setFieldAccuracy(getFieldAccuracy(await getUserCorrections(user.uid)));
     } catch (error) {
-      console.error('Error loading settings:', error);
+      console.error('Error loading AI usage:', error);
     } finally {
-      setLoading(false);
+      setLoadingUsage(false);
     }
   };
 
-  const handleDashboardSettingsSave = (updatedSettings: UserSettings) => {
-    setUserSettings(updatedSettings);
+  const handleDashboardSettingsSave = () => {
     setShowDashboardSettings(false);
-    loadSettings(); // Reload to refresh UI
   };
 
   const handleOpenNotionIntegrations = () => {
@@ -209,13 +243,13 @@ export default function Settings() {
       await saveUserSettings(user.uid, {
         proteinGoal,
         calorieLimit,
+        fieldGoals: Object.fromEntries(
+          Object.entries(fieldGoals).filter(([, goal]) => goal.target > 0)
+        ),
       });
 
       setMessageType('success');
       setMessage('Goals and limits saved successfully!');
-
-      // Reload settings to update userSettings state
-      await loadSettings();
     } catch (error: any) {
       setMessageType('error');
       setMessage(error.message || 'Failed to save goals');
@@ -224,6 +258,38 @@ export default function Settings() {
     }
   };
 
+  const handleSaveAISettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (aiProvider === 'openai-compatible' && (!aiBaseUrl.trim() || !aiModel.trim())) {
+      setMessageType('error');
+      setMessage('An OpenAI-compatible provider needs a base URL and model.');
+      return;
+    }
+
+    setSaving(true);
+    setMessage('');
+
+    try {
+      await saveUserSettings(user.uid, {
+        geminiApiKey: geminiApiKey.trim(),
+        aiProvider,
+        aiModel: aiModel.trim(),
+        aiBaseUrl: aiBaseUrl.trim(),
+        aiApiKey: aiApiKey.trim(),
+      });
+
+      setMessageType('success');
+      setMessage('AI settings saved successfully!');
+    } catch (error) {
+      setMessageType('error');
+      setMessage((error as Error).message || 'Failed to save AI settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <div className="settings-container">
       <header className="settings-header">
@@ -363,7 +429,7 @@ export default function Settings() {
             <section className="settings-section">
               <h2>Goals & Limits</h2>
               <p className="section-description">
-                Set your daily protein goal and calorie limit to track progress and streaks.
+                Set your daily protein goal, calorie limit, and goals for any other field to track progress and streaks.
               </p>
               <form onSubmit={handleSaveGoals} className="goals-form">
                 <div className="form-group">
@@ -394,6 +460,53 @@ export default function Settings() {
                   <p className="input-hint">Maximum calories you want to consume daily</p>
                 </div>
 
+                {goalFields.length > 0 && (
+                  <div className="form-group">
+                    <label>Other Daily Goals</label>
+                    {goalFields.map((field) => {
+                      const goal = fieldGoals[field.id] || { target: 0, direction: 'min' };
+                      return (
+                        <div key={field.id} className="field-goal-row">
+                          <span className="field-goal-name">
+                            {field.name}{field.unit ? ` (${field.unit})` : ''}
+                          </span>
+                          <select
+                            value={goal.direction}
+                            onChange={(e) =>
+                              setFieldGoals({
+                                ...fieldGoals,
+                                [field.id]: { ...goal, direction: e.target.value as FieldGoal['direction'] },
+                              })
+                            }
+                            className="input"
+                            aria-label={`${field.name} goal type`}
+                          >
+                            <option value="min">At least</option>
+                            <option value="max">At most</option>
+                          </select>
+                          <input
+                            type="number"
+                            value={goal.target || ''}
+                            onChange={(e) =>
+                              setFieldGoals({
+                                ...fieldGoals,
+                                [field.id]: { ...goal, target: Number(e.target.value) },
+                              })
+                            }
+                            placeholder="No goal"
+                            min="0"
+                            className="input"
+                            aria-label={`${field.name} daily target`}
+                          />
+                        </div>
+                      );
+                    })}
+                    <p className="input-hint">
+                      Goals appear on your dashboard. Use "At most" for limits like sodium or sugar; leave a target empty for no goal.
+                    </p>
+                  </div>
+                )}
+
                 <div className="form-actions">
                   <button type="submit" className="btn btn-primary" disabled={saving}>
                     {saving ? 'Saving...' : 'Save Goals'}
@@ -402,6 +515,161 @@ export default function Settings() {
               </form>
             </section>
 
+            {/* AI Analysis Section */}
+            <section className="settings-section">
+              <h2>AI Analysis</h2>
+              <p className="section-description">
+                Choose which AI analyzes your entries. Gemini runs on our servers.
+                {aiProvider === 'gemini' && (settings?.geminiApiKey
+                  ? ' Your own API key is used, so there is no daily limit.'
+                  : ` You have used ${aiUsageToday} analyses today.`)}
+              </p>
+              <form onSubmit={handleSaveAISettings} className="goals-form">
+                <div className="form-group">
+                  <label htmlFor="aiProvider">Provider</label>
+                  <select
+                    id="aiProvider"
+                    value={aiProvider}
+                    onChange={(e) => setAiProvider(e.target.value as AIProviderId)}
+                    className="input"
+                  >
+                    {AI_PROVIDER_OPTIONS.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {aiProvider !== 'fixture' && (
+                  <div className="form-group">
+                    <label htmlFor="aiModel">Model{aiProvider === 'gemini' && ' (optional)'}</label>
+                    <input
+                      type="text"
+                      id="aiModel"
+                      value={aiModel}
+                      onChange={(e) => setAiModel(e.target.value)}
+                      placeholder={aiProvider === 'gemini' ? 'gemini-2.0-flash' : 'llama3.2-vision'}
+                      className="input"
+                    />
+                    {aiProvider === 'gemini' && (
+                      <p className="input-hint">
+                        Without your own key, only the Flash and Flash-Lite models are available.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {aiProvider === 'gemini' && (
+                  <div className="form-group">
+                    <label htmlFor="geminiApiKey">Your Gemini API Key (optional)</label>
+                    <input
+                      type="password"
+                      id="geminiApiKey"
+                      value={geminiApiKey}
+                      onChange={(e) => setGeminiApiKey(e.target.value)}
+                      placeholder="AIza..."
+                      className="input"
+                    />
+                    <p className="input-hint">
+                      Bring your own key to skip the daily limit. It is only used by our servers when calling Gemini.
+                    </p>
+                  </div>
+                )}
+
+                {aiProvider === 'openai-compatible' && (
+                  <>
+                    <div className="form-group">
+                      <label htmlFor="aiBaseUrl">Base URL</label>
+                      <input
+                        type="url"
+                        id="aiBaseUrl"
+                        value={aiBaseUrl}
+                        onChange={(e) => setAiBaseUrl(e.target.value)}
+                        placeholder="http://localhost:11434/v1"
+                        className="input"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label htmlFor="aiApiKey">API Key (optional)</label>
+                      <input
+                        type="password"
+                        id="aiApiKey"
+                        value={aiApiKey}
+                        onChange={(e) => setAiApiKey(e.target.value)}
+                        placeholder="sk-..."
+                        className="input"
+                      />
+                      <p className="input-hint">
+                        Requests go directly from your browser to this endpoint, so it must allow CORS.
+                      </p>
+                    </div>
+                  </>
+                )}
+
+                {aiProvider === 'fixture' && (
+                  <p className="input-hint">
+                    Replays recorded analyses offline. Useful for development - estimates are not real.
+                  </p>
+                )}
+
+                <div className="form-actions">
+                  <button type="submit" className="btn btn-primary" disabled={saving}>
+                    {saving ? 'Saving...' : 'Save AI Settings'}
+                  </button>
+                </div>
+              </form>
+            </section>
+
+            {/* AI Accuracy Section */}
+            {fieldAccuracy.length > 0 && (
+              <section className="settings-section">
+                <h2>AI Accuracy</h2>
+                <p className="section-description">
+                  How far the AI's estimates were from the values you saved, on average across your
+                  recent entries. Your corrections are used to improve estimates for similar meals.
+                </p>
+                <table className="accuracy-table">
+                  <thead>
+                    <tr>
+                      <th>Field</th>
+                      <th>Avg. error</th>
+                      <th>Tendency</th>
+                      <th>Corrected</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fieldAccuracy.map((accuracy) => (
+                      <tr key={accuracy.fieldId}>
+                        <td>{accuracy.fieldId.replace(/_/g, ' ')}</td>
+                        <td>±{accuracy.meanAbsoluteError}</td>
+                        <td>
+                          {accuracy.meanError > 0 && `Overestimates by ${accuracy.meanError}`}
+                          {accuracy.meanError < 0 && `Underestimates by ${-accuracy.meanError}`}
+                          {accuracy.meanError === 0 && 'No bias'}
+                        </td>
+                        <td>
+                          {accuracy.correctedEntries} of {accuracy.entries}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            {/* Backfill Section */}
+            {user && (
+              <section className="settings-section">
+                <h2>Fill In New Fields</h2>
+                <p className="section-description">
+                  Re-analyze earlier entries for AI fields you added to your schema after logging them.
+                  Only missing values are filled in - values you've already saved are never changed.
+                </p>
+                <FieldBackfill userId={user.uid} />
+              </section>
+            )}
+
             {/* Show onboarding modal when triggered */}
             {showOnboarding && (
               <NotionOnboarding
@@ -413,10 +681,10 @@ export default function Settings() {
             )}
 
             {/* Show dashboard settings modal when triggered */}
-            {showDashboardSettings && user && userSettings && (
+            {showDashboardSettings && user && settings && (
               <DashboardSettings
                 userId={user.uid}
-                settings={userSettings}
+                settings={settings}
                 onSave={handleDashboardSettingsSave}
                 onClose={() => setShowDashboardSettings(false)}
               />
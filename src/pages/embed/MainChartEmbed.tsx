@@ -19,8 +19,14 @@ import {
 } from 'recharts';
 import EmbedLayout from './EmbedLayout';
 import { fetchEmbedData } from '../../services/embed';
-import { aggregateDailyMacros } from '../../utils/dashboardData';
-import type { FoodEntry } from '../../types';
+import {
+  aggregateDailyMacros,
+  getChartFields,
+  getDefaultVisibleFields,
+  formatFieldLabel,
+  CHART_LINE_COLORS,
+} from '../../utils/dashboardData';
+import type { DatabaseSchema, FoodEntry } from '../../types';
 import '../../components/Dashboard.css';
 
 export default function MainChartEmbed() {
@@ -28,6 +34,7 @@ export default function MainChartEmbed() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [entries, setEntries] = useState<FoodEntry[]>([]);
+  const [schema, setSchema] = useState<DatabaseSchema | null>(null);
 
   useEffect(() => {
     if (!token) {
@@ -40,6 +47,7 @@ export default function MainChartEmbed() {
       try {
         const data = await fetchEmbedData(token, 'main-chart');
         setEntries(data.entries);
+        setSchema(data.schema);
       } catch (err: any) {
         console.error('Error loading embed data:', err);
         setError(err.message || 'Failed to load chart');
@@ -52,9 +60,16 @@ export default function MainChartEmbed() {
     // Removed auto-refresh polling - data loads from Firestore which is fast
   }, [token]);
 
+  // Same fields the dashboard charts before any are toggled
+  const chartFields = useMemo(() => {
+    const fields = getChartFields(schema);
+    const visible = getDefaultVisibleFields(fields);
+    return fields.filter((f) => visible.includes(f.id));
+  }, [schema]);
+
   const dailyData = useMemo(() => {
-    return aggregateDailyMacros(entries, 7);
-  }, [entries]);
+    return aggregateDailyMacros(entries, 7, chartFields.map((f) => f.id));
+  }, [entries, chartFields]);
 
   if (loading) {
     return (
@@ -103,38 +118,18 @@ export default function MainChartEmbed() {
                 wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}
                 iconType="line"
               />
-              <Line
-                type="monotone"
-                dataKey="calories"
-                stroke="#000000"
-                strokeWidth={2}
-                dot={{ r: 3 }}
-                name="Calories"
-              />
-              <Line
-                type="monotone"
-                dataKey="protein"
-                stroke="#666666"
-                strokeWidth={2}
-                dot={{ r: 3 }}
-                name="Protein (g)"
-              />
-              <Line
-                type="monotone"
-                dataKey="carbs"
-                stroke="#999999"
-                strokeWidth={2}
-                dot={{ r: 3 }}
-                name="Carbs (g)"
-              />
-              <Line
-                type="monotone"
-                dataKey="fat"
-                stroke="#cccccc"
-                strokeWidth={2}
-                dot={{ r: 3 }}
-                name="Fat (g)"
-              />
+              {chartFields.map((field, index) => (
+                <Line
+                  key={field.id}
+                  type="monotone"
+                  dataKey={field.id}
+                  stroke={CHART_LINE_COLORS[index % CHART_LINE_COLORS.length]}
+                  strokeDasharray={index >= CHART_LINE_COLORS.length ? '5 3' : undefined}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  name={formatFieldLabel(field)}
+                />
+              ))}
             </LineChart>
           </ResponsiveContainer>
         ) : (
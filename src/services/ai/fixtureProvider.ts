@@ -0,0 +1,156 @@
+/**
+ * Fixture AI Provider
+ *
+ * Deterministic, network-free provider that replays recorded food fixtures.
+ * Foods are matched from the description, then a response is synthesized that
+ * conforms to whatever response schema was requested, so the add-entry flow can
+ * be developed and tested without any AI backend.
+ */
+
+import type { Schema } from '@google/generative-ai';
+import { DEFAULT_FOOD_FIXTURE, FOOD_FIXTURES, type FoodFixture } from './fixtures';
+import type { AIProvider, AIGenerateRequest } from './types';
+import type { ConfidenceLevel } from '../../types';
+
+/**
+ * Relative half-width of the replayed range for each confidence level
+ */
+const RANGE_SPREAD: Record<ConfidenceLevel, number> = { high: 0.1, medium: 0.25, low: 0.5 };
+
+/**
+ * Values available to fill schema properties, keyed by property name
+ */
+type FixtureContext = Record<string, string | number>;
+
+/**
+ * Find fixtures mentioned in a description, in the order they appear
+ */
+export function matchFoodFixtures(text: string): FoodFixture[] {
+  const normalized = text.toLowerCase();
+
+  const matches = FOOD_FIXTURES
+    .map((fixture) => {
+      const positions = fixture.keywords
+        .map((keyword) => normalized.search(new RegExp(`\\b${keyword}\\b`)))
+        .filter((position) => position >= 0);
+      return { fixture, position: positions.length > 0 ? Math.min(...positions) : -1 };
+    })
+    .filter((match) => match.position >= 0)
+    .sort((a, b) => a.position - b.position)
+    .map((match) => match.fixture);
+
+  return matches.length > 0 ? matches : [DEFAULT_FOOD_FIXTURE];
+}
+
+/**
+ * Build the context for a single fixture (used for array entries such as items)
+ */
+function getFixtureContext(fixture: FoodFixture): FixtureContext {
+  return {
+    ...fixture.values,
+    name: fixture.name,
+    title: fixture.name,
+    description: fixture.name,
+    portion: fixture.portion,
+    summary: `Fixture replay: ${fixture.name} (${fixture.portion}).`,
+    confidence: fixture.confidence || 'medium',
+  };
+}
+
+/**
+ * Build the context for an estimate object (confidence and range) around a value
+ */
+function getEstimateContext(value: number, confidence: ConfidenceLevel): FixtureContext {
+  const spread = value * RANGE_SPREAD[confidence];
+  return {
+    confidence,
+    low: Math.round((value - spread) * 10) / 10,
+    high: Math.round((value + spread) * 10) / 10,
+  };
+}
+
+/**
+ * Build the meal-level context: combined names and summed values
+ */
+function getMealContext(fixtures: FoodFixture[]): FixtureContext {
+  const names = fixtures.map((f) => f.name);
+  const context: FixtureContext = {
+    name: names.slice(0, 3).join(' & '),
+    title: names.slice(0, 3).join(' & '),
+    portion: '1 serving',
+    summary: `Fixture replay: ${names.join(', ')}.`,
+    // Nutrition label responses describe a single product
+    productName: names[0],
+    servingSize: fixtures[0].portion,
+  };
+
+  fixtures.forEach((fixture) => {
+    Object.entries(fixture.values).forEach(([fieldId, value]) => {
+      context[fieldId] = Math.round(((Number(context[fieldId]) || 0) + value) * 10) / 10;
+    });
+  });
+
+  return context;
+}
+
+/**
+ * Synthesize a value that conforms to a schema node
+ * @param schema - Schema node to fill
+ * @param key - Property name of this node in its parent object
+ * @param context - Values for the current level
+ * @param fixtures - Matched fixtures (one array entry is produced per fixture)
+ */
+function synthesize(schema: Schema, key: string, context: FixtureContext, fixtures: FoodFixture[]): unknown {
+  const contextValue = context[key];
+
+  switch (schema.type) {
+    case 'object': {
+      // An object under a numeric key describes that number (e.g., its confidence and range)
+      const objectContext = typeof contextValue === 'number'
+        ? getEstimateContext(contextValue, (context.confidence as ConfidenceLevel) || 'medium')
+        : context;
+
+      const value: Record<string, unknown> = {};
+      Object.entries(schema.properties).forEach(([propertyKey, propertySchema]) => {
+        value[propertyKey] = synthesize(propertySchema, propertyKey, objectContext, fixtures);
+      });
+      return value;
+    }
+
+    // One entry per fixture; arrays nested inside an entry (e.g., a split meal's items) hold just that fixture
+    case 'array':
+      return schema.items.type === 'object'
+        ? fixtures.map((fixture) => synthesize(schema.items, key, getFixtureContext(fixture), [fixture]))
+        : [];
+
+    case 'number':
+    case 'integer':
+      if (typeof contextValue === 'number') return contextValue;
+      return schema.nullable ? null : 0;
+
+    case 'boolean':
+      return schema.nullable ? null : false;
+
+    default:
+      if ('enum' in schema && schema.enum) {
+        return schema.enum.includes(String(contextValue)) ? contextValue : schema.enum[0];
+      }
+      if (typeof contextValue === 'string') return contextValue;
+      return schema.nullable ? null : '';
+  }
+}
+
+/**
+ * Create a fixture provider
+ */
+export function createFixtureProvider(): AIProvider {
+  return {
+    id: 'fixture',
+
+    async generate(request: AIGenerateRequest): Promise<string> {
+      const fixtures = matchFoodFixtures(request.text);
+      const response = synthesize(request.responseSchema, '', getMealContext(fixtures), fixtures);
+      return JSON.stringify(response);
+    },
+  };
+}
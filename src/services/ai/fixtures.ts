@@ -0,0 +1,124 @@
+/**
+ * AI Fixtures
+ *
+ * Recorded food analyses replayed by the fixture provider for offline development.
+ * Values are per listed portion; field IDs match the schema templates.
+ */
+
+import type { ConfidenceLevel } from '../../types';
+
+/**
+ * A recorded food analysis
+ */
+export interface FoodFixture {
+  keywords: string[]; // whole words that select this fixture from the description
+  name: string;
+  portion: string;
+  values: Record<string, number>; // nutrient values keyed by field ID
+  confidence?: ConfidenceLevel; // how certain the replayed estimates are (default: medium)
+}
+
+/**
+ * Fallback used when the description matches no fixture (or there is only a photo)
+ */
+export const DEFAULT_FOOD_FIXTURE: FoodFixture = {
+  keywords: [],
+  name: 'Mixed Meal',
+  portion: '1 plate',
+  values: { protein: 25, carbs: 50, fat: 18, calories: 470, net_carbs: 44 },
+  confidence: 'low',
+};
+
+/**
+ * Recorded fixtures, matched in description order
+ */
+export const FOOD_FIXTURES: FoodFixture[] = [
+  {
+    keywords: ['chicken'],
+    name: 'Grilled Chicken Breast',
+    portion: '150 g',
+    values: { protein: 46, carbs: 0, fat: 5, calories: 248, net_carbs: 0 },
+  },
+  {
+    keywords: ['rice'],
+    name: 'White Rice',
+    portion: '1 cup cooked',
+    values: { protein: 4, carbs: 45, fat: 0.4, calories: 205, net_carbs: 44 },
+  },
+  {
+    keywords: ['coke', 'cola', 'soda'],
+    name: 'Coca-Cola',
+    portion: '1 can (330 ml)',
+    values: { protein: 0, carbs: 35, fat: 0, calories: 139, net_carbs: 35 },
+    confidence: 'high',
+  },
+  {
+    keywords: ['oatmeal', 'oats', 'porridge'],
+    name: 'Oatmeal',
+    portion: '1 cup cooked',
+    values: { protein: 6, carbs: 27, fat: 3.6, calories: 158, net_carbs: 23 },
+  },
+  {
+    keywords: ['banana'],
+    name: 'Banana',
+    portion: '1 medium',
+    values: { protein: 1.3, carbs: 27, fat: 0.4, calories: 105, net_carbs: 24 },
+  },
+  {
+    keywords: ['coffee', 'latte'],
+    name: 'Coffee with Milk',
+    portion: '1 mug',
+    values: { protein: 2, carbs: 3, fat: 2, calories: 38, net_carbs: 3 },
+  },
+  {
+    keywords: ['burrito'],
+    name: 'Chicken Burrito',
+    portion: '1 burrito',
+    values: { protein: 38, carbs: 85, fat: 24, calories: 680, net_carbs: 73 },
+    confidence: 'low',
+  },
+  {
+    keywords: ['salad'],
+    name: 'Garden Salad',
+    portion: '2 cups',
+    values: { protein: 3, carbs: 10, fat: 7, calories: 110, net_carbs: 6 },
+    confidence: 'low',
+  },
+  {
+    keywords: ['egg', 'eggs'],
+    name: 'Scrambled Eggs',
+    portion: '2 large eggs',
+    values: { protein: 13, carbs: 2, fat: 15, calories: 200, net_carbs: 2 },
+  },
+  {
+    keywords: ['toast', 'bread'],
+    name: 'Whole Wheat Toast',
+    portion: '2 slices',
+    values: { protein: 8, carbs: 24, fat: 2, calories: 160, net_carbs: 20 },
+  },
+  {
+    keywords: ['salmon'],
+    name: 'Baked Salmon',
+    portion: '150 g',
+    values: { protein: 34, carbs: 0, fat: 18, calories: 310, net_carbs: 0 },
+  },
+  {
+    keywords: ['yogurt', 'yoghurt'],
+    name: 'Greek Yogurt',
+    portion: '170 g',
+    values: { protein: 17, carbs: 6, fat: 0.7, calories: 100, net_carbs: 6 },
+  },
+  {
+    keywords: ['pizza'],
+    name: 'Pepperoni Pizza',
+    portion: '2 slices',
+    values: { protein: 24, carbs: 66, fat: 26, calories: 600, net_carbs: 62 },
+  },
+  {
+    keywords: ['shake', 'protein shake'],
+    name: 'Protein Shake',
+    portion: '1 scoop in water',
+    values: { protein: 24, carbs: 3, fat: 1.5, calories: 120, net_carbs: 2 },
+    confidence: 'high',
+  },
+];
@@ -0,0 +1,67 @@
+/**
+ * Gemini AI Provider
+ *
+ * Calls Gemini through the analyzeFood Cloud Function, which holds the API key
+ * (or the user's own key), enforces per-user daily quotas, and caches results.
+ */
+
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import app, { auth } from '../../config/firebase';
+import type { AIProvider, AIGenerateRequest } from './types';
+
+/**
+ * Create a Gemini provider
+ * @param model - Optional Gemini model name (the Cloud Function default is used otherwise)
+ */
+export function createGeminiProvider(model?: string): AIProvider {
+  return {
+    id: 'gemini',
+
+    async generate(request: AIGenerateRequest): Promise<string> {
+      // Check if user is authenticated
+      const currentUser = auth.currentUser;
+      if (!currentUser) {
+        throw new Error('You must be logged in to analyze entries. Please sign in and try again.');
+      }
+
+      try {
+        // Ensure auth token is fresh
+        await currentUser.getIdToken();
+
+        const functions = getFunctions(app, 'us-central1');
+        const analyzeFood = httpsCallable(functions, 'analyzeFood');
+        const result = await analyzeFood({
+          prompt: request.prompt,
+          responseSchema: request.responseSchema,
+          images: request.images || [],
+          model: model || null,
+          cache: request.cache ? { ...request.cache, text: request.text } : null,
+        });
+
+        const data = result.data as {
+          responseText: string;
+          usage: { count: number; limit: number } | null;
+          cached?: boolean;
+        };
+        if (data.cached) {
+          console.log('AI analysis served from cache');
+        } else if (data.usage) {
+          console.log(`AI analysis quota: ${data.usage.count}/${data.usage.limit} used today`);
+        }
+        return data.responseText;
+      } catch (error: unknown) {
+        console.error('Error calling analyzeFood:', error);
+
+        const callError = error as { code?: string; message?: string };
+        if (callError.code === 'functions/unauthenticated' || callError.message?.includes('unauthenticated')) {
+          throw new Error('Authentication failed. Please try signing out and signing back in.');
+        } else if (callError.code === 'functions/resource-exhausted' || callError.code === 'functions/permission-denied') {
+          // Quota and invalid-key messages are written for users server-side
+          throw new Error(callError.message);
+        }
+
+        throw new Error('Unable to generate summary. Please try again.');
+      }
+    },
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * AI Provider Registry
+ *
+ * Resolves which AI provider analyzes entries. Selection order:
+ * 1. Per-user settings (UserSettings.aiProvider / aiModel / aiBaseUrl / aiApiKey)
+ * 2. Environment (VITE_AI_PROVIDER / VITE_AI_MODEL / VITE_AI_BASE_URL)
+ * 3. Gemini through the analyzeFood Cloud Function
+ * API keys only come from per-user settings: anything in VITE_* is built into the public
+ * bundle, so an environment key would be handed to every visitor.
+ */
+
+import type { UserSettings } from '../../types';
+import { createFixtureProvider } from './fixtureProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import type { AIProvider, AIProviderConfig, AIProviderId } from './types';
+
+export type {
+  AIProvider,
+  AIProviderConfig,
+  AIProviderId,
+  AIGenerateRequest,
+  AIImageInput,
+  AICacheOptions,
+} from './types';
+
+/**
+ * Provider options for settings UI
+ */
+export const AI_PROVIDER_OPTIONS: { id: AIProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini (hosted)' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible endpoint' },
+  { id: 'fixture', label: 'Offline fixtures (development)' },
+];
+
+/**
+ * Check that a value is a known provider ID
+ */
+function isProviderId(value: unknown): value is AIProviderId {
+  return AI_PROVIDER_OPTIONS.some((option) => option.id === value);
+}
+
+/**
+ * Resolve the provider configuration for a user
+ * @param settings - Optional user settings; environment defaults apply otherwise
+ */
+export function resolveAIProviderConfig(settings?: UserSettings | null): AIProviderConfig {
+  const env = import.meta.env;
+  const envProvider = isProviderId(env.VITE_AI_PROVIDER) ? env.VITE_AI_PROVIDER : 'gemini';
+  const provider = isProviderId(settings?.aiProvider) ? settings!.aiProvider! : envProvider;
+
+  // Per-user connection details only apply to the provider the user selected
+  const userConfig = settings?.aiProvider === provider ? settings : null;
+
+  return {
+    provider,
+    model: userConfig?.aiModel || env.VITE_AI_MODEL || undefined,
+    baseUrl: userConfig?.aiBaseUrl || env.VITE_AI_BASE_URL || undefined,
+    apiKey: userConfig?.aiApiKey || undefined,
+  };
+}
+
+/**
+ * Create the provider for a configuration
+ * @param config - Provider configuration (defaults to the environment configuration)
+ */
+export function getAIProvider(config: AIProviderConfig = resolveAIProviderConfig()): AIProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config);
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      return createGeminiProvider(config.model);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * OpenAI-Compatible AI Provider
+ *
+ * Calls any endpoint implementing the OpenAI /chat/completions API with JSON-schema
+ * structured output - e.g., a local Ollama server at http://localhost:11434/v1.
+ * Requests go straight from the browser, so the endpoint must allow CORS.
+ */
+
+import type { Schema } from '@google/generative-ai';
+import type { AIProvider, AIGenerateRequest, AIProviderConfig } from './types';
+
+/**
+ * Convert a Gemini response schema to standard JSON Schema
+ * Gemini marks optional values with `nullable` and enums with `format: 'enum'`.
+ */
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = {
+    type: schema.nullable ? [schema.type, 'null'] : schema.type,
+  };
+
+  if (schema.description) jsonSchema.description = schema.description;
+
+  if ('enum' in schema && schema.enum) {
+    jsonSchema.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+  }
+
+  if (schema.type === 'array') {
+    jsonSchema.items = toJsonSchema(schema.items);
+    if (schema.minItems !== undefined) jsonSchema.minItems = schema.minItems;
+    if (schema.maxItems !== undefined) jsonSchema.maxItems = schema.maxItems;
+  }
+
+  if (schema.type === 'object') {
+    const properties: Record<string, unknown> = {};
+    Object.entries(schema.properties).forEach(([key, value]) => {
+      properties[key] = toJsonSchema(value);
+    });
+    jsonSchema.properties = properties;
+    jsonSchema.required = schema.required || [];
+    jsonSchema.additionalProperties = false;
+  }
+
+  return jsonSchema;
+}
+
+/**
+ * Create an OpenAI-compatible provider
+ * @param config - Endpoint base URL, model, and optional API key
+ */
+export function createOpenAICompatibleProvider(config: AIProviderConfig): AIProvider {
+  return {
+    id: 'openai-compatible',
+
+    async generate(request: AIGenerateRequest): Promise<string> {
+      if (!config.baseUrl || !config.model) {
+        throw new Error('OpenAI-compatible provider requires a base URL and model');
+      }
+
+      const content: Array<Record<string, unknown>> = [{ type: 'text', text: request.prompt }];
+      (request.images || []).forEach((image) => {
+        content.push({
+          type: 'image_url',
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        });
+      });
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model: config.model,
+            messages: [{ role: 'user', content }],
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'food_analysis', schema: toJsonSchema(request.responseSchema) },
+            },
+          }),
+        });
+      } catch (error) {
+        console.error('Error calling OpenAI-compatible endpoint:', error);
+        throw new Error(`Unable to reach AI endpoint at ${config.baseUrl}`);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('OpenAI-compatible endpoint error:', response.status, errorText);
+        throw new Error(`AI endpoint returned ${response.status}. Please check the model and base URL.`);
+      }
+
+      const data = await response.json();
+      const message = data.choices?.[0]?.message?.content;
+      if (typeof message !== 'string') {
+        throw new Error('AI endpoint returned no message content');
+      }
+      return message;
+    },
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * AI Provider Types
+ *
+ * Shared interfaces for the pluggable AI provider layer used by generateFoodSummary.
+ */
+
+import type { ObjectSchema } from '@google/generative-ai';
+
+/**
+ * Available provider IDs
+ * - gemini: Gemini through the analyzeFood Cloud Function (default)
+ * - openai-compatible: any OpenAI-style /chat/completions endpoint (e.g., a local Ollama server)
+ * - fixture: deterministic offline replay of recorded fixtures (no network)
+ */
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+/**
+ * Provider selection and connection details
+ */
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  model?: string; // provider-specific model name (e.g., 'gemini-2.0-flash', 'llama3.2-vision')
+  baseUrl?: string; // OpenAI-compatible endpoint root (e.g., 'http://localhost:11434/v1')
+  apiKey?: string; // OpenAI-compatible bearer token, if the endpoint needs one
+}
+
+/**
+ * Image attached to a generation request
+ */
+export interface AIImageInput {
+  data: string; // base64-encoded bytes (no data: prefix)
+  mimeType: string;
+}
+
+/**
+ * Cache key inputs for a generation request
+ * Backend providers cache results keyed by a hash of the task, normalized text,
+ * image bytes, field set, and corrections, so identical inputs return identical results.
+ */
+export interface AICacheOptions {
+  task: 'meal' | 'label' | 'meal-log' | 'backfill' | 'menu'; // what the prompt asks for (different tasks never share results)
+  fieldIds: string[]; // fields in the response schema
+  context?: string; // other inputs the result depends on (e.g., today's date for relative days)
+  corrections?: string; // past-corrections section of the prompt, so new corrections change the result
+  promptVersion?: string; // version of the prompt, so a changed prompt never reuses older results
+  forceRefresh?: boolean; // skip the cached result and replace it with a fresh one
+}
+
+/**
+ * A single structured-output generation request
+ */
+export interface AIGenerateRequest {
+  prompt: string;
+  responseSchema: ObjectSchema; // structured-output schema the JSON response must match
+  text: string; // the user's original description (used by offline providers and the cache key)
+  images?: AIImageInput[]; // photos in the order the user added them
+  cache?: AICacheOptions; // omit to never use the cache
+}
+
+/**
+ * AI provider interface
+ * Providers only produce raw JSON text - parsing and validation stay in generateFoodSummary.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  generate(request: AIGenerateRequest): Promise<string>;
+}
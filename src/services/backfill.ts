@@ -0,0 +1,238 @@
+/**
+ * Field Backfill Service
+ *
+ * Re-analyzes saved entries for AI fields added to their schema after they were
+ * logged (e.g., a new "Fiber" field). Entries record the AI fields they were analyzed
+ * for (analyzedFieldIds), so fields the AI left empty or the user cleared are never
+ * asked for again; values from earlier analyses and reviews are never overwritten.
+ * Only AI estimates are backfilled - labels, barcodes, My Foods, recipes, and menus
+ * came from real data that AI guesses shouldn't be mixed into.
+ * Results are written with updateEntry and to the entry's linked Notion page.
+ */
+
+import { getEntry, updateEntry } from './firestore';
+import { backfillEntryFields, getSchemaAIFields } from './gemini';
+import { updateNotionEntry } from './notion';
+import type { AIImageInput, AIProviderConfig } from './ai';
+import { fetchPhotoForAI, getEntryPhotos } from '../utils/photos';
+import type { DatabaseSchema, FieldConfig, FieldEstimate, FoodEntry } from '../types';
+
+/**
+ * Entries are abandoned after this many failures in a row (e.g., the daily quota ran out)
+ */
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+/**
+ * An entry with the AI fields added to its schema since it was analyzed
+ */
+export interface BackfillCandidate {
+  entry: FoodEntry;
+  missingFields: FieldConfig[];
+}
+
+/**
+ * Progress of a backfill run
+ */
+export interface BackfillProgress {
+  total: number;
+  done: number; // entries processed (updated, skipped, or failed)
+  updated: number;
+  failed: number;
+  notionFailed: number; // updated in Firestore, but the Notion page update failed
+  lastError?: string;
+}
+
+/**
+ * Options for runFieldBackfill
+ */
+export interface BackfillOptions {
+  providerConfig?: AIProviderConfig;
+  notionApiKey?: string; // Notion pages are only updated when set
+  onProgress?: (progress: BackfillProgress) => void;
+  signal?: AbortSignal; // stops the run after the current entry
+}
+
+/**
+ * Check whether an entry has a value for a field (0, false, and empty lists count as values)
+ */
+function hasFieldValue(entry: FoodEntry, fieldId: string): boolean {
+  const value = entry.fieldValues?.[fieldId];
+  return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * Check whether the AI was already asked for a field on an entry
+ * Entries logged before analyzedFieldIds was recorded count every field they have a key
+ * for - including values the AI left empty or the user cleared.
+ */
+function wasAnalyzed(entry: FoodEntry, fieldId: string): boolean {
+  if (entry.analyzedFieldIds) return entry.analyzedFieldIds.includes(fieldId);
+  return !!entry.fieldValues && fieldId in entry.fieldValues;
+}
+
+/**
+ * Get the AI fields added to a schema since an entry was analyzed
+ * Only the schema's own fields count - the default macros analyses add when a schema
+ * lacks them are not tracked by the user, so they are never backfilled.
+ */
+export function getMissingFields(entry: FoodEntry, schema: DatabaseSchema): FieldConfig[] {
+  return getSchemaAIFields(schema).filter(
+    (field) => !wasAnalyzed(entry, field.id) && !hasFieldValue(entry, field.id)
+  );
+}
+
+/**
+ * Find the entries of a schema that are missing AI fields
+ * Entries logged with another schema are skipped, as are entries whose values didn't come
+ * from an AI estimate and entries with nothing to analyze.
+ */
+export function findBackfillCandidates(entries: FoodEntry[], schema: DatabaseSchema): BackfillCandidate[] {
+  return entries
+    .filter((entry) => !entry.schemaId || entry.schemaId === schema.id)
+    .filter((entry) => !entry.source || entry.source === 'estimate')
+    .filter((entry) => !!(entry.text?.trim() || entry.title?.trim() || getEntryPhotos(entry).length > 0))
+    .map((entry) => ({ entry, missingFields: getMissingFields(entry, schema) }))
+    .filter((candidate) => candidate.missingFields.length > 0);
+}
+
+/**
+ * Count missing values per field across candidates
+ * @returns Field names with the number of entries missing each, most missing first
+ */
+export function countMissingFields(candidates: BackfillCandidate[]): { field: FieldConfig; count: number }[] {
+  const counts = new Map<string, { field: FieldConfig; count: number }>();
+  candidates.forEach(({ missingFields }) => {
+    missingFields.forEach((field) => {
+      const current = counts.get(field.id) || { field, count: 0 };
+      counts.set(field.id, { field, count: current.count + 1 });
+    });
+  });
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Download an entry's photos for the AI
+ * Photos that can't be downloaded are left out, so the entry is analyzed from its text.
+ */
+async function fetchEntryImages(entry: FoodEntry): Promise<AIImageInput[]> {
+  const images = await Promise.all(
+    getEntryPhotos(entry).map((photo) =>
+      fetchPhotoForAI(photo.url).catch((error) => {
+        console.error('Failed to download photo for backfill:', error);
+        return null;
+      })
+    )
+  );
+  return images.filter((image): image is AIImageInput => image !== null);
+}
+
+/**
+ * Fill one entry's missing fields
+ * The entry is re-read first, so values added since the candidates were found are kept.
+ * @returns The values written and the entry's Notion page, or null if the entry no longer needs a backfill
+ */
+async function backfillEntry(
+  entryId: string,
+  schema: DatabaseSchema,
+  options: BackfillOptions
+): Promise<{ values: Record<string, unknown>; notionPageId?: string } | null> {
+  const entry = await getEntry(entryId);
+  if (!entry) return null;
+
+  const missingFields = getMissingFields(entry, schema);
+  if (missingFields.length === 0) return null;
+
+  const result = await backfillEntryFields(
+    {
+      text: entry.text || entry.fieldValues?.description || '',
+      title: entry.title || entry.fieldValues?.name || '',
+      items: entry.items || [],
+    },
+    await fetchEntryImages(entry),
+    missingFields,
+    { providerConfig: options.providerConfig }
+  );
+
+  // Every schema AI field now counts as analyzed, even ones the AI left empty, so they aren't asked for again
+  const analyzedFieldIds = [
+    ...new Set([...(entry.analyzedFieldIds || []), ...getSchemaAIFields(schema).map((field) => field.id)]),
+  ];
+
+  // Only the missing fields are written
+  const newValues: Record<string, unknown> = {};
+  const newEstimates: Record<string, FieldEstimate> = {};
+  missingFields.forEach((field) => {
+    const value = result.extractedFields[field.id];
+    if (value !== undefined && value !== null) newValues[field.id] = value;
+    if (result.fieldEstimates[field.id]) newEstimates[field.id] = result.fieldEstimates[field.id];
+  });
+  if (Object.keys(newValues).length === 0) {
+    await updateEntry(entry.id, { analyzedFieldIds });
+    return null;
+  }
+
+  const updates: Partial<FoodEntry> = {
+    fieldValues: { ...entry.fieldValues, ...newValues },
+    fieldEstimates: { ...entry.fieldEstimates, ...newEstimates },
+    analyzedFieldIds,
+  };
+  if (result.items) {
+    updates.items = result.items;
+  }
+
+  await updateEntry(entry.id, updates);
+  return { values: newValues, notionPageId: entry.notionPageId };
+}
+
+/**
+ * Re-analyze entries for their missing AI fields, one entry at a time
+ * @param candidates - Entries to backfill (from findBackfillCandidates)
+ * @param schema - Schema the missing fields come from
+ * @param options - Provider, Notion connection, progress callback, and cancellation
+ * @returns Final progress
+ */
+export async function runFieldBackfill(
+  candidates: BackfillCandidate[],
+  schema: DatabaseSchema,
+  options: BackfillOptions = {}
+): Promise<BackfillProgress> {
+  const progress: BackfillProgress = { total: candidates.length, done: 0, updated: 0, failed: 0, notionFailed: 0 };
+  let consecutiveFailures = 0;
+
+  options.onProgress?.({ ...progress });
+
+  for (const { entry } of candidates) {
+    if (options.signal?.aborted) break;
+
+    try {
+      const written = await backfillEntry(entry.id, schema, options);
+      consecutiveFailures = 0;
+
+      if (written) {
+        progress.updated++;
+
+        if (options.notionApiKey && written.notionPageId) {
+          try {
+            await updateNotionEntry(options.notionApiKey, written.notionPageId, schema, written.values);
+          } catch (error) {
+            // The entry itself was updated - Firestore is the source of truth
+            console.error('Failed to update Notion page during backfill:', error);
+            progress.notionFailed++;
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Failed to backfill entry:', entry.id, error);
+      progress.failed++;
+      progress.lastError = error instanceof Error ? error.message : 'Failed to analyze entry';
+      consecutiveFailures++;
+    }
+
+    progress.done++;
+    options.onProgress?.({ ...progress });
+
+    if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) break;
+  }
+
+  return progress;
+}
@@ -0,0 +1,55 @@
+/**
+ * Data Cache Service
+ *
+ * Session cache for Firestore reads, keyed like 'recipes/<userId>':
+ * - Concurrent reads of the same key share one request
+ * - Writes invalidate the keys they affect (see firestore.ts)
+ * - Live listeners store what they receive (see useUserData), so cached reads stay current
+ */
+
+const cache = new Map<string, Promise<unknown>>();
+
+/**
+ * Read through the cache
+ * A failed read is not cached, so the next call tries again.
+ * @param key - Cache key (collection kind, then ID, e.g., 'schema/abc123')
+ * @param read - Reads the value from Firestore on a cache miss
+ * @returns The cached or freshly read value
+ */
+export function cachedRead<T>(key: string, read: () => Promise<T>): Promise<T> {
+  const cached = cache.get(key);
+  if (cached) return cached as Promise<T>;
+
+  const request = read().catch((error: unknown) => {
+    if (cache.get(key) === request) cache.delete(key);
+    throw error;
+  });
+  cache.set(key, request);
+  return request;
+}
+
+/**
+ * Store a value received elsewhere (e.g., from a snapshot listener)
+ * @param key - Cache key
+ * @param value - Current value
+ */
+export function setCachedValue<T>(key: string, value: T): void {
+  cache.set(key, Promise.resolve(value));
+}
+
+/**
+ * Drop cached values so the next read goes to Firestore
+ * @param kind - Collection kind (drops every key of that kind, e.g., 'recipes') or a full key
+ */
+export function invalidateCache(kind: string): void {
+  [...cache.keys()]
+    .filter((key) => key === kind || key.startsWith(`${kind}/`))
+    .forEach((key) => cache.delete(key));
+}
+
+/**
+ * Drop everything (e.g., on sign-out)
+ */
+export function clearCache(): void {
+  cache.clear();
+}
@@ -6,8 +6,14 @@
  */
 
 import type { FoodEntry, UserSettings, DatabaseSchema } from '../types';
-import { getUserSettings, getActiveSchema, getUserEntries } from './firestore';
+import {
+  getUserSettings,
+  getActiveSchema,
+  getUserEntriesInRange,
+  getUserEntriesSinceLastGap,
+} from './firestore';
 import type { ChartType } from '../utils/embedTokens';
+import { getHistoryStart } from '../utils/dashboardData';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import app from '../config/firebase';
 
@@ -17,11 +23,21 @@ export interface EmbedData {
   schema: DatabaseSchema | null;
 }
 
+// Days of entries each chart needs, before today (0 = today only; null = back to the last day
+// without entries, however long the streak runs)
+const CHART_HISTORY_DAYS: Record<ChartType, number | null> = {
+  'main-chart': 7,
+  'protein-goal': 0,
+  'calorie-limit': 0,
+  'protein-streak': null,
+  'calorie-streak': null,
+};
+
 /**
  * Fetch data for an embed page by validating token
  * @param token - Embed token
  * @param chartType - Type of chart being embedded
- * @returns Embed data including entries, settings, and schema
+ * @returns Embed data including the chart's entries, settings, and schema
  */
 export async function fetchEmbedData(
   token: string,
@@ -49,11 +65,14 @@ export async function fetchEmbedData(
   // Load schema
   const schema = await getActiveSchema(userId);
 
-  // Load entries from Firestore (source of truth)
+  // Load the entries the chart needs from Firestore (source of truth)
   let entries: FoodEntry[] = [];
 
   try {
-    entries = await getUserEntries(userId);
+    const days = CHART_HISTORY_DAYS[chartType];
+    entries = days === null
+      ? await getUserEntriesSinceLastGap(userId)
+      : await getUserEntriesInRange(userId, getHistoryStart(days));
   } catch (error: any) {
     console.error('Error loading entries from Firestore for embed:', error);
     entries = [];
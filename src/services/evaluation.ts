@@ -0,0 +1,257 @@
+/**
+ * AI Evaluation Service
+ *
+ * Scores generateFoodSummary against a labeled dataset of descriptions and photos
+ * with ground-truth nutrition, so prompt changes and model swaps can be compared:
+ * - Per-field mean absolute error (and signed error, to show bias)
+ * - Parse failure rate (responses that fail schema validation)
+ * - Title quality (expected keywords present, sensible length)
+ *
+ * Runs in Node through `npm run eval` (scripts/eval.mjs). With the fixture provider
+ * no network is needed, so the harness itself can be checked anywhere.
+ */
+
+import { AIResponseValidationError, generateFoodSummary, PROMPT_VERSIONS } from './gemini';
+import type { AIImageInput, AIProviderConfig, AIProviderId } from './ai';
+import { createSchemaFromTemplate, TEMPLATE_IDS } from '../constants/schemaTemplates';
+
+/**
+ * One labeled example
+ */
+export interface EvalCase {
+  id: string;
+  text?: string; // description as a user would type it
+  photos?: string[]; // photo paths, relative to the dataset file
+  expected: {
+    fieldValues: Record<string, number>; // ground-truth totals keyed by field ID (only these are scored)
+    titleKeywords?: string[]; // words a good title contains (e.g., ['chicken', 'rice'])
+  };
+}
+
+/**
+ * A labeled dataset (see eval/dataset.json)
+ */
+export interface EvalDataset {
+  name: string;
+  templateId?: string; // schema template whose fields are extracted (default: macro tracking)
+  cases: EvalCase[];
+}
+
+/**
+ * Outcome of one case
+ */
+export interface EvalCaseResult {
+  id: string;
+  status: 'ok' | 'parse-failure' | 'error'; // parse failures are invalid responses; errors are everything else
+  title?: string;
+  titleScore?: number;
+  fieldValues?: Record<string, number>; // AI totals for the scored fields
+  errors?: Record<string, number>; // AI - expected, per scored field
+  message?: string;
+  durationMs: number;
+}
+
+/**
+ * Accuracy of one field across the cases that have it
+ */
+export interface EvalFieldScore {
+  fieldId: string;
+  cases: number; // successful cases with a ground-truth value and an AI value
+  meanAbsoluteError: number; // average |AI - expected| in the field's unit
+  meanError: number; // average (AI - expected); positive means the AI overestimates
+  meanAbsolutePercentError: number | null; // average |AI - expected| / expected, in percent (null if no expected value is positive)
+}
+
+/**
+ * Result of a run, saved as JSON so later runs can be compared against it
+ */
+export interface EvalReport {
+  dataset: string;
+  promptVersion: string;
+  provider: AIProviderId;
+  model?: string;
+  createdAt: number;
+  cases: EvalCaseResult[];
+  fields: EvalFieldScore[];
+  parseFailureRate: number; // share of cases whose response failed validation
+  errorRate: number; // share of cases that failed for another reason (network, quota, ...)
+  titleScore: number | null; // average title score of cases with title keywords
+}
+
+/**
+ * Change in a field's accuracy between two reports
+ */
+export interface EvalFieldComparison {
+  fieldId: string;
+  baselineError: number | null;
+  currentError: number | null;
+  change: number | null; // current - baseline; negative is an improvement
+}
+
+/**
+ * Options for runEvaluation
+ */
+export interface EvalOptions {
+  providerConfig: AIProviderConfig;
+  loadImage: (path: string) => Promise<AIImageInput>; // reads a case photo (paths as written in the dataset)
+  onCase?: (result: EvalCaseResult, index: number, total: number) => void;
+}
+
+/**
+ * Round a value to one decimal place
+ */
+function roundValue(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Score a title from 0 to 1
+ * The share of expected keywords it contains (plurals count), halved if it isn't 2-6 words.
+ */
+export function scoreTitle(title: string, keywords: string[]): number {
+  const words = title.toLowerCase().match(/[a-z]+/g) || [];
+  if (keywords.length === 0) return words.length > 0 ? 1 : 0;
+
+  const found = keywords.filter((keyword) => {
+    const target = keyword.toLowerCase();
+    return words.some((word) => word === target || word === `${target}s` || `${word}s` === target);
+  });
+
+  const recall = found.length / keywords.length;
+  return words.length >= 2 && words.length <= 6 ? recall : recall / 2;
+}
+
+/**
+ * Analyze and score one case
+ */
+async function evaluateCase(
+  evalCase: EvalCase,
+  dataset: EvalDataset,
+  options: EvalOptions
+): Promise<EvalCaseResult> {
+  const startedAt = Date.now();
+  const schema = createSchemaFromTemplate(dataset.templateId || TEMPLATE_IDS.MACRO_TRACKING, 'eval');
+
+  try {
+    const images = await Promise.all((evalCase.photos || []).map(options.loadImage));
+    const result = await generateFoodSummary(evalCase.text || '', images, schema, {
+      providerConfig: options.providerConfig,
+      forceRefresh: true, // always measure the current prompt and model, never a cached answer
+    });
+
+    const fieldValues: Record<string, number> = {};
+    const errors: Record<string, number> = {};
+    Object.entries(evalCase.expected.fieldValues).forEach(([fieldId, expected]) => {
+      const value = result.extractedFields[fieldId];
+      if (typeof value !== 'number') return;
+      fieldValues[fieldId] = value;
+      errors[fieldId] = roundValue(value - expected);
+    });
+
+    return {
+      id: evalCase.id,
+      status: 'ok',
+      title: result.title,
+      titleScore: evalCase.expected.titleKeywords
+        ? scoreTitle(result.title, evalCase.expected.titleKeywords)
+        : undefined,
+      fieldValues,
+      errors,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      id: evalCase.id,
+      status: error instanceof AIResponseValidationError ? 'parse-failure' : 'error',
+      message: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * Summarize per-field accuracy across case results
+ */
+function scoreFields(dataset: EvalDataset, results: EvalCaseResult[]): EvalFieldScore[] {
+  const totals: Record<string, { cases: number; absolute: number; signed: number; percent: number; percentCases: number }> = {};
+
+  results.forEach((result) => {
+    const evalCase = dataset.cases.find((c) => c.id === result.id);
+    Object.entries(result.errors || {}).forEach(([fieldId, error]) => {
+      const total = totals[fieldId] || { cases: 0, absolute: 0, signed: 0, percent: 0, percentCases: 0 };
+      const expected = evalCase?.expected.fieldValues[fieldId] || 0;
+      total.cases += 1;
+      total.absolute += Math.abs(error);
+      total.signed += error;
+      if (expected > 0) {
+        total.percent += (Math.abs(error) / expected) * 100;
+        total.percentCases += 1;
+      }
+      totals[fieldId] = total;
+    });
+  });
+
+  return Object.entries(totals).map(([fieldId, total]) => ({
+    fieldId,
+    cases: total.cases,
+    meanAbsoluteError: roundValue(total.absolute / total.cases),
+    meanError: roundValue(total.signed / total.cases),
+    meanAbsolutePercentError: total.percentCases > 0 ? roundValue(total.percent / total.percentCases) : null,
+  }));
+}
+
+/**
+ * Run every case of a dataset through generateFoodSummary, one at a time
+ * @param dataset - Labeled cases
+ * @param options - Provider, photo loader, and per-case progress callback
+ * @returns The scored report
+ */
+export async function runEvaluation(dataset: EvalDataset, options: EvalOptions): Promise<EvalReport> {
+  const results: EvalCaseResult[] = [];
+
+  for (const [index, evalCase] of dataset.cases.entries()) {
+    const result = await evaluateCase(evalCase, dataset, options);
+    results.push(result);
+    options.onCase?.(result, index, dataset.cases.length);
+  }
+
+  const titleScores = results
+    .map((result) => result.titleScore)
+    .filter((score): score is number => score !== undefined);
+  const share = (status: EvalCaseResult['status']) =>
+    results.length > 0 ? roundValue((results.filter((r) => r.status === status).length / results.length) * 100) / 100 : 0;
+
+  return {
+    dataset: dataset.name,
+    promptVersion: PROMPT_VERSIONS.meal,
+    provider: options.providerConfig.provider,
+    model: options.providerConfig.model,
+    createdAt: Date.now(),
+    cases: results,
+    fields: scoreFields(dataset, results),
+    parseFailureRate: share('parse-failure'),
+    errorRate: share('error'),
+    titleScore: titleScores.length > 0
+      ? Math.round((titleScores.reduce((sum, score) => sum + score, 0) / titleScores.length) * 100) / 100
+      : null,
+  };
+}
+
+/**
+ * Compare per-field mean absolute error with an earlier report
+ * @returns One row per field in either report
+ */
+export function compareReports(current: EvalReport, baseline: EvalReport): EvalFieldComparison[] {
+  const fieldIds = [...new Set([...baseline.fields, ...current.fields].map((f) => f.fieldId))];
+
+  return fieldIds.map((fieldId) => {
+    const baselineError = baseline.fields.find((f) => f.fieldId === fieldId)?.meanAbsoluteError ?? null;
+    const currentError = current.fields.find((f) => f.fieldId === fieldId)?.meanAbsoluteError ?? null;
+    return {
+      fieldId,
+      baselineError,
+      currentError,
+      change: baselineError !== null && currentError !== null ? roundValue(currentError - baselineError) : null,
+    };
+  });
+}
@@ -2,6 +2,8 @@
  * Firestore Service
  *
  * Handles all Firestore database operations for food entries and user settings.
+ * Reads of settings, schemas, corrections, saved foods, recipes, and products are cached
+ * for the session (dataCache.ts); the writes below invalidate what they change.
  */
 
 import {
@@ -16,9 +18,28 @@ import {
   query,
   where,
   orderBy,
+  limit,
+  startAfter,
+  increment,
+  onSnapshot,
+  type DocumentData,
+  type FirestoreError,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type Unsubscribe,
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import type { FoodEntry, UserSettings, DatabaseSchema } from '../types';
+import { cachedRead, invalidateCache } from './dataCache';
+import type {
+  FoodEntry,
+  UserSettings,
+  DatabaseSchema,
+  AIUsage,
+  AICorrection,
+  Product,
+  Recipe,
+  SavedFood,
+} from '../types';
 
 /**
  * Create a new food entry in Firestore
@@ -36,8 +57,24 @@ export async function createEntry(
   return { ...entry, id: docRef.id } as FoodEntry;
 }
 
+export const ENTRY_PAGE_SIZE = 30;
+
+/**
+ * Position after the last entry of a page (pass it back to load the next page)
+ */
+export type EntryCursor = QueryDocumentSnapshot<DocumentData>;
+
+/**
+ * One page of a user's entries
+ */
+export interface EntryPage {
+  entries: FoodEntry[];
+  cursor: EntryCursor | null; // null when there are no more entries
+}
+
 /**
  * Get all entries for a specific user
+ * Downloads the user's whole history - for display, prefer getUserEntriesPage or getUserEntriesInRange.
  * @param userId - The user's ID
  * @returns Array of food entries, sorted by newest first
  */
@@ -55,6 +92,158 @@ export async function getUserEntries(userId: string): Promise<FoodEntry[]> {
   })) as FoodEntry[];
 }
 
+/**
+ * Get one page of a user's entries
+ * @param userId - The user's ID
+ * @param cursor - Cursor returned with the previous page (omit for the first page)
+ * @param pageSize - Entries per page
+ * @returns The page, sorted by newest first, and a cursor for the next one
+ */
+export async function getUserEntriesPage(
+  userId: string,
+  cursor: EntryCursor | null = null,
+  pageSize: number = ENTRY_PAGE_SIZE
+): Promise<EntryPage> {
+  const constraints: QueryConstraint[] = [
+    where('userId', '==', userId),
+    orderBy('timestamp', 'desc'),
+  ];
+  if (cursor) {
+    constraints.push(startAfter(cursor));
+  }
+  constraints.push(limit(pageSize));
+
+  const querySnapshot = await getDocs(query(collection(db, 'entries'), ...constraints));
+  const entries = querySnapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as FoodEntry[];
+
+  return {
+    entries,
+    cursor: querySnapshot.docs.length === pageSize ? querySnapshot.docs[pageSize - 1] : null,
+  };
+}
+
+/**
+ * Get a user's entries eaten within a time range
+ * @param userId - The user's ID
+ * @param start - Earliest timestamp to include (ms)
+ * @param end - Timestamp to stop before (ms, default: no upper bound)
+ * @returns Array of food entries, sorted by newest first
+ */
+export async function getUserEntriesInRange(
+  userId: string,
+  start: number,
+  end?: number
+): Promise<FoodEntry[]> {
+  const constraints: QueryConstraint[] = [
+    where('userId', '==', userId),
+    where('timestamp', '>=', start),
+  ];
+  if (end !== undefined) {
+    constraints.push(where('timestamp', '<', end));
+  }
+  constraints.push(orderBy('timestamp', 'desc'));
+
+  const querySnapshot = await getDocs(query(collection(db, 'entries'), ...constraints));
+  return querySnapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as FoodEntry[];
+}
+
+/**
+ * Days of entries read at a time by getUserEntriesSinceLastGap
+ */
+const GAP_SEARCH_DAYS = 90;
+
+/**
+ * Get the start of the most recent day, counting back from today, without any entries
+ */
+function getLastEmptyDayStart(entries: FoodEntry[]): number {
+  const days = new Set(entries.map((entry) => new Date(entry.timestamp).toDateString()));
+  const day = new Date();
+  day.setHours(0, 0, 0, 0);
+  while (days.has(day.toDateString())) {
+    day.setDate(day.getDate() - 1);
+  }
+  return day.getTime();
+}
+
+/**
+ * Get a user's entries back to the most recent day without any
+ * Every day-by-day streak ends by that day, so streaks can be counted from the result however
+ * long they run. Older entries are read GAP_SEARCH_DAYS at a time until that day is reached.
+ * @param userId - The user's ID
+ * @param loaded - Entries already loaded (e.g., by a listener) and the timestamp they were loaded from
+ * @returns Array of food entries, sorted by newest first
+ */
+export async function getUserEntriesSinceLastGap(
+  userId: string,
+  loaded?: { entries: FoodEntry[]; start: number }
+): Promise<FoodEntry[]> {
+  let entries = loaded?.entries || [];
+  let start = loaded?.start;
+
+  while (start === undefined || getLastEmptyDayStart(entries) < start) {
+    const chunkStart = new Date(Math.min(start ?? Date.now(), Date.now()));
+    chunkStart.setDate(chunkStart.getDate() - GAP_SEARCH_DAYS);
+    chunkStart.setHours(0, 0, 0, 0);
+
+    // A chunk without entries contains an empty day, so the loop always ends
+    const older = await getUserEntriesInRange(userId, chunkStart.getTime(), start);
+    entries = [...entries, ...older];
+    start = chunkStart.getTime();
+  }
+
+  return entries;
+}
+
+/**
+ * Get a user's entries linked to the given Notion pages
+ * Queried in batches of 30 IDs (Firestore's limit for `in`), so only the matching entries are read.
+ * @param userId - The user's ID
+ * @param notionPageIds - IDs of the Notion pages to match
+ * @returns The linked entries (in no particular order)
+ */
+export async function getUserEntriesByNotionPageIds(
+  userId: string,
+  notionPageIds: string[]
+): Promise<FoodEntry[]> {
+  const ids = [...new Set(notionPageIds)];
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += 30) {
+    batches.push(ids.slice(i, i + 30));
+  }
+
+  const snapshots = await Promise.all(
+    batches.map((batch) =>
+      getDocs(
+        query(
+          collection(db, 'entries'),
+          where('userId', '==', userId),
+          where('notionPageId', 'in', batch)
+        )
+      )
+    )
+  );
+  return snapshots.flatMap((snapshot) =>
+    snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as FoodEntry)
+  );
+}
+
+/**
+ * Get a single food entry
+ * @param entryId - The entry's document ID
+ * @returns The entry, or null if it doesn't exist
+ */
+export async function getEntry(entryId: string): Promise<FoodEntry | null> {
+  const entryDoc = await getDoc(doc(db, 'entries', entryId));
+  if (!entryDoc.exists()) return null;
+  return { id: entryDoc.id, ...entryDoc.data() } as FoodEntry;
+}
+
 /**
  * Update an existing food entry
  * @param entryId - The entry's document ID
@@ -84,14 +273,16 @@ export async function deleteEntry(entryId: string): Promise<void> {
 export async function getUserSettings(
   userId: string
 ): Promise<UserSettings | null> {
-  const docRef = doc(db, 'settings', userId);
-  const docSnap = await getDoc(docRef);
+  return cachedRead(`settings/${userId}`, async () => {
+    const docRef = doc(db, 'settings', userId);
+    const docSnap = await getDoc(docRef);
 
-  if (docSnap.exists()) {
-    return docSnap.data() as UserSettings;
-  }
+    if (docSnap.exists()) {
+      return docSnap.data() as UserSettings;
+    }
 
-  return null;
+    return null;
+  });
 }
 
 /**
@@ -105,6 +296,239 @@ export async function saveUserSettings(
 ): Promise<void> {
   const docRef = doc(db, 'settings', userId);
   await setDoc(docRef, { userId, ...settings }, { merge: true });
+  invalidateCache(`settings/${userId}`);
+}
+
+/**
+ * Get today's AI analysis usage for a user
+ * Counters are written by the analyzeFood Cloud Function and reset daily (UTC).
+ * @param userId - The user's ID
+ * @returns Number of analyses used today
+ */
+export async function getTodayAIUsage(userId: string): Promise<number> {
+  const docSnap = await getDoc(doc(db, 'aiUsage', userId));
+  if (!docSnap.exists()) return 0;
+
+  const usage = docSnap.data() as AIUsage;
+  const today = new Date().toISOString().slice(0, 10);
+  return usage.date === today ? usage.count : 0;
+}
+
+/**
+ * Record the AI's original estimates and the user's reviewed values for an entry
+ * @param correction - Correction data (without id)
+ * @returns The created correction with generated ID
+ */
+export async function createCorrection(
+  correction: Omit<AICorrection, 'id'>
+): Promise<AICorrection> {
+  const docRef = await addDoc(collection(db, 'corrections'), {
+    ...correction,
+    createdAt: correction.createdAt || Date.now(),
+  });
+  invalidateCache('corrections');
+
+  return { ...correction, id: docRef.id } as AICorrection;
+}
+
+/**
+ * Get a user's most recent AI corrections
+ * @param userId - The user's ID
+ * @param maxResults - Maximum number of corrections to load (default: 200)
+ * @returns Array of corrections, sorted by newest first
+ */
+export async function getUserCorrections(
+  userId: string,
+  maxResults: number = 200
+): Promise<AICorrection[]> {
+  return cachedRead(`corrections/${userId}/${maxResults}`, async () => {
+    const q = query(
+      collection(db, 'corrections'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc'),
+      limit(maxResults)
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as AICorrection[];
+  });
+}
+
+// ============================================================================
+// Food Library ("My Foods") Functions
+// ============================================================================
+
+/**
+ * Save a food to the user's library
+ * @param food - Saved food data (without id)
+ * @returns The created food with generated ID
+ */
+export async function createSavedFood(food: Omit<SavedFood, 'id'>): Promise<SavedFood> {
+  const docRef = await addDoc(collection(db, 'foods'), {
+    ...food,
+    createdAt: food.createdAt || Date.now(),
+    updatedAt: food.updatedAt || Date.now(),
+  });
+  invalidateCache('savedFoods');
+
+  return { ...food, id: docRef.id } as SavedFood;
+}
+
+/**
+ * Get all saved foods for a user
+ * @param userId - The user's ID
+ * @returns Array of saved foods, most frequently logged first
+ */
+export async function getUserSavedFoods(userId: string): Promise<SavedFood[]> {
+  return cachedRead(`savedFoods/${userId}`, async () => {
+    const q = query(
+      collection(db, 'foods'),
+      where('userId', '==', userId),
+      orderBy('logCount', 'desc')
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as SavedFood[];
+  });
+}
+
+/**
+ * Update a saved food
+ * @param foodId - The saved food's document ID
+ * @param updates - Partial food data to update
+ */
+export async function updateSavedFood(foodId: string, updates: Partial<SavedFood>): Promise<void> {
+  await updateDoc(doc(db, 'foods', foodId), {
+    ...updates,
+    updatedAt: Date.now(),
+  });
+  invalidateCache('savedFoods');
+}
+
+/**
+ * Delete a saved food
+ * @param foodId - The saved food's document ID
+ */
+export async function deleteSavedFood(foodId: string): Promise<void> {
+  await deleteDoc(doc(db, 'foods', foodId));
+  invalidateCache('savedFoods');
+}
+
+/**
+ * Count a re-log of a saved food (frequent foods are suggested first)
+ * @param foodId - The saved food's document ID
+ */
+export async function recordSavedFoodLogged(foodId: string): Promise<void> {
+  await updateDoc(doc(db, 'foods', foodId), {
+    logCount: increment(1),
+    lastLoggedAt: Date.now(),
+  });
+  invalidateCache('savedFoods');
+}
+
+// ============================================================================
+// Recipe Functions
+// ============================================================================
+
+/**
+ * Create a recipe
+ * @param recipe - Recipe data (without id)
+ * @returns The created recipe with generated ID
+ */
+export async function createRecipe(recipe: Omit<Recipe, 'id'>): Promise<Recipe> {
+  const docRef = await addDoc(collection(db, 'recipes'), {
+    ...recipe,
+    createdAt: recipe.createdAt || Date.now(),
+    updatedAt: recipe.updatedAt || Date.now(),
+  });
+  invalidateCache('recipes');
+
+  return { ...recipe, id: docRef.id } as Recipe;
+}
+
+/**
+ * Get all recipes for a user
+ * @param userId - The user's ID
+ * @returns Array of recipes, most recently updated first
+ */
+export async function getUserRecipes(userId: string): Promise<Recipe[]> {
+  return cachedRead(`recipes/${userId}`, async () => {
+    const q = query(
+      collection(db, 'recipes'),
+      where('userId', '==', userId),
+      orderBy('updatedAt', 'desc')
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as Recipe[];
+  });
+}
+
+/**
+ * Update a recipe
+ * @param recipeId - The recipe's document ID
+ * @param updates - Partial recipe data to update
+ */
+export async function updateRecipe(recipeId: string, updates: Partial<Recipe>): Promise<void> {
+  await updateDoc(doc(db, 'recipes', recipeId), {
+    ...updates,
+    updatedAt: Date.now(),
+  });
+  invalidateCache('recipes');
+}
+
+/**
+ * Delete a recipe
+ * @param recipeId - The recipe's document ID
+ */
+export async function deleteRecipe(recipeId: string): Promise<void> {
+  await deleteDoc(doc(db, 'recipes', recipeId));
+  invalidateCache('recipes');
+}
+
+// ============================================================================
+// Product (Barcode) Functions
+// ============================================================================
+
+/**
+ * Look up a packaged product by barcode
+ * Products the user resolved themselves (users/{userId}/products) take precedence over
+ * the shared, imported `products` collection, which clients can only read.
+ * @param userId - The user's ID
+ * @param barcode - Normalized barcode (see normalizeBarcode)
+ * @returns The product or null if it isn't in either collection
+ */
+export async function getProduct(userId: string, barcode: string): Promise<Product | null> {
+  return cachedRead(`product/${userId}/${barcode}`, async () => {
+    const ownSnap = await getDoc(doc(db, 'users', userId, 'products', barcode));
+    if (ownSnap.exists()) return ownSnap.data() as Product;
+
+    const sharedSnap = await getDoc(doc(db, 'products', barcode));
+    return sharedSnap.exists() ? (sharedSnap.data() as Product) : null;
+  });
+}
+
+/**
+ * Save a product the user resolved (e.g., from its label) so their next scan of it resolves instantly
+ * Saved to the user's own products only - other users never see it.
+ * @param userId - The user's ID
+ * @param product - Product data (the barcode is used as document ID)
+ */
+export async function saveProduct(userId: string, product: Product): Promise<void> {
+  await setDoc(doc(db, 'users', userId, 'products', product.barcode), {
+    ...product,
+    updatedAt: product.updatedAt || Date.now(),
+  });
+  invalidateCache(`product/${userId}/${product.barcode}`);
 }
 
 // ============================================================================
@@ -124,6 +548,7 @@ export async function createSchema(
     createdAt: schema.createdAt || Date.now(),
     updatedAt: schema.updatedAt || Date.now(),
   });
+  invalidateCache('schemas');
 
   return { ...schema, id: docRef.id } as DatabaseSchema;
 }
@@ -134,14 +559,16 @@ export async function createSchema(
  * @returns The schema or null if not found
  */
 export async function getSchema(schemaId: string): Promise<DatabaseSchema | null> {
-  const docRef = doc(db, 'schemas', schemaId);
-  const docSnap = await getDoc(docRef);
+  return cachedRead(`schema/${schemaId}`, async () => {
+    const docRef = doc(db, 'schemas', schemaId);
+    const docSnap = await getDoc(docRef);
 
-  if (docSnap.exists()) {
-    return { id: docSnap.id, ...docSnap.data() } as DatabaseSchema;
-  }
+    if (docSnap.exists()) {
+      return { id: docSnap.id, ...docSnap.data() } as DatabaseSchema;
+    }
 
-  return null;
+    return null;
+  });
 }
 
 /**
@@ -150,17 +577,19 @@ export async function getSchema(schemaId: string): Promise<DatabaseSchema | null
  * @returns Array of schemas, sorted by most recently updated
  */
 export async function getUserSchemas(userId: string): Promise<DatabaseSchema[]> {
-  const q = query(
-    collection(db, 'schemas'),
-    where('userId', '==', userId),
-    orderBy('updatedAt', 'desc')
-  );
+  return cachedRead(`schemas/${userId}`, async () => {
+    const q = query(
+      collection(db, 'schemas'),
+      where('userId', '==', userId),
+      orderBy('updatedAt', 'desc')
+    );
 
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as DatabaseSchema[];
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as DatabaseSchema[];
+  });
 }
 
 /**
@@ -177,6 +606,8 @@ export async function updateSchema(
     ...updates,
     updatedAt: Date.now(),
   });
+  invalidateCache(`schema/${schemaId}`);
+  invalidateCache('schemas');
 }
 
 /**
@@ -185,6 +616,8 @@ export async function updateSchema(
  */
 export async function deleteSchema(schemaId: string): Promise<void> {
   await deleteDoc(doc(db, 'schemas', schemaId));
+  invalidateCache(`schema/${schemaId}`);
+  invalidateCache('schemas');
 }
 
 /**
@@ -214,3 +647,127 @@ export async function getActiveSchema(userId: string): Promise<DatabaseSchema |
 export async function setActiveSchema(userId: string, schemaId: string): Promise<void> {
   await saveUserSettings(userId, { activeSchemaId: schemaId });
 }
+
+// ============================================================================
+// Real-time Subscriptions
+// ============================================================================
+
+/**
+ * Listen to a user's settings
+ * @param userId - The user's ID
+ * @param onChange - Called with the settings (null if none are saved) now and on every change
+ * @param onError - Called if the listener fails (it stops listening)
+ * @returns Function that stops listening
+ */
+export function subscribeToUserSettings(
+  userId: string,
+  onChange: (settings: UserSettings | null) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe {
+  return onSnapshot(
+    doc(db, 'settings', userId),
+    (docSnap) => onChange(docSnap.exists() ? (docSnap.data() as UserSettings) : null),
+    onError
+  );
+}
+
+/**
+ * Listen to all of a user's schemas
+ * @param userId - The user's ID
+ * @param onChange - Called with the schemas, most recently updated first, now and on every change
+ * @param onError - Called if the listener fails (it stops listening)
+ * @returns Function that stops listening
+ */
+export function subscribeToUserSchemas(
+  userId: string,
+  onChange: (schemas: DatabaseSchema[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe {
+  const q = query(
+    collection(db, 'schemas'),
+    where('userId', '==', userId),
+    orderBy('updatedAt', 'desc')
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      onChange(querySnapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as DatabaseSchema[]);
+    },
+    onError
+  );
+}
+
+/**
+ * Listen to the first page of a user's entries
+ * Load older pages with getUserEntriesPage, starting from the page's cursor.
+ * @param userId - The user's ID
+ * @param pageSize - Entries per page
+ * @param onChange - Called with the page, sorted by newest first, and a cursor for the next one
+ * @param onError - Called if the listener fails (it stops listening)
+ * @returns Function that stops listening
+ */
+export function subscribeToUserEntries(
+  userId: string,
+  pageSize: number,
+  onChange: (page: EntryPage) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe {
+  const q = query(
+    collection(db, 'entries'),
+    where('userId', '==', userId),
+    orderBy('timestamp', 'desc'),
+    limit(pageSize)
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      const entries = querySnapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as FoodEntry[];
+      onChange({
+        entries,
+        cursor: querySnapshot.docs.length === pageSize ? querySnapshot.docs[pageSize - 1] : null,
+      });
+    },
+    onError
+  );
+}
+
+/**
+ * Listen to a user's entries eaten since a point in time
+ * @param userId - The user's ID
+ * @param start - Earliest timestamp to include (ms)
+ * @param onChange - Called with the entries, sorted by newest first, now and on every change
+ * @param onError - Called if the listener fails (it stops listening)
+ * @returns Function that stops listening
+ */
+export function subscribeToUserEntriesSince(
+  userId: string,
+  start: number,
+  onChange: (entries: FoodEntry[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe {
+  const q = query(
+    collection(db, 'entries'),
+    where('userId', '==', userId),
+    where('timestamp', '>=', start),
+    orderBy('timestamp', 'desc')
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      onChange(querySnapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as FoodEntry[]);
+    },
+    onError
+  );
+}
@@ -1,11 +1,52 @@
 /**
  * Gemini AI Service
  *
- * Handles AI-powered analysis of food entries using Google's Gemini API.
+ * Handles AI-powered analysis of food entries.
  * Generates summaries including nutritional insights and meal categorization.
+ *
+ * The model call goes through a pluggable provider (see services/ai): Gemini via the
+ * analyzeFood Cloud Function by default, an OpenAI-compatible endpoint, or offline fixtures.
+ *
+ * Extraction uses structured output: a response schema is built from the active
+ * DatabaseSchema fields, and the JSON that comes back is strictly validated against
+ * it before it reaches the review screen.
+ *
+ * Numeric fields are estimated per food item (e.g., chicken, rice, drink) and
+ * the entry totals are computed from the items. Each numeric estimate also carries
+ * a confidence level and a low/high range so users know which values to check.
+ *
+ * The user's past review corrections on similar meals are added to the prompt as
+ * few-shot examples, so repeated misestimates are adjusted over time.
+ *
+ * Packaged food can instead be read from a photographed nutrition facts label
+ * (extractNutritionLabel), which returns exact per-serving values.
+ *
+ * A pasted log of several meals ("yesterday oatmeal, burrito at 1pm; today coffee")
+ * is split into separately analyzed entries with resolved timestamps (splitMealLog).
+ *
+ * Saved entries can be re-analyzed for fields added to the schema after they were
+ * logged (backfillEntryFields), keeping their existing items.
+ *
+ * A photographed restaurant menu is read into its dishes with estimated values
+ * (readRestaurantMenu), so they can be ranked against what's left of today's goals.
+ *
+ * Each prompt has a version (PROMPT_VERSIONS) that is recorded on the entries it
+ * produced and is part of the cache key, so prompt changes can be evaluated and
+ * compared (see services/evaluation) without stale cached results.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { SchemaType, type ObjectSchema, type Schema } from '@google/generative-ai';
+import { getAIProvider, type AICacheOptions, type AIImageInput, type AIProviderConfig } from './ai';
+import { getTemplateById, TEMPLATE_IDS } from '../constants/schemaTemplates';
+import { CONFIDENCE_LEVELS, sumItemEstimates, sumItemFields } from '../utils/foodItems';
+import { findSimilarCorrections, isCorrectedValue } from '../utils/corrections';
+import { MAX_DAYS_BACK, resolveEntryTimestamp } from '../utils/entryTime';
+import type { AICorrection, DatabaseSchema, FieldConfig, FieldEstimate, FoodItem } from '../types';
+
+/**
+ * A single extracted field value
+ */
+export type ExtractedValue = number | string | boolean | string[] | null;
 
 /**
  * AI Analysis Result
@@ -13,205 +54,1080 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 export interface AIAnalysisResult {
   title: string; // AI-generated entry title (e.g., "Grilled Chicken Salad")
   summary: string;
-  extractedFields: Record<string, any>;
+  extractedFields: Record<string, ExtractedValue>; // numeric fields are totals of items
+  fieldEstimates: Record<string, FieldEstimate>; // confidence and range of each numeric total
+  items: FoodItem[]; // itemized breakdown with per-item portions and macros
+  promptVersion?: string; // version of the prompt that produced the result (see PROMPT_VERSIONS)
 }
 
 /**
- * Generate AI summary and extract field values for a food entry
- * @param text - User's text description of the food
- * @param imageBase64 - Optional base64-encoded image data
- * @param schema - Optional schema to determine which fields to extract
- * @returns AI-generated summary and extracted field values
+ * Version of each prompt, recorded on entries and part of the cache key
+ * Bump a version whenever its prompt text or response schema changes meaningfully.
  */
-export async function generateFoodSummary(
-  text: string,
-  imageBase64?: string,
-  schema?: any
-): Promise<AIAnalysisResult> {
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+export const PROMPT_VERSIONS: Record<AICacheOptions['task'], string> = {
+  meal: 'meal-v1',
+  label: 'label-v1',
+  'meal-log': 'meal-log-v1',
+  backfill: 'backfill-v1',
+  menu: 'menu-v1',
+};
+
+/**
+ * Error thrown when the AI response does not match the requested response schema
+ */
+export class AIResponseValidationError extends Error {
+  issues: string[]; // one human-readable entry per failed check
+  rawResponse: string; // unparsed model output, kept for debugging
+
+  constructor(issues: string[], rawResponse: string) {
+    super(`The AI response did not match the expected format: ${issues.join('; ')}`);
+    this.name = 'AIResponseValidationError';
+    this.issues = issues;
+    this.rawResponse = rawResponse;
+  }
+}
+
+/**
+ * Macro fields that are always extracted so the dashboard has data to display
+ */
+const DEFAULT_MACRO_FIELDS: FieldConfig[] = (
+  getTemplateById(TEMPLATE_IDS.MACRO_TRACKING)?.fields || []
+).filter((f) => f.type === 'number');
+
+/**
+ * Get the AI fields the schema itself defines (without the default macros)
+ * Title and summary are requested separately, and url/date fields are never AI-extracted.
+ */
+export function getSchemaAIFields(schema?: DatabaseSchema | null): FieldConfig[] {
+  return (schema?.fields || []).filter(
+    (f) =>
+      f.extractFromAI &&
+      f.id !== 'name' &&
+      f.id !== 'summary' &&
+      f.type !== 'title' &&
+      f.type !== 'url' &&
+      f.type !== 'date'
+  );
+}
+
+/**
+ * Get the schema fields the AI should extract
+ * Basic macros are merged in when the schema doesn't track protein or calories.
+ */
+export function getFieldsToExtract(schema?: DatabaseSchema | null): FieldConfig[] {
+  const fields = getSchemaAIFields(schema);
+
+  const fieldIds = fields.map((f) => f.id);
+  if (!fieldIds.includes('protein') || !fieldIds.includes('calories')) {
+    DEFAULT_MACRO_FIELDS.forEach((macro) => {
+      if (!fieldIds.includes(macro.id)) fields.push(macro);
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Build the response schema entry for a single field
+ */
+function buildFieldSchema(field: FieldConfig): Schema {
+  const hint = field.aiPromptHint || `Estimate the ${field.name.toLowerCase()}`;
+
+  switch (field.type) {
+    case 'number':
+      return {
+        type: SchemaType.NUMBER,
+        description: `${hint} (number in ${field.unit || 'units'})`,
+      };
+
+    case 'checkbox':
+      return { type: SchemaType.BOOLEAN, description: hint, nullable: true };
 
-  if (!apiKey) {
-    throw new Error('Gemini API key not configured');
+    case 'select':
+      return field.options?.length
+        ? { type: SchemaType.STRING, format: 'enum', enum: field.options, description: hint, nullable: true }
+        : { type: SchemaType.STRING, description: hint, nullable: true };
+
+    case 'multi_select':
+      return {
+        type: SchemaType.ARRAY,
+        description: hint,
+        items: field.options?.length
+          ? { type: SchemaType.STRING, format: 'enum', enum: field.options }
+          : { type: SchemaType.STRING },
+      };
+
+    default:
+      return { type: SchemaType.STRING, description: hint, nullable: true };
   }
+}
 
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+/**
+ * Build an object schema with one required property per field
+ */
+function buildFieldsObjectSchema(fields: FieldConfig[]): ObjectSchema {
+  const properties: Record<string, Schema> = {};
+  fields.forEach((field) => {
+    properties[field.id] = buildFieldSchema(field);
+  });
 
-  // Build extraction prompt based on schema
-  let fieldsToExtract: any[] = [];
-  if (schema?.fields) {
-    fieldsToExtract = schema.fields.filter((f: any) => f.extractFromAI && f.id !== 'name' && f.id !== 'summary');
-    console.log('Fields to extract from AI:', fieldsToExtract.map((f: any) => f.name));
+  return {
+    type: SchemaType.OBJECT,
+    properties,
+    required: fields.map((f) => f.id),
+  };
+}
+
+/**
+ * Build an object schema with a confidence and range for each numeric field
+ */
+function buildEstimatesObjectSchema(fields: FieldConfig[]): ObjectSchema {
+  const properties: Record<string, Schema> = {};
+  fields.forEach((field) => {
+    const unit = field.unit || 'units';
+    properties[field.id] = {
+      type: SchemaType.OBJECT,
+      description: `How sure the ${field.name.toLowerCase()} estimate is`,
+      properties: {
+        confidence: {
+          type: SchemaType.STRING,
+          format: 'enum',
+          enum: CONFIDENCE_LEVELS,
+          description: 'high = clearly visible or standard portion, low = mostly guessed',
+        },
+        low: { type: SchemaType.NUMBER, description: `Lowest plausible value (number in ${unit})` },
+        high: { type: SchemaType.NUMBER, description: `Highest plausible value (number in ${unit})` },
+      },
+      required: ['confidence', 'low', 'high'],
+    };
+  });
+
+  return {
+    type: SchemaType.OBJECT,
+    properties,
+    required: fields.map((f) => f.id),
+  };
+}
+
+/**
+ * Build the structured-output response schema for a set of fields
+ * Numeric fields are requested per item; other fields describe the whole meal.
+ */
+function buildResponseSchema(fields: FieldConfig[]): ObjectSchema {
+  const numericFields = fields.filter((f) => f.type === 'number');
+  const mealFields = fields.filter((f) => f.type !== 'number');
+
+  const itemProperties: Record<string, Schema> = {
+    name: { type: SchemaType.STRING, description: 'Name of this food or drink (e.g., "Grilled Chicken")' },
+    portion: { type: SchemaType.STRING, description: 'Estimated portion (e.g., "150 g", "1 cup", "1 can")' },
+  };
+  if (numericFields.length > 0) {
+    itemProperties.fieldValues = buildFieldsObjectSchema(numericFields);
+    itemProperties.fieldEstimates = buildEstimatesObjectSchema(numericFields);
+  }
+
+  const properties: Record<string, Schema> = {
+    title: {
+      type: SchemaType.STRING,
+      description: 'A short, descriptive meal name (2-5 words)',
+    },
+    summary: {
+      type: SchemaType.STRING,
+      description: 'Brief 1-2 sentence nutritional summary',
+    },
+    items: {
+      type: SchemaType.ARRAY,
+      description: 'Each distinct food or drink in the meal, estimated separately',
+      minItems: 1,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: itemProperties,
+        required: Object.keys(itemProperties),
+      },
+    },
+  };
+
+  // Object schemas must not be empty, so only request meal-level fields when there are some
+  if (mealFields.length > 0) {
+    properties.extractedFields = buildFieldsObjectSchema(mealFields);
   }
 
-  // Build dynamic extraction prompt
-  let extractionInstructions = '';
-  let extractionExample = '';
+  return {
+    type: SchemaType.OBJECT,
+    properties,
+    required: Object.keys(properties),
+  };
+}
+
+/**
+ * Validate a single extracted value against its field config
+ * @param label - Name used in issue messages (defaults to the field ID)
+ * @returns An issue description, or null if the value is valid
+ */
+function validateFieldValue(field: FieldConfig, value: unknown, label: string = field.id): string | null {
+  if (value === undefined) {
+    return `"${label}" is missing`;
+  }
+
+  switch (field.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        return `"${label}" must be a non-negative number`;
+      }
+      return null;
+
+    case 'checkbox':
+      return value === null || typeof value === 'boolean' ? null : `"${label}" must be true or false`;
 
-  if (fieldsToExtract.length > 0) {
-    const fieldDescriptions = fieldsToExtract.map(f => {
-      const hint = f.aiPromptHint || `Estimate the ${f.name.toLowerCase()}`;
-      return `"${f.id}": ${hint} (${f.type === 'number' ? `number in ${f.unit || 'units'}` : f.type})`;
-    }).join('\n');
+    case 'select':
+      if (value === null) return null;
+      if (typeof value !== 'string') return `"${label}" must be a string`;
+      if (field.options?.length && !field.options.includes(value)) {
+        return `"${label}" must be one of: ${field.options.join(', ')}`;
+      }
+      return null;
 
-    const exampleFields = fieldsToExtract.reduce((acc: any, f) => {
-      if (f.type === 'number') {
-        // Provide reasonable example values
-        if (f.id === 'protein') acc[f.id] = 35;
-        else if (f.id === 'carbs' || f.id === 'net_carbs') acc[f.id] = 45;
-        else if (f.id === 'fat') acc[f.id] = 15;
-        else if (f.id === 'calories') acc[f.id] = 450;
-        else acc[f.id] = 20;
+    case 'multi_select':
+      if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+        return `"${label}" must be a list of strings`;
+      }
+      if (field.options?.length && value.some((v) => !field.options!.includes(v))) {
+        return `"${label}" must only contain: ${field.options.join(', ')}`;
       }
-      return acc;
-    }, {});
+      return null;
+
+    default:
+      return value === null || typeof value === 'string' ? null : `"${label}" must be a string`;
+  }
+}
 
-    extractionInstructions = `Extract the following nutritional information:
-${fieldDescriptions}`;
+/**
+ * Validate an object of field values, collecting issues
+ * @param values - Raw object returned by the model
+ * @param fields - Fields expected in the object
+ * @param issues - Issue list to append to
+ * @param path - Location used in issue messages (e.g., 'items[0].fieldValues')
+ * @returns Valid values keyed by field ID (unknown keys are dropped)
+ */
+function validateFieldValues(
+  values: unknown,
+  fields: FieldConfig[],
+  issues: string[],
+  path: string
+): Record<string, ExtractedValue> {
+  const validValues: Record<string, ExtractedValue> = {};
+
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    issues.push(`"${path}" must be an object`);
+    return validValues;
+  }
 
-    extractionExample = JSON.stringify(exampleFields);
+  fields.forEach((field) => {
+    const value = (values as Record<string, unknown>)[field.id];
+    const issue = validateFieldValue(field, value, `${path}.${field.id}`);
+    if (issue) {
+      issues.push(issue);
     } else {
-      // Default to basic macros if no schema
-      extractionInstructions = `Extract basic nutritional information:
-"protein": Estimated grams of protein
-"carbs": Estimated grams of carbohydrates
-"fat": Estimated grams of fat
-"calories": Estimated total calories (kcal)`;
-
-      extractionExample = '{"protein": 35, "carbs": 45, "fat": 15, "calories": 450}';
+      validValues[field.id] = value as ExtractedValue;
     }
-    
-    // ALWAYS ensure basic macros are included (even if schema has custom fields)
-    // Merge schema fields with basic macros to ensure dashboard always has data
-    if (!extractionInstructions.includes('"protein"') || !extractionInstructions.includes('"calories"')) {
-      const basicMacros = '\n"protein": Estimated grams of protein\n"carbs": Estimated grams of carbohydrates\n"fat": Estimated grams of fat\n"calories": Estimated total calories (kcal)';
-      extractionInstructions += basicMacros;
+  });
+
+  return validValues;
+}
+
+/**
+ * Validate per-field estimates against the values they describe, collecting issues
+ * @param estimates - Raw estimates object returned by the model
+ * @param fields - Numeric fields expected in the object
+ * @param values - Validated values the ranges must contain
+ * @param issues - Issue list to append to
+ * @param path - Location used in issue messages (e.g., 'items[0].fieldEstimates')
+ * @returns Valid estimates keyed by field ID
+ */
+function validateFieldEstimates(
+  estimates: unknown,
+  fields: FieldConfig[],
+  values: Record<string, ExtractedValue>,
+  issues: string[],
+  path: string
+): Record<string, FieldEstimate> {
+  const validEstimates: Record<string, FieldEstimate> = {};
+
+  if (!estimates || typeof estimates !== 'object' || Array.isArray(estimates)) {
+    issues.push(`"${path}" must be an object`);
+    return validEstimates;
+  }
+
+  fields.forEach((field) => {
+    const label = `${path}.${field.id}`;
+    const estimate = (estimates as Record<string, unknown>)[field.id] as Record<string, unknown> | undefined;
+
+    if (!estimate || typeof estimate !== 'object') {
+      issues.push(`"${label}" is missing`);
+      return;
     }
+    if (!CONFIDENCE_LEVELS.includes(estimate.confidence as FieldEstimate['confidence'])) {
+      issues.push(`"${label}.confidence" must be one of: ${CONFIDENCE_LEVELS.join(', ')}`);
+      return;
+    }
+
+    const { low, high } = estimate;
+    if (typeof low !== 'number' || typeof high !== 'number' || !Number.isFinite(low) || !Number.isFinite(high)) {
+      issues.push(`"${label}" must have numeric "low" and "high" values`);
+      return;
+    }
+
+    // The range must contain the point estimate (skipped if the value itself was invalid)
+    const value = values[field.id];
+    if (low < 0 || (typeof value === 'number' && (low > value || high < value)) || low > high) {
+      issues.push(`"${label}" range ${low}-${high} must be non-negative and contain the value`);
+      return;
+    }
+
+    validEstimates[field.id] = { confidence: estimate.confidence as FieldEstimate['confidence'], low, high };
+  });
+
+  return validEstimates;
+}
+
+/**
+ * Parse the model's JSON text into an object
+ * @throws AIResponseValidationError if the text is not a JSON object
+ */
+function parseJsonObject(rawResponse: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawResponse);
+  } catch {
+    throw new AIResponseValidationError(['response is not valid JSON'], rawResponse);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new AIResponseValidationError(['response is not a JSON object'], rawResponse);
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Validate one analyzed meal (title, summary, items, and meal-level fields)
+ * @param data - Parsed meal object
+ * @param fields - Fields that were requested in the response schema
+ * @param issues - Collected validation issues (appended to)
+ * @param path - Prefix for issue messages (e.g., 'entries[0].')
+ * @returns The analysis result (only meaningful when no issues were added)
+ */
+function validateAnalysis(
+  data: Record<string, unknown>,
+  fields: FieldConfig[],
+  issues: string[],
+  path: string = ''
+): AIAnalysisResult {
+  if (typeof data.title !== 'string' || !data.title.trim()) {
+    issues.push(`"${path}title" must be a non-empty string`);
+  }
+  if (typeof data.summary !== 'string') {
+    issues.push(`"${path}summary" must be a string`);
+  }
+
+  const numericFields = fields.filter((f) => f.type === 'number');
+  const mealFields = fields.filter((f) => f.type !== 'number');
+
+  // Validate each item and its per-item numeric values
+  const items: FoodItem[] = [];
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    issues.push(`"${path}items" must be a non-empty list`);
+  } else {
+    data.items.forEach((rawItem: unknown, index: number) => {
+      const itemPath = `${path}items[${index}]`;
+      const item = (rawItem || {}) as Record<string, unknown>;
+
+      if (typeof item.name !== 'string' || !item.name.trim()) {
+        issues.push(`"${itemPath}.name" must be a non-empty string`);
+      }
+      if (typeof item.portion !== 'string') {
+        issues.push(`"${itemPath}.portion" must be a string`);
+      }
+
+      const fieldValues = numericFields.length > 0
+        ? validateFieldValues(item.fieldValues, numericFields, issues, `${itemPath}.fieldValues`)
+        : {};
+      const fieldEstimates = numericFields.length > 0
+        ? validateFieldEstimates(item.fieldEstimates, numericFields, fieldValues, issues, `${itemPath}.fieldEstimates`)
+        : {};
+
+      items.push({
+        name: String(item.name ?? '').trim(),
+        portion: String(item.portion ?? '').trim(),
+        fieldValues: fieldValues as Record<string, number>,
+        fieldEstimates,
+      });
+    });
+  }
+
+  // Meal-level (non-numeric) fields - anything the model adds beyond these is dropped
+  const extractedFields = mealFields.length > 0
+    ? validateFieldValues(data.extractedFields, mealFields, issues, `${path}extractedFields`)
+    : {};
+
+  const numericFieldIds = numericFields.map((f) => f.id);
+
+  return {
+    title: String(data.title ?? '').trim(),
+    summary: String(data.summary ?? '').trim(),
+    extractedFields: {
+      ...extractedFields,
+      ...sumItemFields(items, numericFieldIds),
+    },
+    fieldEstimates: sumItemEstimates(items, numericFieldIds),
+    items,
+  };
+}
+
+/**
+ * Parse and strictly validate a structured response from the model
+ * @param rawResponse - JSON text returned by the model
+ * @param fields - Fields that were requested in the response schema
+ * @returns The validated analysis result
+ * @throws AIResponseValidationError if the response does not match the schema
+ */
+function parseAnalysisResponse(rawResponse: string, fields: FieldConfig[]): AIAnalysisResult {
+  const issues: string[] = [];
+  const result = validateAnalysis(parseJsonObject(rawResponse), fields, issues);
+
+  if (issues.length > 0) {
+    throw new AIResponseValidationError(issues, rawResponse);
+  }
+
+  return result;
+}
+
+/**
+ * Build the few-shot prompt section from the user's corrections on similar meals
+ * @returns Prompt lines, or an empty string when no similar meal was corrected
+ */
+function buildCorrectionsPrompt(corrections: AICorrection[], text: string, fields: FieldConfig[]): string {
+  const examples = findSimilarCorrections(corrections, text)
+    .map((correction) => {
+      const changes = fields
+        .filter((field) =>
+          isCorrectedValue(correction.originalValues[field.id], correction.correctedValues[field.id])
+        )
+        .map((field) => {
+          const unit = field.unit ? ` ${field.unit}` : '';
+          return `${field.id} ${correction.originalValues[field.id]} -> ${correction.correctedValues[field.id]}${unit}`;
+        });
+
+      const meal = correction.text.trim() || correction.title;
+      return changes.length > 0 ? `- "${meal}": ${changes.join(', ')}` : null;
+    })
+    .filter((line): line is string => !!line);
+
+  if (examples.length === 0) return '';
+
+  return `
+
+This user corrected your estimates for similar meals (your estimate -> their value). Adjust for the same foods accordingly:
+${examples.join('\n')}`;
+}
+
+/**
+ * Options for generateFoodSummary
+ */
+export interface AnalysisOptions {
+  providerConfig?: AIProviderConfig; // which provider/model to use (defaults to the environment)
+  corrections?: AICorrection[]; // user's past review corrections, used as few-shot examples
+  forceRefresh?: boolean; // ignore a cached result for identical inputs and analyze again
+}
+
+/**
+ * Generate AI summary and extract field values for a food entry
+ * @param text - User's text description of the food
+ * @param images - Photos of the meal in the order they were added (base64 data and detected MIME type)
+ * @param schema - Optional schema to determine which fields to extract
+ * @param options - Optional provider selection, past corrections, and cache bypass
+ * @returns AI-generated summary and extracted field values (identical inputs return the cached result)
+ * @throws AIResponseValidationError if the model's response does not match the schema
+ */
+export async function generateFoodSummary(
+  text: string,
+  images: AIImageInput[] = [],
+  schema?: DatabaseSchema | null,
+  options: AnalysisOptions = {}
+): Promise<AIAnalysisResult> {
+  const fieldsToExtract = getFieldsToExtract(schema);
+  console.log('Fields to extract from AI:', fieldsToExtract.map((f) => f.name));
+  const correctionsPrompt = buildCorrectionsPrompt(
+    options.corrections || [],
+    text,
+    fieldsToExtract.filter((f) => f.type === 'number')
+  );
 
   const prompt = `Analyze this food and provide a title, nutritional estimates, and a brief summary.
 
-Food description: ${text}
+Food description: ${text || '(no description - use the photo)'}
+
+IMPORTANT:${images.length > 1 ? `
+- The ${images.length} photos all show this one meal (e.g., different angles, or a plate and a drink) - count food seen in several photos only once` : ''}
+- Generate a natural, appetizing title that describes the meal
+- List every distinct food or drink as its own item with an estimated portion
+- Always provide your best estimates for ALL requested fields of each item
+- Numeric fields must be plain numbers in the stated unit (no text or ranges)
+- For each numeric field, also give your confidence and a low/high range that contains the estimate
+- Use "low" confidence when the portion or ingredients are unclear - be honest rather than precise${correctionsPrompt}`;
+
+  const provider = getAIProvider(options.providerConfig);
+  console.log(`AI prompt (${provider.id}):`, prompt);
 
-You MUST return EXACTLY this format:
-TITLE: [A short, descriptive meal name (2-5 words)]
-SUMMARY: [Brief 1-2 sentence nutritional summary]
-EXTRACTED_DATA: {JSON object with nutritional data}
+  const rawResponse = await provider.generate({
+    prompt,
+    responseSchema: buildResponseSchema(fieldsToExtract),
+    text,
+    images,
+    cache: {
+      task: 'meal',
+      promptVersion: PROMPT_VERSIONS.meal,
+      fieldIds: fieldsToExtract.map((f) => f.id),
+      corrections: correctionsPrompt,
+      forceRefresh: options.forceRefresh,
+    },
+  });
 
-${extractionInstructions}
+  console.log('AI full response:', rawResponse);
 
-Example format:
-TITLE: Grilled Chicken Salad
-SUMMARY: High-protein grilled chicken breast with mixed greens and olive oil dressing - a clean, balanced meal perfect for muscle building and weight management.
-EXTRACTED_DATA: ${extractionExample}
+  return { ...parseAnalysisResponse(rawResponse, fieldsToExtract), promptVersion: PROMPT_VERSIONS.meal };
+}
+
+/**
+ * Nutrition Label Result
+ * Values read from a nutrition facts panel, per serving as printed
+ */
+export interface NutritionLabelResult {
+  productName: string;
+  servingSize: string; // as printed (e.g., '2/3 cup (55 g)')
+  servingsPerContainer: number | null;
+  perServing: Record<string, number>; // numeric schema fields found on the label (missing ones are omitted)
+  promptVersion?: string; // version of the prompt that read the label (see PROMPT_VERSIONS)
+}
+
+/**
+ * Build the structured-output response schema for reading a nutrition label
+ */
+function buildLabelResponseSchema(fields: FieldConfig[]): ObjectSchema {
+  const perServing: Record<string, Schema> = {};
+  fields.forEach((field) => {
+    perServing[field.id] = {
+      type: SchemaType.NUMBER,
+      description: `${field.name} per serving as printed (number in ${field.unit || 'units'}), null if not on the label`,
+      nullable: true,
+    };
+  });
+
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      productName: { type: SchemaType.STRING, description: 'Product name, or a short description if not visible' },
+      servingSize: { type: SchemaType.STRING, description: 'Serving size exactly as printed (e.g., "2/3 cup (55 g)")' },
+      servingsPerContainer: {
+        type: SchemaType.NUMBER,
+        description: 'Servings per container, null if not printed',
+        nullable: true,
+      },
+      perServing: {
+        type: SchemaType.OBJECT,
+        properties: perServing,
+        required: fields.map((f) => f.id),
+      },
+    },
+    required: ['productName', 'servingSize', 'servingsPerContainer', 'perServing'],
+  };
+}
+
+/**
+ * Parse and strictly validate a nutrition label response from the model
+ * @throws AIResponseValidationError if the response does not match the schema
+ */
+function parseLabelResponse(rawResponse: string, fields: FieldConfig[]): NutritionLabelResult {
+  const data = parseJsonObject(rawResponse);
+  const issues: string[] = [];
+
+  if (typeof data.productName !== 'string') {
+    issues.push('"productName" must be a string');
+  }
+  if (typeof data.servingSize !== 'string' || !data.servingSize.trim()) {
+    issues.push('"servingSize" must be a non-empty string');
+  }
+  if (
+    data.servingsPerContainer !== null &&
+    (typeof data.servingsPerContainer !== 'number' || !(data.servingsPerContainer > 0))
+  ) {
+    issues.push('"servingsPerContainer" must be a positive number or null');
+  }
+
+  // Values that aren't printed come back as null and are left out
+  const perServing: Record<string, number> = {};
+  const rawValues = data.perServing;
+  if (!rawValues || typeof rawValues !== 'object' || Array.isArray(rawValues)) {
+    issues.push('"perServing" must be an object');
+  } else {
+    fields.forEach((field) => {
+      const value = (rawValues as Record<string, unknown>)[field.id];
+      if (value === null) return;
+      const issue = validateFieldValue(field, value, `perServing.${field.id}`);
+      if (issue) {
+        issues.push(issue);
+      } else {
+        perServing[field.id] = value as number;
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new AIResponseValidationError(issues, rawResponse);
+  }
+
+  return {
+    productName: (data.productName as string).trim() || 'Packaged Food',
+    servingSize: (data.servingSize as string).trim(),
+    servingsPerContainer: data.servingsPerContainer as number | null,
+    perServing,
+  };
+}
+
+/**
+ * Read a photographed nutrition facts label
+ * @param images - Photos of the product, at least one showing the label (base64 data and detected MIME type)
+ * @param schema - Optional schema to determine which numeric fields to read
+ * @param options - Optional provider selection and cache bypass
+ * @param text - Optional note from the user (e.g., the product name)
+ * @returns Per-serving values for the schema's numeric fields and the serving size
+ * @throws AIResponseValidationError if the model's response does not match the schema
+ */
+export async function extractNutritionLabel(
+  images: AIImageInput[],
+  schema?: DatabaseSchema | null,
+  options: AnalysisOptions = {},
+  text: string = ''
+): Promise<NutritionLabelResult> {
+  const numericFields = getFieldsToExtract(schema).filter((f) => f.type === 'number');
 
+  const prompt = `Read the nutrition facts label in ${images.length > 1 ? 'these photos of one product' : 'this photo'}.
+${text ? `\nUser note: ${text}\n` : ''}
 IMPORTANT:
-- Generate a natural, appetizing title that describes the meal
-- Always provide your best estimates for ALL requested fields (use 0 or null only if truly unknown)
-- Return valid JSON in the EXTRACTED_DATA section`;
+- Copy values exactly as printed for ONE serving - do not estimate or adjust them
+- Convert to the requested unit only when the label uses a different one (e.g., g to mg)
+- Net carbs are total carbohydrates minus dietary fiber when both are printed
+- Use null for any value that is not printed and cannot be derived from printed values`;
 
-  console.log('Gemini prompt:', prompt);
+  const provider = getAIProvider(options.providerConfig);
+  console.log(`AI label prompt (${provider.id}):`, prompt);
 
-  try {
-    let result;
+  const rawResponse = await provider.generate({
+    prompt,
+    responseSchema: buildLabelResponseSchema(numericFields),
+    text,
+    images,
+    cache: {
+      task: 'label',
+      promptVersion: PROMPT_VERSIONS.label,
+      fieldIds: numericFields.map((f) => f.id),
+      forceRefresh: options.forceRefresh,
+    },
+  });
+
+  console.log('AI label response:', rawResponse);
+
+  return { ...parseLabelResponse(rawResponse, numericFields), promptVersion: PROMPT_VERSIONS.label };
+}
+
+/**
+ * One meal split out of a multi-meal log
+ */
+export interface MealLogEntry extends AIAnalysisResult {
+  description: string; // the part of the log this entry came from (e.g., "burrito at 1pm")
+  timestamp: number; // when it was eaten, resolved from the described day and time
+}
 
-    if (imageBase64) {
-      const imagePart = {
-        inlineData: {
-          data: imageBase64,
-          mimeType: 'image/jpeg',
+/**
+ * Build the response schema for a multi-meal log: one analyzed meal per entry,
+ * plus when it was eaten as a relative day and an optional time of day
+ */
+function buildMealLogResponseSchema(fields: FieldConfig[]): ObjectSchema {
+  const mealSchema = buildResponseSchema(fields);
+
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      entries: {
+        type: SchemaType.ARRAY,
+        description: 'One entry per separate meal, snack, or drink occasion, in the order eaten',
+        minItems: 1,
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            description: {
+              type: SchemaType.STRING,
+              description: 'The part of the log describing this meal (e.g., "burrito at 1pm")',
+            },
+            dayOffset: {
+              type: SchemaType.INTEGER,
+              description: `Day eaten relative to today: 0 = today, -1 = yesterday (at most ${MAX_DAYS_BACK} days back)`,
+            },
+            time: {
+              type: SchemaType.STRING,
+              nullable: true,
+              description: 'Time eaten as 24-hour HH:MM, or null when the log gives no time or meal cue',
+            },
+            ...mealSchema.properties,
+          },
+          required: ['description', 'dayOffset', 'time', ...(mealSchema.required || [])],
         },
-      };
-      result = await model.generateContent([prompt, imagePart]);
-    } else {
-      result = await model.generateContent(prompt);
-    }
+      },
+    },
+    required: ['entries'],
+  };
+}
 
-    const response = await result.response;
-    const fullResponse = response.text();
-
-    console.log('Gemini full response:', fullResponse);
-
-    // Parse the response
-    const titleMatch = fullResponse.match(/TITLE:\s*(.+?)(?:\n|$)/);
-    const summaryMatch = fullResponse.match(/SUMMARY:\s*(.+?)(?:\n|EXTRACTED_DATA)/s);
-    const extractedMatch = fullResponse.match(/EXTRACTED_DATA:\s*(\{[\s\S]*?\})/);
-
-    console.log('Title match:', titleMatch);
-    console.log('Summary match:', summaryMatch);
-    console.log('Extracted match:', extractedMatch);
-
-    let title = titleMatch ? titleMatch[1].trim() : 'Food Entry';
-    let summary = summaryMatch ? summaryMatch[1].trim() : fullResponse;
-    let extractedFields: Record<string, any> = {};
-
-    if (extractedMatch) {
-      try {
-        const jsonStr = extractedMatch[1].trim();
-        extractedFields = JSON.parse(jsonStr);
-        console.log('Parsed extracted fields:', extractedFields);
-      } catch (e) {
-        console.warn('Failed to parse extracted data:', e);
-        console.warn('Raw extracted data:', extractedMatch[1]);
-
-        // Try to extract numbers manually if JSON parsing fails
-        const proteinMatch = fullResponse.match(/protein["\s]*:?\s*([\d.]+)/i);
-        const carbsMatch = fullResponse.match(/(?:carbs|net_carbs)["\s]*:?\s*([\d.]+)/i);
-        const fatMatch = fullResponse.match(/fat["\s]*:?\s*([\d.]+)/i);
-        const caloriesMatch = fullResponse.match(/calories["\s]*:?\s*([\d.]+)/i);
-
-        if (proteinMatch || carbsMatch || fatMatch || caloriesMatch) {
-          extractedFields = {
-            protein: proteinMatch ? parseFloat(proteinMatch[1]) : null,
-            carbs: carbsMatch ? parseFloat(carbsMatch[1]) : null,
-            fat: fatMatch ? parseFloat(fatMatch[1]) : null,
-            calories: caloriesMatch ? parseFloat(caloriesMatch[1]) : null
-          };
-          console.log('Manually extracted fields:', extractedFields);
-        }
+/**
+ * Parse and strictly validate a multi-meal log response
+ * @param rawResponse - JSON text returned by the model
+ * @param fields - Fields that were requested for each meal
+ * @param now - Reference time the relative days and times are resolved against
+ * @throws AIResponseValidationError if the response does not match the schema
+ */
+function parseMealLogResponse(rawResponse: string, fields: FieldConfig[], now: Date): MealLogEntry[] {
+  const data = parseJsonObject(rawResponse);
+  const issues: string[] = [];
+  const entries: MealLogEntry[] = [];
+
+  if (!Array.isArray(data.entries) || data.entries.length === 0) {
+    issues.push('"entries" must be a non-empty list');
+  } else {
+    data.entries.forEach((rawEntry: unknown, index: number) => {
+      const path = `entries[${index}].`;
+      const entry = (rawEntry || {}) as Record<string, unknown>;
+
+      if (typeof entry.description !== 'string') {
+        issues.push(`"${path}description" must be a string`);
+      }
+      if (
+        typeof entry.dayOffset !== 'number' ||
+        !Number.isInteger(entry.dayOffset) ||
+        entry.dayOffset > 0 ||
+        entry.dayOffset < -MAX_DAYS_BACK
+      ) {
+        issues.push(`"${path}dayOffset" must be an integer from -${MAX_DAYS_BACK} to 0`);
+      }
+      if (entry.time !== null && (typeof entry.time !== 'string' || !/^([01]?\d|2[0-3]):[0-5]\d$/.test(entry.time))) {
+        issues.push(`"${path}time" must be HH:MM or null`);
       }
-    }
-    
-    // Ensure basic macros always exist (set to 0 if missing)
-    // This ensures dashboard always has data to display
-    if (!extractedFields.protein && extractedFields.protein !== 0) {
-      extractedFields.protein = 0;
-    }
-    if (!extractedFields.carbs && extractedFields.carbs !== 0) {
-      extractedFields.carbs = 0;
-    }
-    if (!extractedFields.fat && extractedFields.fat !== 0) {
-      extractedFields.fat = 0;
-    }
-    if (!extractedFields.calories && extractedFields.calories !== 0) {
-      extractedFields.calories = 0;
-    }
 
-    return {
-      title,
-      summary,
-      extractedFields
-    };
-  } catch (error: any) {
-    console.error('Error generating AI summary:', error);
-    
-    if (error.message?.includes('API key')) {
-      return {
-        title: 'Food Entry',
-        summary: 'Unable to generate summary: Invalid API key.',
-        extractedFields: {}
-      };
-    } else if (error.status === 404) {
-      return {
-        title: 'Food Entry',
-        summary: 'Unable to generate summary: Model not found.',
-        extractedFields: {}
-      };
-    }
+      const analysis = validateAnalysis(entry, fields, issues, path);
+      entries.push({
+        ...analysis,
+        description: String(entry.description ?? '').trim(),
+        timestamp: resolveEntryTimestamp(Number(entry.dayOffset) || 0, (entry.time as string | null) ?? null, now),
+      });
+    });
+  }
 
+  if (issues.length > 0) {
+    throw new AIResponseValidationError(issues, rawResponse);
+  }
+
+  return entries;
+}
+
+/**
+ * Split a pasted log of several meals into separately analyzed entries
+ * @param text - Free-form log (e.g., "yesterday: oatmeal for breakfast, burrito at 1pm; today coffee")
+ * @param schema - Optional schema to determine which fields to extract
+ * @param options - Optional provider selection, past corrections, and cache bypass
+ * @param now - Reference time for "today" (defaults to the current time)
+ * @returns Proposed entries in the order eaten, each with its own timestamp
+ * @throws AIResponseValidationError if the model's response does not match the schema
+ */
+export async function splitMealLog(
+  text: string,
+  schema?: DatabaseSchema | null,
+  options: AnalysisOptions = {},
+  now: Date = new Date()
+): Promise<MealLogEntry[]> {
+  const fieldsToExtract = getFieldsToExtract(schema);
+  const today = now.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  const currentTime = now.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+  const correctionsPrompt = buildCorrectionsPrompt(
+    options.corrections || [],
+    text,
+    fieldsToExtract.filter((f) => f.type === 'number')
+  );
+
+  const prompt = `Split this food log into separate meals and analyze each one.
+
+Food log: ${text}
+
+Today is ${today} and the time is ${currentTime}.
+
+IMPORTANT:
+- Create one entry per separate meal, snack, or drink occasion - foods eaten together belong to the same entry
+- Give each entry the day it was eaten relative to today, using the log's day words ("yesterday", "on Monday")
+- Foods with no day word belong to the most recently mentioned day (today if none)
+- Use the stated time, or a typical time for a named meal (breakfast 08:00, lunch 12:30, dinner 19:00); use null when there is no cue
+- For each entry, give a natural title, list every distinct food or drink as its own item, and estimate ALL requested fields
+- Numeric fields must be plain numbers in the stated unit (no text or ranges)
+- For each numeric field, also give your confidence and a low/high range that contains the estimate${correctionsPrompt}`;
+
+  const provider = getAIProvider(options.providerConfig);
+  console.log(`AI meal log prompt (${provider.id}):`, prompt);
+
+  const rawResponse = await provider.generate({
+    prompt,
+    responseSchema: buildMealLogResponseSchema(fieldsToExtract),
+    text,
+    cache: {
+      task: 'meal-log',
+      promptVersion: PROMPT_VERSIONS['meal-log'],
+      fieldIds: fieldsToExtract.map((f) => f.id),
+      corrections: correctionsPrompt,
+      // Day words are relative, so a cached split is only reused on the same date
+      context: now.toDateString(),
+      forceRefresh: options.forceRefresh,
+    },
+  });
+
+  console.log('AI meal log response:', rawResponse);
+
+  return parseMealLogResponse(rawResponse, fieldsToExtract, now).map((entry) => ({
+    ...entry,
+    promptVersion: PROMPT_VERSIONS['meal-log'],
+  }));
+}
+
+/**
+ * Backfill Result
+ * Values for fields a saved entry was analyzed without
+ */
+export interface BackfillResult {
+  extractedFields: Record<string, ExtractedValue>; // only the requested fields; numeric values are totals of items
+  fieldEstimates: Record<string, FieldEstimate>;
+  items: FoodItem[] | null; // the entry's items with the new values added, or null if it has none or they didn't match
+}
+
+/**
+ * Estimate fields a saved entry was analyzed without (e.g., a field added to the schema later)
+ * The entry's existing items are kept: the model is asked for the new fields of each item,
+ * and the new totals are summed from them. Values already on the entry are never requested.
+ * @param entry - The saved entry's description, title, and items
+ * @param images - The entry's photos (base64 data and detected MIME type)
+ * @param fields - Fields to estimate (only the ones missing from the entry)
+ * @param options - Optional provider selection and cache bypass
+ * @throws AIResponseValidationError if the model's response does not match the schema
+ */
+export async function backfillEntryFields(
+  entry: { text: string; title: string; items: FoodItem[] },
+  images: AIImageInput[],
+  fields: FieldConfig[],
+  options: AnalysisOptions = {}
+): Promise<BackfillResult> {
+  const itemList = entry.items.map((item, index) => `${index + 1}. ${item.name}${item.portion ? ` (${item.portion})` : ''}`);
+
+  const prompt = `This meal was analyzed before. Estimate ONLY the requested fields for it.
+
+Meal: ${entry.title || '(untitled)'}
+Food description: ${entry.text || '(no description - use the photo)'}
+${itemList.length > 0 ? `
+The meal was itemized as:
+${itemList.join('\n')}
+` : ''}
+IMPORTANT:${itemList.length > 0 ? `
+- Return exactly these ${itemList.length} items, in this order, with the same names and portions` : `
+- List every distinct food or drink as its own item with an estimated portion`}
+- Keep the existing title; the summary may be empty
+- Numeric fields must be plain numbers in the stated unit (no text or ranges)
+- For each numeric field, also give your confidence and a low/high range that contains the estimate`;
+
+  const provider = getAIProvider(options.providerConfig);
+  console.log(`AI backfill prompt (${provider.id}):`, prompt);
+
+  const rawResponse = await provider.generate({
+    prompt,
+    responseSchema: buildResponseSchema(fields),
+    text: entry.text || entry.title,
+    images,
+    cache: {
+      task: 'backfill',
+      promptVersion: PROMPT_VERSIONS.backfill,
+      fieldIds: fields.map((f) => f.id),
+      context: itemList.join('; '),
+      forceRefresh: options.forceRefresh,
+    },
+  });
+
+  console.log('AI backfill response:', rawResponse);
+
+  const result = parseAnalysisResponse(rawResponse, fields);
+  const numericFieldIds = fields.filter((f) => f.type === 'number').map((f) => f.id);
+
+  // Without matching items, only the new totals are used (new items would lack the older fields)
+  if (entry.items.length === 0 || result.items.length !== entry.items.length) {
     return {
-      title: 'Food Entry',
-      summary: 'Unable to generate summary. Please try again.',
-      extractedFields: {}
+      extractedFields: result.extractedFields,
+      fieldEstimates: result.fieldEstimates,
+      items: null,
     };
   }
+
+  const items = entry.items.map((item, index) => ({
+    ...item,
+    fieldValues: { ...item.fieldValues, ...result.items[index].fieldValues },
+    fieldEstimates: { ...item.fieldEstimates, ...result.items[index].fieldEstimates },
+  }));
+
+  return {
+    extractedFields: { ...result.extractedFields, ...sumItemFields(items, numericFieldIds) },
+    fieldEstimates: sumItemEstimates(items, numericFieldIds),
+    items,
+  };
+}
+
+/**
+ * Most dishes read from a menu (keeps responses small on long menus)
+ */
+const MAX_MENU_DISHES = 25;
+
+/**
+ * A dish read from a restaurant menu, with values estimated for one typical serving
+ */
+export interface MenuDish {
+  name: string;
+  description: string; // as printed on the menu (empty if there is none)
+  price: string | null; // as printed (e.g., '$14.50')
+  fieldValues: Record<string, number>; // numeric schema fields for one serving
+  fieldEstimates: Record<string, FieldEstimate>;
+}
+
+/**
+ * Restaurant Menu Result
+ */
+export interface RestaurantMenuResult {
+  dishes: MenuDish[];
+  promptVersion: string;
+}
+
+/**
+ * Build the structured-output response schema for reading a restaurant menu
+ */
+function buildMenuResponseSchema(fields: FieldConfig[]): ObjectSchema {
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      dishes: {
+        type: SchemaType.ARRAY,
+        description: 'Dishes on the menu, in the order printed',
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            name: { type: SchemaType.STRING, description: 'Dish name as printed' },
+            description: { type: SchemaType.STRING, description: 'Dish description as printed, empty if there is none' },
+            price: { type: SchemaType.STRING, description: 'Price as printed, null if not shown', nullable: true },
+            fieldValues: buildFieldsObjectSchema(fields),
+            fieldEstimates: buildEstimatesObjectSchema(fields),
+          },
+          required: ['name', 'description', 'price', 'fieldValues', 'fieldEstimates'],
+        },
+      },
+    },
+    required: ['dishes'],
+  };
+}
+
+/**
+ * Parse and strictly validate a restaurant menu response from the model
+ * @throws AIResponseValidationError if the response does not match the schema
+ */
+function parseMenuResponse(rawResponse: string, fields: FieldConfig[]): MenuDish[] {
+  const data = parseJsonObject(rawResponse);
+  const issues: string[] = [];
+  const dishes: MenuDish[] = [];
+
+  if (!Array.isArray(data.dishes) || data.dishes.length === 0) {
+    issues.push('"dishes" must be a non-empty list');
+  } else {
+    data.dishes.slice(0, MAX_MENU_DISHES).forEach((rawDish: unknown, index: number) => {
+      const path = `dishes[${index}]`;
+      const dish = (rawDish || {}) as Record<string, unknown>;
+
+      if (typeof dish.name !== 'string' || !dish.name.trim()) {
+        issues.push(`"${path}.name" must be a non-empty string`);
+      }
+      if (typeof dish.description !== 'string') {
+        issues.push(`"${path}.description" must be a string`);
+      }
+      if (dish.price !== null && typeof dish.price !== 'string') {
+        issues.push(`"${path}.price" must be a string or null`);
+      }
+
+      const fieldValues = validateFieldValues(dish.fieldValues, fields, issues, `${path}.fieldValues`);
+      dishes.push({
+        name: String(dish.name ?? '').trim(),
+        description: String(dish.description ?? '').trim(),
+        price: typeof dish.price === 'string' && dish.price.trim() ? dish.price.trim() : null,
+        fieldValues: fieldValues as Record<string, number>,
+        fieldEstimates: validateFieldEstimates(dish.fieldEstimates, fields, fieldValues, issues, `${path}.fieldEstimates`),
+      });
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new AIResponseValidationError(issues, rawResponse);
+  }
+
+  return dishes;
+}
+
+/**
+ * Read a photographed restaurant menu into dishes with estimated values
+ * @param images - Photos of the menu pages (base64 data and detected MIME type)
+ * @param schema - Optional schema to determine which numeric fields to estimate
+ * @param options - Optional provider selection and cache bypass
+ * @param text - Optional note from the user (e.g., the restaurant name)
+ * @returns The menu's dishes, each estimated for one typical serving
+ * @throws AIResponseValidationError if the model's response does not match the schema
+ */
+export async function readRestaurantMenu(
+  images: AIImageInput[],
+  schema?: DatabaseSchema | null,
+  options: AnalysisOptions = {},
+  text: string = ''
+): Promise<RestaurantMenuResult> {
+  const numericFields = getFieldsToExtract(schema).filter((f) => f.type === 'number');
+
+  const prompt = `Read the restaurant menu in ${images.length > 1 ? 'these photos' : 'this photo'} and estimate the nutrition of each dish.
+${text ? `\nUser note: ${text}\n` : ''}
+IMPORTANT:
+- List each main dish, salad, bowl, or sandwich - at most ${MAX_MENU_DISHES}, skipping drinks, desserts, and sides unless they are most of the menu
+- Copy names, descriptions, and prices as printed
+- Estimate ALL requested fields for ONE serving as typically plated at a restaurant, including oils, sauces, and included sides
+- Numeric fields must be plain numbers in the stated unit (no text or ranges)
+- For each numeric field, also give your confidence and a low/high range that contains the estimate`;
+
+  const provider = getAIProvider(options.providerConfig);
+  console.log(`AI menu prompt (${provider.id}):`, prompt);
+
+  const rawResponse = await provider.generate({
+    prompt,
+    responseSchema: buildMenuResponseSchema(numericFields),
+    text,
+    images,
+    cache: {
+      task: 'menu',
+      promptVersion: PROMPT_VERSIONS.menu,
+      fieldIds: numericFields.map((f) => f.id),
+      forceRefresh: options.forceRefresh,
+    },
+  });
+
+  console.log('AI menu response:', rawResponse);
+
+  return { dishes: parseMenuResponse(rawResponse, numericFields), promptVersion: PROMPT_VERSIONS.menu };
 }
@@ -8,6 +8,7 @@
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import app, { auth } from '../config/firebase';
 import type { FoodEntry, DatabaseSchema } from '../types';
+import { getEntryPhotos } from '../utils/photos';
 
 /**
  * Sync a food entry to Notion database
@@ -54,6 +55,7 @@ export async function syncEntryToNotion(
         aiSummary: entry.aiSummary,
         timestamp: entry.timestamp,
         photoUrl: entry.photoUrl || null,
+        photoUrls: getEntryPhotos(entry).map((photo) => photo.url), // all photos, added as images to the page
         fieldValues: entry.fieldValues || {}, // Include dynamic field values
       },
     });
@@ -291,6 +293,48 @@ export async function queryNotionEntries(
   }
 }
 
+/**
+ * Update field values on a synced entry's Notion page
+ * @param notionApiKey - User's Notion integration token
+ * @param pageId - Notion page ID of the entry
+ * @param schema - Schema that maps field IDs to Notion properties
+ * @param fieldValues - Values to write, keyed by field ID (other properties are left as they are)
+ */
+export async function updateNotionEntry(
+  notionApiKey: string,
+  pageId: string,
+  schema: DatabaseSchema,
+  fieldValues: Record<string, unknown>
+): Promise<void> {
+  if (!notionApiKey || !pageId) {
+    throw new Error('Notion API key and page ID are required');
+  }
+
+  // Check if user is authenticated
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('You must be logged in to update Notion. Please sign in and try again.');
+  }
+
+  try {
+    // Ensure auth token is fresh
+    await currentUser.getIdToken();
+
+    const functions = getFunctions(app, 'us-central1');
+    const updateEntry = httpsCallable(functions, 'notionUpdateEntry');
+    await updateEntry({ notionApiKey, pageId, schema, fieldValues });
+  } catch (error: unknown) {
+    console.error('Error updating Notion page:', error);
+
+    const callError = error as { code?: string; message?: string };
+    if (callError.code === 'unauthenticated' || callError.message?.includes('unauthenticated')) {
+      throw new Error('Authentication failed. Please try signing out and signing back in.');
+    }
+
+    throw new Error(callError.message || 'Failed to update Notion page. Please check your API key.');
+  }
+}
+
 /**
  * Delete a page from Notion database (archive it)
  * @param notionApiKey - User's Notion integration token
@@ -0,0 +1,338 @@
+/**
+ * Outbox Service
+ *
+ * Durable queue of meals logged without a connection, stored in IndexedDB with their photos.
+ * drainOutbox() logs each queued meal the way AddEntryModal and useEntryWriter do - upload,
+ * analyze, save, then sync to Notion - and stores every finished step on the item, so an attempt
+ * that fails part way (or a closed tab) resumes where it stopped instead of starting over.
+ * Waiting entries also ask the service worker to wake open windows when the connection returns.
+ */
+
+import { generateFoodSummary, getSchemaAIFields } from './gemini';
+import { resolveAIProviderConfig } from './ai';
+import { createEntry, getEntry, updateEntry, getUserSettings, getActiveSchema, getUserCorrections } from './firestore';
+import { syncEntryToNotion } from './notion';
+import { uploadPhotos, uploadVoiceNote } from './storage';
+import { requestOutboxWakeUp } from './serviceWorker';
+import { readPhotoForAI } from '../utils/photos';
+import type { FoodEntry, OutboxEntry, OutboxPhoto } from '../types';
+
+const DB_NAME = 'food-outbox';
+const STORE_NAME = 'entries';
+const CHANNEL_NAME = 'food-outbox';
+
+export const MAX_OUTBOX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 30 * 1000; // 30s, then 2m, 8m, 30m
+const RETRY_MAX_DELAY = 30 * 60 * 1000;
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error: unknown) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run one request in its own transaction
+ */
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function readItem(id: string): Promise<OutboxEntry | undefined> {
+  return runRequest('readonly', (store) => store.get(id));
+}
+
+async function writeItem(item: OutboxEntry): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(item));
+  notifyChange();
+}
+
+async function deleteItem(id: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(id));
+  notifyChange();
+}
+
+// ============================================================================
+// Change notifications (this tab and other open tabs)
+// ============================================================================
+
+const listeners = new Set<() => void>();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+if (channel) {
+  channel.onmessage = () => listeners.forEach((listener) => listener());
+}
+
+function notifyChange() {
+  listeners.forEach((listener) => listener());
+  channel?.postMessage('changed');
+}
+
+/**
+ * Listen for queued entries being added, updated, or removed
+ * @returns Function that removes the listener
+ */
+export function onOutboxChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * Queue a meal to be logged when the connection returns
+ * @param entry - What the user entered (photos already compressed and stripped of location)
+ * @returns The queued item
+ */
+export async function queueEntry(entry: {
+  userId: string;
+  timestamp: number;
+  text: string;
+  photos: OutboxPhoto[];
+  voiceNote?: Blob;
+}): Promise<OutboxEntry> {
+  const now = Date.now();
+  const item: OutboxEntry = {
+    id: crypto.randomUUID(),
+    userId: entry.userId,
+    createdAt: now,
+    timestamp: entry.timestamp,
+    text: entry.text,
+    photos: entry.photos,
+    status: 'waiting',
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+  if (entry.voiceNote) {
+    item.voiceNote = entry.voiceNote;
+  }
+
+  await writeItem(item);
+  requestOutboxWakeUp();
+  return item;
+}
+
+/**
+ * Get a user's queued entries
+ * @returns Queued entries, oldest first
+ */
+export async function getOutboxEntries(userId: string): Promise<OutboxEntry[]> {
+  const items = await runRequest<OutboxEntry[]>('readonly', (store) => store.getAll());
+  return items
+    .filter((item) => item.userId === userId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Retry a queued entry now (also restarts one that ran out of attempts)
+ */
+export async function retryOutboxEntry(id: string): Promise<void> {
+  const item = await readItem(id);
+  if (!item) return;
+
+  await writeItem({ ...item, status: 'waiting', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined });
+  await drainOutbox(item.userId);
+}
+
+/**
+ * Remove a queued entry without logging it
+ * (photos it had already uploaded stay in Storage)
+ */
+export async function discardOutboxEntry(id: string): Promise<void> {
+  await deleteItem(id);
+}
+
+// ============================================================================
+// Draining
+// ============================================================================
+
+const draining = new Map<string, Promise<void>>(); // in-flight drain of each user
+
+/**
+ * Log every queued entry of a user that is due
+ * Calls for the same user made while a drain is running share it; other tabs wait for
+ * the user's lock, so an entry is never logged twice.
+ */
+export function drainOutbox(userId: string): Promise<void> {
+  let request = draining.get(userId);
+  if (!request) {
+    const run = () => drainDueEntries(userId);
+    request = (navigator.locks
+      ? navigator.locks.request(`outbox-drain/${userId}`, run).then(() => undefined)
+      : run()
+    ).finally(() => {
+      draining.delete(userId);
+    });
+    draining.set(userId, request);
+  }
+  return request;
+}
+
+async function drainDueEntries(userId: string): Promise<void> {
+  const items = await getOutboxEntries(userId);
+
+  for (const item of items) {
+    if (!navigator.onLine) return;
+    if (item.status === 'failed' || item.nextAttemptAt > Date.now()) continue;
+
+    // Re-read in case another tab changed it before this one got the lock
+    const current = await readItem(item.id);
+    if (!current || current.status === 'failed') continue;
+
+    try {
+      await processEntry(current);
+    } catch (err) {
+      console.error('Failed to log queued entry:', err);
+      const latest = await readItem(item.id);
+      if (!latest) continue;
+
+      // Losing the connection part way isn't the entry's fault: it doesn't count as an attempt,
+      // and the entry is tried again as soon as the connection returns
+      const online = navigator.onLine;
+      const attempts = online ? latest.attempts + 1 : latest.attempts;
+      const delay = online ? Math.min(RETRY_BASE_DELAY * 4 ** (attempts - 1), RETRY_MAX_DELAY) : 0;
+      await writeItem({
+        ...latest,
+        status: attempts >= MAX_OUTBOX_ATTEMPTS ? 'failed' : 'waiting',
+        attempts,
+        nextAttemptAt: Date.now() + delay,
+        lastError: err instanceof Error ? err.message : 'Failed to log entry',
+      });
+      if (attempts < MAX_OUTBOX_ATTEMPTS) requestOutboxWakeUp();
+    }
+  }
+}
+
+/**
+ * Log one queued entry, skipping the steps a previous attempt finished
+ */
+async function processEntry(initial: OutboxEntry): Promise<void> {
+  let item = initial;
+  const update = async (changes: Partial<OutboxEntry>) => {
+    item = { ...item, ...changes };
+    await writeItem(item);
+  };
+
+  // Upload photos and voice note
+  if (!item.uploadedPhotos) {
+    await update({ status: 'uploading' });
+    await update({ uploadedPhotos: await uploadPhotos(item.userId, item.photos) });
+  }
+  if (item.voiceNote && !item.voiceNoteUrl) {
+    await update({ status: 'uploading' });
+    await update({ voiceNoteUrl: await uploadVoiceNote(item.userId, item.voiceNote) });
+  }
+
+  const [settings, schema] = await Promise.all([getUserSettings(item.userId), getActiveSchema(item.userId)]);
+
+  // Analyze (queued entries skip the review, so the AI values are saved as they are)
+  if (!item.analysis) {
+    await update({ status: 'analyzing' });
+    const corrections = await getUserCorrections(item.userId).catch((err: unknown) => {
+      console.error('Error loading AI corrections:', err);
+      return [];
+    });
+    const images = await Promise.all(item.photos.map(readPhotoForAI));
+    const aiResult = await generateFoodSummary(item.text, images, schema, {
+      providerConfig: resolveAIProviderConfig(settings),
+      corrections,
+    });
+    await update({
+      analysis: {
+        title: aiResult.title,
+        aiSummary: aiResult.summary,
+        extractedFields: aiResult.extractedFields,
+        fieldEstimates: aiResult.fieldEstimates,
+        items: aiResult.items,
+        promptVersion: aiResult.promptVersion,
+      },
+    });
+  }
+
+  // Save to Firestore (source of truth)
+  const analysis = item.analysis!;
+  const photos = item.uploadedPhotos!;
+  const [firstPhoto] = photos;
+  const hasNotion = !!(settings?.notionApiKey && settings?.notionDatabaseId);
+  let entry: FoodEntry | null = null;
+
+  if (!item.entryId) {
+    await update({ status: 'saving' });
+
+    const entryData: Omit<FoodEntry, 'id'> = {
+      userId: item.userId,
+      timestamp: item.timestamp,
+      title: analysis.title,
+      text: item.text,
+      photoUrl: firstPhoto?.url || '',
+      aiSummary: analysis.aiSummary,
+      items: analysis.items,
+      fieldEstimates: analysis.fieldEstimates,
+      source: 'estimate',
+      fieldValues: {
+        name: analysis.title,
+        date: item.timestamp,
+        summary: analysis.aiSummary,
+        photo: firstPhoto?.url || '',
+        ...analysis.extractedFields,
+      },
+    };
+    if (photos.length > 0) entryData.photos = photos;
+    if (firstPhoto?.thumbnailUrl) entryData.thumbnailUrl = firstPhoto.thumbnailUrl;
+    if (item.voiceNoteUrl) entryData.voiceNoteUrl = item.voiceNoteUrl;
+    if (analysis.promptVersion) entryData.promptVersion = analysis.promptVersion;
+    if (schema) {
+      entryData.schemaId = schema.id;
+      entryData.analyzedFieldIds = getSchemaAIFields(schema).map((field) => field.id);
+    }
+
+    entry = await createEntry(entryData);
+    await update({ entryId: entry.id, notionPending: hasNotion });
+  }
+
+  // Mirror to Notion - a pending sync is kept on the item, so an attempt that fails (or a tab
+  // closed after the save) syncs it on the next drain; the page ID is stored as soon as the page
+  // exists, so a retry never creates a second one
+  if (item.notionPending && item.entryId && settings?.notionApiKey && settings?.notionDatabaseId) {
+    await update({ status: 'syncing' });
+    entry = entry || (await getEntry(item.entryId));
+
+    if (entry) {
+      if (!item.notionPageId) {
+        const notionPageId = await syncEntryToNotion(entry, settings.notionApiKey, settings.notionDatabaseId, schema);
+        await update({ notionPageId });
+      }
+      await updateEntry(entry.id, { notionPageId: item.notionPageId });
+    }
+  }
+
+  await deleteItem(item.id);
+}
@@ -0,0 +1,74 @@
+/**
+ * Service Worker Service
+ *
+ * Registers /sw.js (see public/sw.js) and connects it to the outbox:
+ * - requestOutboxWakeUp() asks the browser to wake the worker once it's back online
+ * - The worker then asks open windows to drain the outbox (onDrainRequest)
+ * This is not a true background sync: the worker can't log meals itself, so with no
+ * window open the outbox waits until the app is opened again.
+ */
+
+const OUTBOX_WAKE_UP_TAG = 'outbox-wake-up';
+
+// The Background Sync API (used for the wake-up) isn't in the DOM typings yet
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+let drainHandler: (() => Promise<boolean>) | null = null;
+
+/**
+ * Register the service worker (production builds only - in development it would cache the dev server)
+ */
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator)) return;
+
+  // Wake-ups: reply whether the outbox was drained, so the browser retries if not
+  navigator.serviceWorker.addEventListener('message', async (event) => {
+    if (event.data?.type !== 'drain-outbox') return;
+    const [port] = event.ports;
+
+    let ok = false;
+    try {
+      ok = drainHandler ? await drainHandler() : false;
+    } catch (err) {
+      console.error('Outbox drain on wake-up failed:', err);
+    }
+    port?.postMessage({ ok });
+  });
+
+  if (!import.meta.env.PROD) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('Service worker registration failed:', err);
+    });
+  });
+}
+
+/**
+ * Ask to be woken when the connection returns, to drain the outbox in open windows
+ * (no-op where the Background Sync API isn't supported)
+ */
+export async function requestOutboxWakeUp(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) as SyncRegistration | undefined;
+    await registration?.sync?.register(OUTBOX_WAKE_UP_TAG);
+  } catch (err) {
+    console.error('Outbox wake-up registration failed:', err);
+  }
+}
+
+/**
+ * Handle the worker's requests to drain the outbox (one handler at a time)
+ * @param handler - Drains the outbox; resolves to whether nothing is left waiting
+ * @returns Function that removes the handler
+ */
+export function onDrainRequest(handler: () => Promise<boolean>): () => void {
+  drainHandler = handler;
+  return () => {
+    if (drainHandler === handler) drainHandler = null;
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Share Target Service
+ *
+ * Reads what was shared to the installed app (e.g., photos from the camera roll).
+ * The service worker keeps the shared photos and text in the 'share-target' cache
+ * and opens /feed?share=1 (see public/sw.js).
+ */
+
+const SHARE_CACHE = 'share-target';
+const TEXT_KEY = '/share-target/text';
+
+export interface SharedContent {
+  photos: File[];
+  text: string;
+}
+
+/**
+ * Take what was shared, emptying the cache so it is only logged once
+ * @returns The shared photos (in the order shared) and text, or null if nothing is waiting
+ */
+export async function takeSharedContent(): Promise<SharedContent | null> {
+  if (typeof caches === 'undefined') return null;
+
+  const cache = await caches.open(SHARE_CACHE);
+  const requests = await cache.keys();
+  if (requests.length === 0) return null;
+
+  const photos: File[] = [];
+  let text = '';
+
+  const photoRequests = requests
+    .filter((request) => new URL(request.url).pathname !== TEXT_KEY)
+    .sort((a, b) => getPhotoIndex(a) - getPhotoIndex(b));
+
+  for (const request of photoRequests) {
+    const response = await cache.match(request);
+    if (!response) continue;
+    const blob = await response.blob();
+    const name = decodeURIComponent(response.headers.get('X-File-Name') || 'shared-photo');
+    photos.push(new File([blob], name, { type: blob.type }));
+  }
+
+  const textResponse = await cache.match(TEXT_KEY);
+  if (textResponse) text = await textResponse.text();
+
+  await Promise.all(requests.map((request) => cache.delete(request)));
+  return { photos, text };
+}
+
+function getPhotoIndex(request: Request): number {
+  return Number(new URL(request.url).pathname.split('/').pop()) || 0;
+}
@@ -0,0 +1,73 @@
+/**
+ * Gemini Speech Provider
+ *
+ * Transcribes voice notes through the transcribeAudio Cloud Function, which holds
+ * the API key (or the user's own key) and counts calls against the daily AI quota.
+ */
+
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import app, { auth } from '../../config/firebase';
+import type { SpeechProvider, TranscriptionRequest } from './types';
+
+/**
+ * Read a blob as base64 (no data: prefix)
+ */
+function readAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Create a Gemini speech provider
+ * @param model - Optional Gemini model name (the Cloud Function default is used otherwise)
+ */
+export function createGeminiSpeechProvider(model?: string): SpeechProvider {
+  return {
+    id: 'gemini',
+
+    async transcribe(request: TranscriptionRequest): Promise<string> {
+      const currentUser = auth.currentUser;
+      if (!currentUser) {
+        throw new Error('You must be logged in to transcribe voice notes. Please sign in and try again.');
+      }
+
+      try {
+        // Ensure auth token is fresh
+        await currentUser.getIdToken();
+
+        const functions = getFunctions(app, 'us-central1');
+        const transcribeAudio = httpsCallable(functions, 'transcribeAudio');
+        const result = await transcribeAudio({
+          audio: { data: await readAsBase64(request.audio), mimeType: request.mimeType },
+          model: model || null,
+        });
+
+        const data = result.data as { transcript: string; usage: { count: number; limit: number } | null };
+        if (data.usage) {
+          console.log(`AI analysis quota: ${data.usage.count}/${data.usage.limit} used today`);
+        }
+        return data.transcript;
+      } catch (error: unknown) {
+        console.error('Error calling transcribeAudio:', error);
+
+        const callError = error as { code?: string; message?: string };
+        if (callError.code === 'functions/unauthenticated' || callError.message?.includes('unauthenticated')) {
+          throw new Error('Authentication failed. Please try signing out and signing back in.');
+        } else if (
+          callError.code === 'functions/resource-exhausted' ||
+          callError.code === 'functions/permission-denied' ||
+          callError.code === 'functions/invalid-argument'
+        ) {
+          // Quota, key, and length messages are written for users server-side
+          throw new Error(callError.message);
+        }
+
+        throw new Error('Unable to transcribe the voice note. Please try again or type instead.');
+      }
+    },
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Speech-to-Text Provider Registry
+ *
+ * Resolves which provider transcribes voice notes. Selection order:
+ * 1. Environment (VITE_STT_PROVIDER / VITE_STT_MODEL / VITE_STT_BASE_URL), for endpoints
+ *    that need no key - VITE_* values are public in the bundle, so keys never come from there
+ * 2. The user's AI provider: Gemini transcribes for Gemini, an OpenAI-compatible
+ *    endpoint for OpenAI-compatible (same base URL and key), and the mock for offline fixtures
+ */
+
+import type { UserSettings } from '../../types';
+import { resolveAIProviderConfig } from '../ai';
+import { createGeminiSpeechProvider } from './geminiProvider';
+import { createMockSpeechProvider } from './mockProvider';
+import { createOpenAICompatibleSpeechProvider } from './openAICompatibleProvider';
+import type { SpeechProvider, SpeechProviderConfig, SpeechProviderId } from './types';
+
+export type { SpeechProvider, SpeechProviderConfig, SpeechProviderId, TranscriptionRequest } from './types';
+export { DEFAULT_MOCK_TRANSCRIPT } from './mockProvider';
+
+const SPEECH_PROVIDER_IDS: SpeechProviderId[] = ['gemini', 'openai-compatible', 'mock'];
+
+/**
+ * Check that a value is a known provider ID
+ */
+function isSpeechProviderId(value: unknown): value is SpeechProviderId {
+  return SPEECH_PROVIDER_IDS.includes(value as SpeechProviderId);
+}
+
+/**
+ * Resolve the speech provider configuration for a user
+ * @param settings - Optional user settings; the AI provider selection is followed otherwise
+ */
+export function resolveSpeechProviderConfig(settings?: UserSettings | null): SpeechProviderConfig {
+  const env = import.meta.env;
+
+  if (isSpeechProviderId(env.VITE_STT_PROVIDER)) {
+    return {
+      provider: env.VITE_STT_PROVIDER,
+      model: env.VITE_STT_MODEL || undefined,
+      baseUrl: env.VITE_STT_BASE_URL || undefined,
+    };
+  }
+
+  const aiConfig = resolveAIProviderConfig(settings);
+  switch (aiConfig.provider) {
+    case 'openai-compatible':
+      // The AI model is a chat model, so only the connection is shared
+      return {
+        provider: 'openai-compatible',
+        model: env.VITE_STT_MODEL || undefined,
+        baseUrl: aiConfig.baseUrl,
+        apiKey: aiConfig.apiKey,
+      };
+    case 'fixture':
+      return { provider: 'mock' };
+    default:
+      return { provider: 'gemini', model: env.VITE_STT_MODEL || aiConfig.model };
+  }
+}
+
+/**
+ * Create the speech provider for a configuration
+ * @param config - Provider configuration (defaults to the environment configuration)
+ */
+export function getSpeechProvider(config: SpeechProviderConfig = resolveSpeechProviderConfig()): SpeechProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleSpeechProvider(config);
+    case 'mock':
+      return createMockSpeechProvider(import.meta.env.VITE_STT_MOCK_TRANSCRIPT || undefined);
+    default:
+      return createGeminiSpeechProvider(config.model);
+  }
+}
+
+/**
+ * Transcribe a recorded voice note
+ * @param audio - Recording (its type may include codec parameters, e.g., 'audio/webm;codecs=opus')
+ * @param config - Provider configuration (defaults to the environment configuration)
+ * @returns The transcript, trimmed
+ * @throws Error if nothing intelligible was said
+ */
+export async function transcribeVoiceNote(audio: Blob, config?: SpeechProviderConfig): Promise<string> {
+  const provider = getSpeechProvider(config);
+  const mimeType = (audio.type || 'audio/webm').split(';')[0];
+
+  const transcript = (await provider.transcribe({ audio, mimeType })).trim();
+  console.log(`Voice note transcribed (${provider.id}):`, transcript);
+
+  if (!transcript) {
+    throw new Error("Couldn't make out any words in the voice note - try again or type instead");
+  }
+  return transcript;
+}
@@ -0,0 +1,28 @@
+/**
+ * Mock Speech Provider
+ *
+ * Deterministic, network-free provider for development and tests. Every voice note
+ * "transcribes" to the same text (VITE_STT_MOCK_TRANSCRIPT, or a default that the
+ * fixture AI provider recognizes), so the voice flow runs end to end offline.
+ */
+
+import type { SpeechProvider, TranscriptionRequest } from './types';
+
+export const DEFAULT_MOCK_TRANSCRIPT = 'Two scrambled eggs on toast and a coffee with milk';
+
+/**
+ * Create a mock speech provider
+ * @param transcript - Text returned for every voice note
+ */
+export function createMockSpeechProvider(transcript: string = DEFAULT_MOCK_TRANSCRIPT): SpeechProvider {
+  return {
+    id: 'mock',
+
+    async transcribe(request: TranscriptionRequest): Promise<string> {
+      if (request.audio.size === 0) {
+        throw new Error('The voice note is empty');
+      }
+      return transcript;
+    },
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * OpenAI-Compatible Speech Provider
+ *
+ * Calls any endpoint implementing the OpenAI /audio/transcriptions API - e.g., a
+ * local Whisper server. Requests go straight from the browser, so the endpoint must allow CORS.
+ */
+
+import type { SpeechProvider, SpeechProviderConfig, TranscriptionRequest } from './types';
+
+const DEFAULT_MODEL = 'whisper-1';
+
+// File extension by recorded container type (endpoints often detect the format from the name)
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+/**
+ * Create an OpenAI-compatible speech provider
+ * @param config - Endpoint base URL, optional model, and optional API key
+ */
+export function createOpenAICompatibleSpeechProvider(config: SpeechProviderConfig): SpeechProvider {
+  return {
+    id: 'openai-compatible',
+
+    async transcribe(request: TranscriptionRequest): Promise<string> {
+      if (!config.baseUrl) {
+        throw new Error('OpenAI-compatible transcription requires a base URL');
+      }
+
+      const body = new FormData();
+      body.append('file', request.audio, `voice-note.${AUDIO_EXTENSIONS[request.mimeType] || 'webm'}`);
+      body.append('model', config.model || DEFAULT_MODEL);
+      body.append('response_format', 'json');
+
+      const headers: Record<string, string> = {};
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+          method: 'POST',
+          headers,
+          body,
+        });
+      } catch (error) {
+        console.error('Error calling transcription endpoint:', error);
+        throw new Error('Could not reach the transcription endpoint. Check the base URL and that it allows CORS.');
+      }
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Transcription endpoint returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+      }
+
+      const data = (await response.json()) as { text?: unknown };
+      if (typeof data.text !== 'string') {
+        throw new Error('Transcription endpoint returned no text');
+      }
+      return data.text;
+    },
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Speech-to-Text Provider Types
+ *
+ * Shared interfaces for the pluggable transcription layer used by voice notes.
+ */
+
+/**
+ * Available provider IDs
+ * - gemini: Gemini through the transcribeAudio Cloud Function (default)
+ * - openai-compatible: any OpenAI-style /audio/transcriptions endpoint (e.g., a local Whisper server)
+ * - mock: deterministic offline transcript (no network)
+ */
+export type SpeechProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+/**
+ * Provider selection and connection details
+ */
+export interface SpeechProviderConfig {
+  provider: SpeechProviderId;
+  model?: string; // provider-specific model name (e.g., 'whisper-1')
+  baseUrl?: string; // OpenAI-compatible endpoint root
+  apiKey?: string; // OpenAI-compatible bearer token, if the endpoint needs one
+}
+
+/**
+ * A recorded voice note to transcribe
+ */
+export interface TranscriptionRequest {
+  audio: Blob;
+  mimeType: string; // container type without codec parameters (e.g., 'audio/webm')
+}
+
+/**
+ * Speech-to-text provider interface
+ */
+export interface SpeechProvider {
+  id: SpeechProviderId;
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
@@ -0,0 +1,45 @@
+/**
+ * Storage Service
+ *
+ * Uploads entry photos and voice notes to Firebase Storage.
+ */
+
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { storage } from '../config/firebase';
+import type { EntryPhoto } from '../types';
+import type { PreparedPhoto } from '../utils/photos';
+
+/**
+ * Upload prepared photos and their thumbnails to Firebase Storage
+ * @returns Download URLs of each photo and its thumbnail, in the same order
+ */
+export async function uploadPhotos(userId: string, photos: PreparedPhoto[]): Promise<EntryPhoto[]> {
+  const stamp = Date.now();
+
+  return Promise.all(
+    photos.map(async (photo, index) => {
+      const photoRef = ref(storage, `entries/${userId}/${stamp}_${index}_${photo.file.name}`);
+      const thumbnailRef = ref(storage, `entries/${userId}/thumbnails/${stamp}_${index}_${photo.thumbnail.name}`);
+
+      await Promise.all([
+        uploadBytes(photoRef, photo.file, { contentType: photo.mimeType }),
+        uploadBytes(thumbnailRef, photo.thumbnail, { contentType: 'image/jpeg' }),
+      ]);
+
+      const [url, thumbnailUrl] = await Promise.all([getDownloadURL(photoRef), getDownloadURL(thumbnailRef)]);
+      return { url, thumbnailUrl };
+    })
+  );
+}
+
+/**
+ * Upload a voice note to Firebase Storage
+ * @returns The voice note's download URL
+ */
+export async function uploadVoiceNote(userId: string, audio: Blob): Promise<string> {
+  const mimeType = (audio.type || 'audio/webm').split(';')[0];
+  const extension = mimeType === 'audio/mp4' ? 'm4a' : mimeType.split('/')[1];
+  const voiceNoteRef = ref(storage, `entries/${userId}/voice/${Date.now()}.${extension}`);
+  await uploadBytes(voiceNoteRef, audio, { contentType: mimeType });
+  return getDownloadURL(voiceNoteRef);
+}
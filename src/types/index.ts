@@ -44,6 +44,57 @@ export interface DatabaseSchema {
   updatedAt: number;
 }
 
+/**
+ * How sure the AI is about an estimated value
+ */
+export type ConfidenceLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Field Estimate interface
+ * Confidence and plausible range for an AI-estimated numeric value
+ */
+export interface FieldEstimate {
+  confidence: ConfidenceLevel;
+  low: number; // lower bound of the plausible range (same unit as the value)
+  high: number; // upper bound of the plausible range
+}
+
+/**
+ * Food Item interface
+ * A single component of a meal (e.g., "Grilled Chicken") with its own portion and macros
+ */
+export interface FoodItem {
+  name: string; // display name (e.g., 'Grilled Chicken')
+  portion: string; // estimated portion (e.g., '150 g', '1 can')
+  fieldValues: Record<string, number>; // per-item numeric values (e.g., { protein: 35, calories: 240 })
+  fieldEstimates?: Record<string, FieldEstimate>; // AI confidence per value (dropped once the user edits it)
+}
+
+/**
+ * Where an entry's numeric values came from
+ */
+export type EntrySource = 'estimate' | 'label' | 'barcode' | 'library' | 'recipe' | 'menu';
+
+/**
+ * Nutrition Label interface
+ * Per-serving values read from a packaged food's nutrition facts panel
+ */
+export interface NutritionLabel {
+  servingSize: string; // as printed (e.g., '2/3 cup (55 g)')
+  servingsPerContainer?: number | null;
+  servings: number; // servings eaten
+  perServing: Record<string, number>; // numeric field values for one serving
+}
+
+/**
+ * Entry Photo interface
+ * One uploaded photo of an entry
+ */
+export interface EntryPhoto {
+  url: string;
+  thumbnailUrl?: string; // small variant for the feed
+}
+
 /**
  * Food Entry interface
  * Represents a single food log entry with photo, text, and AI-generated summary
@@ -61,6 +112,25 @@ export interface FoodEntry {
   // Dynamic fields based on schema
   fieldValues?: Record<string, any>; // e.g., { name: 'Chicken Salad', protein: 25, carbs: 40 }
 
+  // AI confidence and range for numeric fieldValues (e.g., for uncertainty bands)
+  fieldEstimates?: Record<string, FieldEstimate>;
+
+  // Itemized meal breakdown - numeric fieldValues are the totals of these items
+  items?: FoodItem[];
+
+  // How the numeric values were obtained (missing = AI estimate)
+  source?: EntrySource;
+  nutritionLabel?: NutritionLabel; // set when source is 'label' or 'barcode'
+  barcode?: string; // product barcode (EAN/UPC) the entry was logged from
+  savedFoodId?: string; // My Foods item the entry was re-logged from
+  recipeId?: string; // recipe the entry was logged from
+
+  photos?: EntryPhoto[]; // every photo in the order added (the first is also photoUrl / thumbnailUrl)
+  thumbnailUrl?: string; // small variant of the first photo for the feed (missing on older entries)
+  voiceNoteUrl?: string; // voice note the description was transcribed from (kept only if the user chose to)
+  promptVersion?: string; // version of the AI prompt the values came from (e.g., 'meal-v1'), for comparing prompt changes
+  analyzedFieldIds?: string[]; // schema AI fields the AI was asked for (the field backfill only adds fields added since)
+
   // Legacy support (for existing entries)
   photoUrl?: string;
   text?: string;
@@ -91,6 +161,15 @@ export interface EmbedTokens {
   calorieStreak?: string;
 }
 
+/**
+ * Daily goal for a numeric field
+ * 'min' goals are met by reaching the target (e.g., fiber), 'max' goals by staying at or under it (e.g., sodium)
+ */
+export interface FieldGoal {
+  target: number;
+  direction: 'min' | 'max';
+}
+
 /**
  * User Settings interface
  * Stores user preferences and API keys
@@ -99,16 +178,157 @@ export interface UserSettings {
   userId: string;
   notionApiKey?: string;
   notionDatabaseId?: string;
-  geminiApiKey?: string;
+  geminiApiKey?: string; // user's own Gemini key ("bring your own key"), only used by Cloud Functions
+  aiProvider?: 'gemini' | 'openai-compatible' | 'fixture'; // AI provider used for analysis (default: gemini)
+  aiModel?: string; // provider-specific model override
+  aiBaseUrl?: string; // OpenAI-compatible endpoint root (e.g., 'http://localhost:11434/v1')
+  aiApiKey?: string; // OpenAI-compatible bearer token (sent from the browser)
   activeSchemaId?: string; // current schema being used
   templateId?: string; // tracking template (macro-tracking, simple-logging, etc.)
   proteinGoal?: number; // goal for protein in grams (default: 150g)
   goalField?: string; // which field to track for goals (default: 'protein')
   calorieLimit?: number; // goal for calories in kcal (default: none)
+  fieldGoals?: Record<string, FieldGoal>; // goals for any other numeric field, keyed by field ID
   dashboardVisibility?: DashboardVisibility; // visibility toggles for charts
   embedTokens?: EmbedTokens; // secure tokens for embed URLs
 }
 
+/**
+ * Saved Food interface
+ * A food in the user's personal library ("My Foods") that can be re-logged without an AI call
+ */
+export interface SavedFood {
+  id: string;
+  userId: string;
+  name: string;
+  portion: string; // the portion fieldValues describe (e.g., '1 bowl')
+  fieldValues: Record<string, any>; // numeric values are scaled by the portion multiplier when logged
+  items?: FoodItem[];
+  photoUrl?: string;
+  thumbnailUrl?: string;
+  sourceEntryId?: string; // entry it was saved from (if any)
+  logCount: number; // times logged from the library (used to suggest frequent foods first)
+  lastLoggedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Recipe Ingredient interface
+ * One line of a recipe: a quantity of a portion whose values are known
+ */
+export interface RecipeIngredient {
+  name: string;
+  quantity: number; // multiples of `portion` used in the whole recipe
+  portion: string; // the portion fieldValues describe (e.g., '100 g', '1 can')
+  fieldValues: Record<string, number>; // numeric values per portion, keyed by field ID
+  source: 'library' | 'barcode' | 'estimate';
+  savedFoodId?: string; // My Foods item the values came from
+  barcode?: string; // product the values came from
+}
+
+/**
+ * Recipe interface
+ * A home-cooked dish built from ingredients; per-serving values are computed, not estimated
+ */
+export interface Recipe {
+  id: string;
+  userId: string;
+  name: string;
+  servings: number; // servings the whole recipe makes
+  ingredients: RecipeIngredient[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Product interface
+ * A packaged food in the barcode database (document ID is the barcode).
+ * Imported from an Open Food Facts dump, or saved by users when an unknown barcode is resolved.
+ */
+export interface Product {
+  barcode: string; // normalized EAN-13/EAN-8/GTIN-14 digits
+  name: string;
+  brand?: string;
+  servingSize?: string; // as printed (e.g., '30 g')
+  perServing?: Record<string, number>; // values per serving, keyed by field ID
+  per100g?: Record<string, number>; // values per 100 g/ml, keyed by field ID
+  source: 'import' | 'user';
+  createdBy?: string; // user ID for user-saved products
+  updatedAt: number;
+}
+
+/**
+ * AI Usage interface
+ * Daily AI analysis counter maintained by the analyzeFood Cloud Function
+ */
+export interface AIUsage {
+  userId: string;
+  date: string; // YYYY-MM-DD (UTC) the count applies to
+  count: number; // analyses used on that date
+}
+
+/**
+ * AI Correction interface
+ * What the AI estimated for an entry versus what the user saved after review.
+ * Recorded for every AI-analyzed entry (including unedited ones) so accuracy stats stay honest.
+ */
+export interface AICorrection {
+  id: string;
+  userId: string;
+  entryId: string;
+  createdAt: number;
+  text: string; // meal description the AI analyzed
+  title: string; // entry title as saved
+  itemNames: string[]; // item names as saved (used to find similar meals)
+  originalValues: Record<string, number>; // numeric totals estimated by the AI
+  correctedValues: Record<string, number>; // numeric totals saved by the user
+}
+
+/**
+ * Where a queued offline entry is in being logged
+ * 'waiting' entries are retried when the connection returns (or at nextAttemptAt);
+ * 'failed' entries ran out of attempts and wait for the user to retry them.
+ */
+export type OutboxStatus = 'waiting' | 'uploading' | 'analyzing' | 'saving' | 'syncing' | 'failed';
+
+/**
+ * Photo of a queued entry, stored on the device until it is uploaded
+ */
+export interface OutboxPhoto {
+  file: File; // compressed image without location metadata
+  thumbnail: File;
+  mimeType: string;
+  capturedAt: number | null;
+}
+
+/**
+ * Outbox Entry interface
+ * A meal logged without a connection, kept in IndexedDB until it is uploaded, analyzed, and saved.
+ * Finished steps are stored, so a retry resumes where the last attempt stopped.
+ */
+export interface OutboxEntry {
+  id: string; // local ID (not a Firestore document ID)
+  userId: string;
+  createdAt: number; // when it was queued
+  timestamp: number; // when it was eaten
+  text: string;
+  photos: OutboxPhoto[];
+  voiceNote?: Blob;
+  status: OutboxStatus;
+  attempts: number; // failed attempts so far
+  nextAttemptAt: number; // earliest time to try again (ms)
+  lastError?: string;
+  uploadedPhotos?: EntryPhoto[]; // set once the photos are uploaded
+  voiceNoteUrl?: string;
+  analysis?: Pick<FoodEntry, 'title' | 'aiSummary' | 'items' | 'fieldEstimates' | 'promptVersion'> & {
+    extractedFields: Record<string, unknown>;
+  }; // set once the AI has analyzed it
+  entryId?: string; // set once the entry is saved to Firestore
+  notionPending?: boolean; // set with entryId when the entry still has to be synced to Notion
+  notionPageId?: string; // set once the Notion page is created (before it is stored on the entry)
+}
+
 /**
  * Auth User interface
  * Extended user information
@@ -0,0 +1,81 @@
+/**
+ * Barcode Utilities
+ *
+ * Normalizing and validating EAN/UPC barcodes.
+ * Plain JavaScript (type-checked from the JSDoc) so the product importer in
+ * functions/scripts can share it with the app - products must be keyed exactly
+ * the way the scanner looks them up.
+ */
+
+/**
+ * Normalize a typed or scanned barcode
+ * Non-digits are removed, UPC-E codes are expanded to UPC-A, and 12-digit UPC-A codes are
+ * padded to EAN-13, matching how products are keyed in the database.
+ * @param {string} input
+ * @param {string} [format] - Format reported by the barcode detector; a typed 8-digit code is
+ *   read as UPC-E only when it isn't a valid EAN-8 but is a valid UPC-E
+ * @returns {string}
+ */
+export function normalizeBarcode(input, format) {
+  let digits = input.replace(/\D/g, '');
+
+  if (format === 'upc_e' || (digits.length === 8 && !isValidBarcode(digits))) {
+    const expanded = expandUpcE(digits);
+    if (expanded && (format === 'upc_e' || isValidBarcode(`0${expanded}`))) digits = expanded;
+  }
+
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
+/**
+ * Expand a zero-suppressed UPC-E code to its 12-digit UPC-A form
+ * Accepts 6 digits (number system 0, no check digit), 7 (no check digit), or 8.
+ * @param {string} code
+ * @returns {string | null} The UPC-A code, or null if the input isn't a UPC-E code
+ */
+export function expandUpcE(code) {
+  const full = code.length === 6 ? `0${code}` : code;
+  if (!/^[01]\d{6,7}$/.test(full)) return null;
+
+  const numberSystem = full[0];
+  const [d1, d2, d3, d4, d5, d6] = full.slice(1, 7);
+  let body;
+  if (d6 <= '2') {
+    body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  } else if (d6 === '3') {
+    body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  } else if (d6 === '4') {
+    body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  } else {
+    body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+
+  // The UPC-E check digit is the one of the expanded UPC-A code
+  const withoutCheck = `${numberSystem}${body}`;
+  return `${withoutCheck}${full.length === 8 ? full[7] : getCheckDigit(withoutCheck)}`;
+}
+
+/**
+ * Compute the GTIN check digit for the digits before it
+ * @param {string} digits
+ * @returns {number}
+ */
+function getCheckDigit(digits) {
+  const sum = digits
+    .split('')
+    .map(Number)
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Check a normalized barcode's length and GTIN check digit
+ * @param {string} barcode
+ * @returns {boolean}
+ */
+export function isValidBarcode(barcode) {
+  if (![8, 13, 14].includes(barcode.length) || !/^\d+$/.test(barcode)) return false;
+
+  return getCheckDigit(barcode.slice(0, -1)) === Number(barcode.slice(-1));
+}
@@ -0,0 +1,127 @@
+/**
+ * AI Correction Utilities
+ *
+ * Helper functions for learning from review corrections:
+ * - Finding past corrections for meals similar to a new description
+ * - Measuring how far off the AI has been for each field
+ */
+
+import type { AICorrection } from '../types';
+
+/**
+ * Per-field accuracy of AI estimates
+ */
+export interface FieldAccuracy {
+  fieldId: string;
+  entries: number; // reviewed entries that had this field
+  correctedEntries: number; // entries where the user changed the value
+  meanAbsoluteError: number; // average |AI - saved| in the field's unit
+  meanError: number; // average (AI - saved); positive means the AI overestimates
+}
+
+// Common words that say nothing about what was eaten
+const STOP_WORDS = new Set([
+  'and', 'with', 'the', 'for', 'had', 'some', 'plus', 'side',
+  'cup', 'cups', 'large', 'small', 'medium', 'bowl', 'plate', 'piece', 'slice', 'slices',
+]);
+
+/**
+ * Round a value to one decimal place
+ */
+function roundValue(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Split meal text into comparable food words (e.g., "Chicken & rice" -> chicken, rice)
+ */
+function getFoodWords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  return new Set(
+    words
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+      .map((word) => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word))
+  );
+}
+
+/**
+ * Check whether a saved value differs from the AI's estimate (ignoring rounding)
+ */
+export function isCorrectedValue(original: number | undefined, corrected: number | undefined): boolean {
+  return original != null && corrected != null && Math.abs(corrected - original) >= 0.5;
+}
+
+/**
+ * Check whether the user changed any value the AI estimated
+ */
+export function hasCorrectedValues(correction: AICorrection): boolean {
+  return Object.entries(correction.originalValues).some(([fieldId, original]) =>
+    isCorrectedValue(original, correction.correctedValues[fieldId])
+  );
+}
+
+/**
+ * Find past corrections for meals similar to a description
+ * Similarity is the overlap of food words between the description and the corrected meal.
+ * @param corrections - The user's corrections
+ * @param text - Description of the meal about to be analyzed
+ * @param maxResults - Maximum number of corrections to return (default: 3)
+ * @returns Most similar corrections where the user actually changed a value
+ */
+export function findSimilarCorrections(
+  corrections: AICorrection[],
+  text: string,
+  maxResults: number = 3
+): AICorrection[] {
+  const words = getFoodWords(text);
+  if (words.size === 0) return [];
+
+  return corrections
+    .filter(hasCorrectedValues)
+    .map((correction) => {
+      const correctionWords = getFoodWords(
+        [correction.text, correction.title, ...correction.itemNames].join(' ')
+      );
+      const shared = [...words].filter((word) => correctionWords.has(word)).length;
+      const total = new Set([...words, ...correctionWords]).size;
+      return { correction, similarity: total > 0 ? shared / total : 0 };
+    })
+    .filter((match) => match.similarity >= 0.2)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, maxResults)
+    .map((match) => match.correction);
+}
+
+/**
+ * Measure how far off the AI has been for each field
+ * @param corrections - The user's corrections (edited and unedited entries)
+ * @returns Accuracy per field, largest average error first
+ */
+export function getFieldAccuracy(corrections: AICorrection[]): FieldAccuracy[] {
+  const totals: Record<string, { entries: number; corrected: number; absolute: number; signed: number }> = {};
+
+  corrections.forEach((correction) => {
+    Object.entries(correction.originalValues).forEach(([fieldId, original]) => {
+      const corrected = correction.correctedValues[fieldId];
+      if (corrected == null) return;
+
+      const total = totals[fieldId] || { entries: 0, corrected: 0, absolute: 0, signed: 0 };
+      const error = original - corrected;
+      total.entries += 1;
+      total.absolute += Math.abs(error);
+      total.signed += error;
+      if (isCorrectedValue(original, corrected)) total.corrected += 1;
+      totals[fieldId] = total;
+    });
+  });
+
+  return Object.entries(totals)
+    .map(([fieldId, total]) => ({
+      fieldId,
+      entries: total.entries,
+      correctedEntries: total.corrected,
+      meanAbsoluteError: roundValue(total.absolute / total.entries),
+      meanError: roundValue(total.signed / total.entries),
+    }))
+    .sort((a, b) => b.meanAbsoluteError - a.meanAbsoluteError);
+}
@@ -2,52 +2,87 @@
  * Dashboard Data Utilities
  *
  * Helper functions for processing food entries into dashboard metrics:
- * - Daily macro aggregation
+ * - Chartable field selection from the schema
+ * - Daily aggregation of any numeric fields
  * - Current day totals
- * - Streak calculation
- * - Macro field extraction
+ * - Streak calculation for goals and limits
  */
 
-import type { FoodEntry, DatabaseSchema } from '../types';
+import type { FoodEntry, DatabaseSchema, FieldGoal } from '../types';
 
 /**
- * Daily aggregated macro data for charting
+ * A numeric field that can be charted and given a goal
+ */
+export interface ChartField {
+  id: string;
+  name: string;
+  unit?: string;
+}
+
+/**
+ * Fields charted when there is no schema (or it has no numeric fields)
+ */
+export const DEFAULT_CHART_FIELDS: ChartField[] = [
+  { id: 'calories', name: 'Calories' },
+  { id: 'protein', name: 'Protein', unit: 'g' },
+  { id: 'carbs', name: 'Carbs', unit: 'g' },
+  { id: 'fat', name: 'Fat', unit: 'g' },
+];
+
+/**
+ * Daily aggregated data for charting
+ * Each charted field's daily total is stored under its field ID (e.g., calories, fiber).
  */
 export interface DailyMacroData {
   date: string; // YYYY-MM-DD format
   dateLabel: string; // Short date label (e.g., "Jan 15")
   timestamp: number; // Date timestamp for sorting
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
+  [fieldId: string]: string | number;
 }
 
 /**
- * Get macro field IDs from a schema
- * Returns common macro fields if schema is null or doesn't have them
+ * Get the numeric fields of a schema that can be charted
+ * Returns the default macros if schema is null or has no numeric fields
  */
-export function getMacroFieldNames(schema: DatabaseSchema | null): string[] {
-  if (!schema) {
-    // Default macro fields
-    return ['protein', 'carbs', 'fat', 'calories'];
-  }
-
-  // Extract numeric fields that look like macros
-  const macroFields: string[] = [];
-  const fieldIds = schema.fields
+export function getChartFields(schema: DatabaseSchema | null): ChartField[] {
+  const fields = (schema?.fields || [])
     .filter((f) => f.type === 'number')
-    .map((f) => f.id.toLowerCase());
+    .map((f) => ({ id: f.id, name: f.name, unit: f.unit }));
+
+  return fields.length > 0 ? fields : DEFAULT_CHART_FIELDS;
+}
+
+/**
+ * Fields charted by default; others start hidden since they use different scales (e.g., mg)
+ */
+const DEFAULT_VISIBLE_FIELDS = ['calories', 'protein', 'carbs', 'fat', 'net_carbs'];
+
+/**
+ * Line colors for charted fields, in order (lines are dashed once the grays run out)
+ */
+export const CHART_LINE_COLORS = ['#000000', '#666666', '#999999', '#cccccc'];
+
+/**
+ * Get the fields shown on the chart before the user toggles any
+ * The schema's macros if it has them, otherwise its first few numeric fields
+ */
+export function getDefaultVisibleFields(fields: ChartField[]): string[] {
+  const macros = fields.filter((f) => DEFAULT_VISIBLE_FIELDS.includes(f.id));
+  return (macros.length > 0 ? macros : fields.slice(0, CHART_LINE_COLORS.length)).map((f) => f.id);
+}
 
-  // Check for common macro field names
-  if (fieldIds.includes('protein')) macroFields.push('protein');
-  if (fieldIds.includes('carbs') || fieldIds.includes('carbohydrates')) macroFields.push('carbs');
-  if (fieldIds.includes('fat')) macroFields.push('fat');
-  if (fieldIds.includes('calories')) macroFields.push('calories');
-  if (fieldIds.includes('net_carbs') || fieldIds.includes('netcarbs')) macroFields.push('net_carbs');
+/**
+ * Format a field name with its unit for chart legends (e.g., "Sodium (mg)")
+ */
+export function formatFieldLabel(field: ChartField): string {
+  return field.unit && field.unit !== 'kcal' ? `${field.name} (${field.unit})` : field.name;
+}
 
-  // If no macros found, use defaults
-  return macroFields.length > 0 ? macroFields : ['protein', 'carbs', 'fat', 'calories'];
+/**
+ * Get the IDs of the numeric fields of a schema
+ */
+export function getMacroFieldNames(schema: DatabaseSchema | null): string[] {
+  return getChartFields(schema).map((f) => f.id);
 }
 
 /**
@@ -82,24 +117,44 @@ function getFieldValue(entry: FoodEntry, fieldId: string): number {
 }
 
 /**
- * Aggregate entries by date, summing macros per day
+ * Days of history kept live for the dashboard (the chart shows 7; longer streaks read older entries)
+ */
+export const DASHBOARD_HISTORY_DAYS = 90;
+
+/**
+ * Get the start of the day a number of days before today
+ * Matches the cutoff of aggregateDailyMacros, so it can bound date-range entry queries.
+ * @param days - Days to look back (0 = today only)
+ * @returns Timestamp (ms) of local midnight at the start of that day
+ */
+export function getHistoryStart(days: number): number {
+  const start = new Date();
+  start.setDate(start.getDate() - days);
+  start.setHours(0, 0, 0, 0);
+  return start.getTime();
+}
+
+/**
+ * Aggregate entries by date, summing fields per day
  * Only includes dates that have actual entries (no empty dates)
  * @param entries - Array of food entries
  * @param days - Number of days to look back (default: 7) - only entries within this range are included
+ * @param fieldIds - Fields to sum (default: calories, protein, carbs, fat)
  * @returns Array of daily aggregated data, sorted by date (oldest first)
  */
 export function aggregateDailyMacros(
   entries: FoodEntry[],
-  days: number = 7
+  days: number = 7,
+  fieldIds: string[] = DEFAULT_CHART_FIELDS.map((f) => f.id)
 ): DailyMacroData[] {
   const now = new Date();
   const cutoffDate = new Date(now);
   cutoffDate.setDate(cutoffDate.getDate() - days);
   cutoffDate.setHours(0, 0, 0, 0);
 
-  // Map of date strings to aggregated values
+  // Map of date strings to per-field totals
   // Only create entries for dates that have data
-  const dailyMap = new Map<string, DailyMacroData>();
+  const dailyMap = new Map<string, { date: Date; totals: Record<string, number> }>();
 
   // Aggregate entries - only process entries within the date range
   entries.forEach((entry) => {
@@ -116,43 +171,31 @@ export function aggregateDailyMacros(
     // Create daily entry if it doesn't exist, otherwise update it
     if (!dailyMap.has(dateKey)) {
       dailyMap.set(dateKey, {
-        date: dateKey,
-        dateLabel: formatDateLabel(entryDate),
-        timestamp: entryDate.getTime(),
-        calories: 0,
-        protein: 0,
-        carbs: 0,
-        fat: 0,
+        date: entryDate,
+        totals: Object.fromEntries(fieldIds.map((id) => [id, 0])),
       });
     }
 
     const daily = dailyMap.get(dateKey)!;
-    daily.calories += getFieldValue(entry, 'calories');
-    daily.protein += getFieldValue(entry, 'protein');
-    daily.carbs += getFieldValue(entry, 'carbs');
-    daily.fat += getFieldValue(entry, 'fat');
+    fieldIds.forEach((id) => {
+      daily.totals[id] += getFieldValue(entry, id);
+    });
   });
 
   // Convert map to array and sort by date
   // Only return dates that have at least some data
-  const result = Array.from(dailyMap.values())
-    .filter((daily) => daily.calories > 0 || daily.protein > 0 || daily.carbs > 0 || daily.fat > 0)
+  const result: DailyMacroData[] = Array.from(dailyMap.entries())
+    .filter(([, daily]) => fieldIds.some((id) => daily.totals[id] > 0))
+    .map(([dateKey, daily]) => ({
+      date: dateKey,
+      dateLabel: formatDateLabel(daily.date),
+      timestamp: daily.date.getTime(),
+      ...daily.totals,
+    }))
     .sort((a, b) => a.timestamp - b.timestamp);
   
-  console.log('aggregateDailyMacros - input entries:', entries.length);
-  console.log('aggregateDailyMacros - dailyMap size:', dailyMap.size);
-  console.log('aggregateDailyMacros - filtered result:', result.length);
   if (result.length === 0 && entries.length > 0) {
-    console.log('No macro data found in entries. Sample entry:', entries[0]);
-    if (entries[0]?.fieldValues) {
-      console.log('Entry fieldValues:', entries[0].fieldValues);
-      console.log('Checking macro fields:', {
-        calories: getFieldValue(entries[0], 'calories'),
-        protein: getFieldValue(entries[0], 'protein'),
-        carbs: getFieldValue(entries[0], 'carbs'),
-        fat: getFieldValue(entries[0], 'fat'),
-      });
-    }
+    console.log('No data found in entries for fields:', fieldIds, 'Sample entry fieldValues:', entries[0]?.fieldValues);
   }
   
   return result;
@@ -192,18 +235,19 @@ export function getCalorieLimit(calorieLimit?: number): number {
 }
 
 /**
- * Calculate consecutive days streak for reaching goal
+ * Calculate consecutive days a field goal was met
+ * Days without entries end a streak, so an empty day never counts as staying under a limit.
  * @param entries - Array of food entries
- * @param goalField - Field to check (e.g., 'protein')
- * @param goalValue - Target value to reach
- * @returns Number of consecutive days goal was met (including today if met)
+ * @param fieldId - Field to check (e.g., 'fiber')
+ * @param goal - Target and whether to reach it ('min') or stay at or under it ('max')
+ * @returns Number of consecutive days the goal was met (including today if met)
  */
-export function calculateStreak(
+export function calculateGoalStreak(
   entries: FoodEntry[],
-  goalField: string,
-  goalValue: number
+  fieldId: string,
+  goal: FieldGoal
 ): number {
-  if (goalValue <= 0) return 0;
+  if (goal.target <= 0) return 0;
 
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -220,29 +264,43 @@ export function calculateStreak(
 
     const dateKey = formatDateKey(entryDate);
     const current = dailyTotals.get(dateKey) || 0;
-    dailyTotals.set(dateKey, current + getFieldValue(entry, goalField));
+    dailyTotals.set(dateKey, current + getFieldValue(entry, fieldId));
   });
 
   // Check consecutive days backwards from today
   let streak = 0;
-  let checkDate = new Date(today);
+  const checkDate = new Date(today);
 
   while (true) {
-    const dateKey = formatDateKey(checkDate);
-    const total = dailyTotals.get(dateKey) || 0;
-
-    if (total >= goalValue) {
-      streak++;
-      // Move to previous day
-      checkDate.setDate(checkDate.getDate() - 1);
-    } else {
-      break;
-    }
+    const total = dailyTotals.get(formatDateKey(checkDate));
+    if (total === undefined) break;
+
+    const met = goal.direction === 'min' ? total >= goal.target : total <= goal.target;
+    if (!met) break;
+
+    streak++;
+    // Move to previous day
+    checkDate.setDate(checkDate.getDate() - 1);
   }
 
   return streak;
 }
 
+/**
+ * Calculate consecutive days streak for reaching goal
+ * @param entries - Array of food entries
+ * @param goalField - Field to check (e.g., 'protein')
+ * @param goalValue - Target value to reach
+ * @returns Number of consecutive days goal was met (including today if met)
+ */
+export function calculateStreak(
+  entries: FoodEntry[],
+  goalField: string,
+  goalValue: number
+): number {
+  return calculateGoalStreak(entries, goalField, { target: goalValue, direction: 'min' });
+}
+
 /**
  * Calculate consecutive days streak for reaching calorie limit
  * @param entries - Array of food entries
@@ -253,45 +311,7 @@ export function calculateCalorieStreak(
   entries: FoodEntry[],
   calorieLimit: number
 ): number {
-  if (calorieLimit <= 0) return 0;
-
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  // Aggregate daily totals
-  const dailyTotals = new Map<string, number>();
-
-  entries.forEach((entry) => {
-    const entryDate = new Date(entry.timestamp);
-    entryDate.setHours(0, 0, 0, 0);
-    
-    // Only count entries from today backwards
-    if (entryDate.getTime() > today.getTime()) return;
-
-    const dateKey = formatDateKey(entryDate);
-    const current = dailyTotals.get(dateKey) || 0;
-    dailyTotals.set(dateKey, current + getFieldValue(entry, 'calories'));
-  });
-
-  // Check consecutive days backwards from today
-  // For calorie limit, we check if total is LESS than or equal to limit (opposite of goals)
-  let streak = 0;
-  let checkDate = new Date(today);
-
-  while (true) {
-    const dateKey = formatDateKey(checkDate);
-    const total = dailyTotals.get(dateKey) || 0;
-
-    if (total <= calorieLimit) {
-      streak++;
-      // Move to previous day
-      checkDate.setDate(checkDate.getDate() - 1);
-    } else {
-      break;
-    }
-  }
-
-  return streak;
+  return calculateGoalStreak(entries, 'calories', { target: calorieLimit, direction: 'max' });
 }
 
 /**
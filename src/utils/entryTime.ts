@@ -0,0 +1,53 @@
+/**
+ * Entry Time Utilities
+ *
+ * Helper functions for when an entry was eaten:
+ * - Resolving a described day and time of day ("yesterday at 1pm") to a timestamp
+ * - Converting timestamps to and from datetime-local input values
+ */
+
+/**
+ * How far back a described day may be (older entries are logged one at a time)
+ */
+export const MAX_DAYS_BACK = 14;
+
+/**
+ * Resolve a relative day and an optional time of day to a timestamp
+ * Without a time, today's entries use the current time and earlier days use noon.
+ * Times later than now are clamped to now (entries describe what was already eaten).
+ * @param dayOffset - Day relative to today (0 = today, -1 = yesterday, ...)
+ * @param time - 24-hour "HH:MM", or null when no time was described
+ * @param now - Reference time (defaults to the current time)
+ */
+export function resolveEntryTimestamp(dayOffset: number, time: string | null, now: Date = new Date()): number {
+  const resolved = new Date(now);
+  resolved.setDate(resolved.getDate() + dayOffset);
+
+  const match = time?.match(/^(\d{1,2}):(\d{2})$/);
+  if (match) {
+    resolved.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  } else if (dayOffset !== 0) {
+    resolved.setHours(12, 0, 0, 0);
+  }
+
+  return Math.min(resolved.getTime(), now.getTime());
+}
+
+/**
+ * Format a timestamp for a datetime-local input (local time, minute precision)
+ */
+export function toDateTimeLocalValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Parse a datetime-local input value (interpreted as local time)
+ * @returns Timestamp, or null if the value is empty or invalid
+ */
+export function fromDateTimeLocalValue(value: string): number | null {
+  if (!value) return null;
+  const timestamp = new Date(value).getTime();
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
@@ -0,0 +1,146 @@
+/**
+ * Food Item Utilities
+ *
+ * Helper functions for itemized meal breakdowns:
+ * - Summing per-item values into entry totals
+ * - Combining per-item confidence ranges into entry-level estimates
+ * - Scaling values by a portion multiplier
+ * - Creating blank items for manual additions
+ * - Choosing the numeric fields to enter values for
+ */
+
+import { getTemplateById, TEMPLATE_IDS } from '../constants/schemaTemplates';
+import type { ConfidenceLevel, FieldConfig, FieldEstimate, FoodItem } from '../types';
+
+/**
+ * Confidence levels, least confident first
+ */
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['low', 'medium', 'high'];
+
+/**
+ * Round a value to one decimal place (avoids float noise like 12.300000001)
+ */
+function roundValue(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Get every numeric field ID used across a list of items
+ * @param items - Food items
+ * @returns Unique field IDs in first-seen order
+ */
+export function getItemFieldIds(items: FoodItem[]): string[] {
+  const fieldIds: string[] = [];
+  items.forEach((item) => {
+    Object.keys(item.fieldValues).forEach((fieldId) => {
+      if (!fieldIds.includes(fieldId)) fieldIds.push(fieldId);
+    });
+  });
+  return fieldIds;
+}
+
+/**
+ * Sum per-item values into entry totals
+ * @param items - Food items to total
+ * @param fieldIds - Fields to sum (defaults to every field used by the items)
+ * @returns Totals keyed by field ID
+ */
+export function sumItemFields(
+  items: FoodItem[],
+  fieldIds: string[] = getItemFieldIds(items)
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+
+  fieldIds.forEach((fieldId) => {
+    const total = items.reduce((sum, item) => sum + (Number(item.fieldValues[fieldId]) || 0), 0);
+    totals[fieldId] = roundValue(total);
+  });
+
+  return totals;
+}
+
+/**
+ * Combine per-item estimates into entry-level estimates
+ * Ranges are summed (items without an estimate count as exact), and the
+ * combined confidence is the lowest confidence among the items.
+ * @param items - Food items to combine
+ * @param fieldIds - Fields to combine (defaults to every field used by the items)
+ * @returns Estimates keyed by field ID, only for fields where some item has one
+ */
+export function sumItemEstimates(
+  items: FoodItem[],
+  fieldIds: string[] = getItemFieldIds(items)
+): Record<string, FieldEstimate> {
+  const estimates: Record<string, FieldEstimate> = {};
+
+  fieldIds.forEach((fieldId) => {
+    const itemEstimates = items
+      .map((item) => item.fieldEstimates?.[fieldId])
+      .filter((estimate): estimate is FieldEstimate => !!estimate);
+    if (itemEstimates.length === 0) return;
+
+    let low = 0;
+    let high = 0;
+    items.forEach((item) => {
+      const value = Number(item.fieldValues[fieldId]) || 0;
+      const estimate = item.fieldEstimates?.[fieldId];
+      low += estimate ? estimate.low : value;
+      high += estimate ? estimate.high : value;
+    });
+
+    const confidence = CONFIDENCE_LEVELS[
+      Math.min(...itemEstimates.map((estimate) => CONFIDENCE_LEVELS.indexOf(estimate.confidence)))
+    ];
+
+    estimates[fieldId] = { confidence, low: roundValue(low), high: roundValue(high) };
+  });
+
+  return estimates;
+}
+
+/**
+ * Extract the numeric values from a set of field values (other types are ignored)
+ */
+export function getNumericValues(fields: Record<string, unknown>): Record<string, number> {
+  const values: Record<string, number> = {};
+  Object.entries(fields).forEach(([fieldId, value]) => {
+    if (typeof value === 'number' && Number.isFinite(value)) values[fieldId] = value;
+  });
+  return values;
+}
+
+/**
+ * Scale numeric values by a portion multiplier (e.g., 1.5 servings)
+ * @param values - Values for one serving or portion
+ * @param multiplier - Number of servings or portions
+ * @returns Scaled values, rounded to one decimal
+ */
+export function scaleFieldValues(values: Record<string, number>, multiplier: number): Record<string, number> {
+  const scaled: Record<string, number> = {};
+  Object.entries(values).forEach(([fieldId, value]) => {
+    scaled[fieldId] = roundValue(value * multiplier);
+  });
+  return scaled;
+}
+
+/**
+ * Create an empty item with a zero value for each field
+ * @param fieldIds - Numeric fields the item should track
+ */
+export function createEmptyItem(fieldIds: string[]): FoodItem {
+  const fieldValues: Record<string, number> = {};
+  fieldIds.forEach((fieldId) => {
+    fieldValues[fieldId] = 0;
+  });
+  return { name: '', portion: '', fieldValues };
+}
+
+/**
+ * Numeric fields to enter values for: the active schema's, or the basic macros
+ * @param schemaFields - Fields of the user's active schema (if any)
+ */
+export function getNumericFields(schemaFields?: FieldConfig[]): FieldConfig[] {
+  const fields = (schemaFields || []).filter((f) => f.type === 'number');
+  if (fields.length > 0) return fields;
+  return (getTemplateById(TEMPLATE_IDS.MACRO_TRACKING)?.fields || []).filter((f) => f.type === 'number');
+}
@@ -0,0 +1,80 @@
+/**
+ * Menu Ranking Utilities
+ *
+ * Helper functions for suggesting restaurant dishes:
+ * - What's left of today's protein goal and calorie limit
+ * - Ranking dishes by how well they fit it
+ */
+
+import type { FoodEntry, UserSettings } from '../types';
+import type { MenuDish } from '../services/gemini';
+import { getCalorieLimit, getCurrentDayTotal } from './dashboardData';
+
+/**
+ * What's left of today's goals
+ */
+export interface RemainingBudget {
+  goalField: string; // field of the daily goal (default: 'protein')
+  goalRemaining: number | null; // amount still needed to reach the goal (null if there is no goal)
+  caloriesRemaining: number | null; // calories left under the limit, negative when over (null if there is no limit)
+}
+
+/**
+ * A dish with how it fits the remaining budget
+ */
+export interface RankedDish {
+  dish: MenuDish;
+  goalCoverage: number | null; // share of the remaining goal the dish covers, 0-1 (null if there is no goal left)
+  caloriesOver: number; // calories above the remaining limit (0 if it fits)
+}
+
+/**
+ * Compute what's left of today's goals
+ * Uses the same defaults as the dashboard (150 g protein goal, no calorie limit).
+ * @param entries - Entries to total (only today's are counted)
+ * @param settings - Goal and limit settings
+ */
+export function getRemainingBudget(entries: FoodEntry[], settings: UserSettings | null): RemainingBudget {
+  const goalField = settings?.goalField || 'protein';
+  const goalValue = settings?.proteinGoal || 150;
+  const calorieLimit = getCalorieLimit(settings?.calorieLimit);
+
+  return {
+    goalField,
+    goalRemaining: goalValue > 0 ? Math.max(0, goalValue - getCurrentDayTotal(entries, goalField)) : null,
+    caloriesRemaining: calorieLimit > 0 ? calorieLimit - getCurrentDayTotal(entries, 'calories') : null,
+  };
+}
+
+/**
+ * Rank dishes by how well they fit the remaining budget
+ * Dishes that fit under the calorie limit come first, then those closest to it. Within
+ * each group, dishes covering more of the remaining goal rank higher, and fewer calories
+ * break ties (so once the goal is met, the lightest dishes lead).
+ * @returns Ranked dishes, best fit first
+ */
+export function rankMenuDishes(dishes: MenuDish[], budget: RemainingBudget): RankedDish[] {
+  const ranked = dishes.map((dish) => {
+    const goalValue = dish.fieldValues[budget.goalField] || 0;
+    const calories = dish.fieldValues.calories || 0;
+
+    return {
+      dish,
+      goalCoverage: budget.goalRemaining ? Math.min(goalValue / budget.goalRemaining, 1) : null,
+      caloriesOver: budget.caloriesRemaining !== null ? Math.max(0, calories - Math.max(budget.caloriesRemaining, 0)) : 0,
+    };
+  });
+
+  return ranked.sort((a, b) => {
+    const aFits = a.caloriesOver === 0;
+    const bFits = b.caloriesOver === 0;
+    if (aFits !== bFits) return aFits ? -1 : 1;
+    if (!aFits && a.caloriesOver !== b.caloriesOver) return a.caloriesOver - b.caloriesOver;
+
+    // Coverage is compared in 5% steps so near-equal dishes fall through to calories
+    const coverageDifference = Math.round(((b.goalCoverage || 0) - (a.goalCoverage || 0)) * 20);
+    if (coverageDifference !== 0) return coverageDifference;
+
+    return (a.dish.fieldValues.calories || 0) - (b.dish.fieldValues.calories || 0);
+  });
+}
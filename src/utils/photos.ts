@@ -0,0 +1,447 @@
+/**
+ * Photo Utilities
+ *
+ * Helper functions for preparing entry photos before upload and AI analysis:
+ * - Detecting the real image type from the file's bytes
+ * - Reading the EXIF capture time (used as the entry's default time)
+ * - Stripping location metadata (EXIF GPS and XMP) so it never reaches Storage
+ * - Resizing and compressing in the browser, plus a small thumbnail for the feed
+ * - Listing a saved entry's photos (including entries from before multiple photos)
+ *
+ * Small JPEG, PNG, and WebP photos are cleaned in place. Everything else
+ * (large photos, GIF, HEIC, ...) is resized and re-encoded as JPEG, which drops all metadata.
+ */
+
+import type { AIImageInput } from '../services/ai';
+import type { EntryPhoto, FoodEntry } from '../types';
+
+/**
+ * A photo ready to upload and analyze
+ */
+export interface PreparedPhoto {
+  file: File; // compressed image without location metadata (used for upload, AI, and Notion)
+  thumbnail: File; // small JPEG for the feed
+  mimeType: string; // type of `file`
+  capturedAt: number | null; // EXIF capture time (local), if the photo has one
+}
+
+// EXIF tags used here
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+// Byte size of each EXIF value type, by type ID
+const EXIF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/';
+
+// Compressed photo: longest side in pixels, JPEG quality, and the size a photo may keep as-is
+const PHOTO_MAX_DIMENSION = 1600;
+const PHOTO_QUALITY = 0.82;
+const PHOTO_MAX_BYTES = 1024 * 1024;
+
+// Thumbnail shown in the feed
+const THUMBNAIL_MAX_DIMENSION = 400;
+const THUMBNAIL_QUALITY = 0.7;
+
+/**
+ * Read ASCII characters from a byte array
+ */
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * Detect an image's MIME type from its leading bytes
+ * @returns MIME type, or null if the bytes aren't a recognized image
+ */
+export function detectImageMimeType(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (readAscii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (readAscii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+  if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  if (readAscii(bytes, 4, 4) === 'ftyp') {
+    const brand = readAscii(bytes, 8, 4);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+  }
+  return null;
+}
+
+/**
+ * Minimal reader for a TIFF structure (the body of an EXIF block)
+ */
+function createTiffReader(tiff: Uint8Array) {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = readAscii(tiff, 0, 2) === 'II';
+
+  return {
+    view,
+    littleEndian,
+    u16: (offset: number) => view.getUint16(offset, littleEndian),
+    u32: (offset: number) => view.getUint32(offset, littleEndian),
+    isValid: () => tiff.length >= 8 && (littleEndian || readAscii(tiff, 0, 2) === 'MM'),
+  };
+}
+
+/**
+ * Find a tag's entry offset within an IFD
+ * @returns Offset of the 12-byte entry, or null if the tag isn't present
+ */
+function findIfdEntry(reader: ReturnType<typeof createTiffReader>, ifdOffset: number, tag: number): number | null {
+  if (ifdOffset + 2 > reader.view.byteLength) return null;
+  const count = reader.u16(ifdOffset);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > reader.view.byteLength) return null;
+    if (reader.u16(entry) === tag) return entry;
+  }
+  return null;
+}
+
+/**
+ * Parse an EXIF date ("YYYY:MM:DD HH:MM:SS", camera local time) into a timestamp
+ */
+function parseExifDate(value: string): number | null {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const timestamp = new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+  return Number.isNaN(timestamp) || year < 1990 ? null : timestamp;
+}
+
+/**
+ * Read the capture time from a TIFF/EXIF block (DateTimeOriginal, else DateTime)
+ */
+function readTiffCaptureTime(tiff: Uint8Array): number | null {
+  const reader = createTiffReader(tiff);
+  if (!reader.isValid()) return null;
+
+  const readDate = (entry: number | null) =>
+    entry === null ? null : parseExifDate(readAscii(tiff, reader.u32(entry + 8), 19));
+
+  const ifd0 = reader.u32(4);
+  const exifPointer = findIfdEntry(reader, ifd0, TAG_EXIF_IFD);
+  const original = exifPointer === null
+    ? null
+    : readDate(findIfdEntry(reader, reader.u32(exifPointer + 8), TAG_DATE_TIME_ORIGINAL));
+
+  return original ?? readDate(findIfdEntry(reader, ifd0, TAG_DATE_TIME));
+}
+
+/**
+ * Remove the GPS IFD from a TIFF/EXIF block in place
+ * GPS values are zeroed and the pointer to them is removed from IFD0; everything
+ * else (e.g., orientation) is kept.
+ */
+function removeTiffGps(tiff: Uint8Array): void {
+  const reader = createTiffReader(tiff);
+  if (!reader.isValid()) return;
+
+  const ifd0 = reader.u32(4);
+  const gpsPointer = findIfdEntry(reader, ifd0, TAG_GPS_IFD);
+  if (gpsPointer === null) return;
+
+  // Zero the GPS entries and any values stored outside them
+  const gpsIfd = reader.u32(gpsPointer + 8);
+  if (gpsIfd + 2 <= tiff.length) {
+    const count = reader.u16(gpsIfd);
+    for (let i = 0; i < count; i++) {
+      const entry = gpsIfd + 2 + i * 12;
+      if (entry + 12 > tiff.length) break;
+      const size = (EXIF_TYPE_SIZES[reader.u16(entry + 2)] || 1) * reader.u32(entry + 4);
+      if (size > 4) tiff.fill(0, reader.u32(entry + 8), Math.min(reader.u32(entry + 8) + size, tiff.length));
+    }
+    tiff.fill(0, gpsIfd, Math.min(gpsIfd + 2 + count * 12 + 4, tiff.length));
+  }
+
+  // Drop the pointer entry: later entries and the next-IFD offset move up one slot
+  const count = reader.u16(ifd0);
+  const end = ifd0 + 2 + count * 12 + 4;
+  tiff.copyWithin(gpsPointer, gpsPointer + 12, end);
+  tiff.fill(0, end - 12, end);
+  reader.view.setUint16(ifd0, count - 1, reader.littleEndian);
+}
+
+/**
+ * Walk a JPEG's metadata segments (everything before the image data)
+ * @param visit - Called with the segment's marker, start offset, and total length
+ */
+function forEachJpegSegment(bytes: Uint8Array, visit: (marker: number, start: number, length: number) => void): void {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // start of scan / end of image
+    const length = 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    visit(marker, offset, length);
+    offset += length;
+  }
+}
+
+/**
+ * Walk the chunks of a PNG (after the 8-byte signature)
+ */
+function forEachPngChunk(bytes: Uint8Array, visit: (type: string, start: number, length: number) => void): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const dataLength = view.getUint32(offset);
+    visit(readAscii(bytes, offset + 4, 4), offset, dataLength + 12);
+    offset += dataLength + 12;
+  }
+}
+
+/**
+ * Walk the chunks of a WebP (after the 12-byte RIFF header)
+ */
+function forEachWebpChunk(bytes: Uint8Array, visit: (type: string, start: number, length: number) => void): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const dataLength = view.getUint32(offset + 4, true);
+    const length = 8 + dataLength + (dataLength % 2); // chunks are padded to an even size
+    visit(readAscii(bytes, offset, 4), offset, length);
+    offset += length;
+  }
+}
+
+/**
+ * Get the TIFF body of a WebP EXIF chunk or PNG eXIf chunk (some writers keep the JPEG "Exif" prefix)
+ */
+function getChunkTiff(data: Uint8Array): Uint8Array {
+  return readAscii(data, 0, 6) === 'Exif\0\0' ? data.subarray(6) : data;
+}
+
+/**
+ * Read a photo's EXIF capture time
+ * @returns Capture time as a timestamp (camera local time), or null if there is none
+ */
+export function readExifCaptureTime(bytes: Uint8Array): number | null {
+  let capturedAt: number | null = null;
+
+  try {
+    switch (detectImageMimeType(bytes)) {
+      case 'image/jpeg':
+        forEachJpegSegment(bytes, (marker, start, length) => {
+          if (capturedAt === null && marker === 0xe1 && readAscii(bytes, start + 4, 6) === 'Exif\0\0') {
+            capturedAt = readTiffCaptureTime(bytes.subarray(start + 10, start + length));
+          }
+        });
+        break;
+
+      case 'image/png':
+        forEachPngChunk(bytes, (type, start, length) => {
+          if (capturedAt === null && type === 'eXIf') {
+            capturedAt = readTiffCaptureTime(getChunkTiff(bytes.subarray(start + 8, start + length - 4)));
+          }
+        });
+        break;
+
+      case 'image/webp':
+        forEachWebpChunk(bytes, (type, start, length) => {
+          if (capturedAt === null && type === 'EXIF') {
+            capturedAt = readTiffCaptureTime(getChunkTiff(bytes.subarray(start + 8, start + length)));
+          }
+        });
+        break;
+    }
+  } catch {
+    // Malformed metadata - treat the photo as having no capture time
+    return null;
+  }
+
+  return capturedAt;
+}
+
+/**
+ * Remove location metadata from a JPEG, PNG, or WebP
+ * - JPEG: the EXIF GPS block is removed (other EXIF is kept) and XMP segments are dropped
+ * - PNG: eXIf chunks and XMP text chunks are dropped
+ * - WebP: EXIF and XMP chunks are dropped and the header flags updated
+ * @returns Cleaned bytes (a copy), or the input unchanged for other formats
+ */
+export function stripLocationMetadata(bytes: Uint8Array): Uint8Array {
+  const kept: Uint8Array[] = [];
+
+  switch (detectImageMimeType(bytes)) {
+    case 'image/jpeg': {
+      let end = 2;
+      kept.push(bytes.slice(0, 2));
+      forEachJpegSegment(bytes, (marker, start, length) => {
+        end = start + length;
+        const segment = bytes.slice(start, start + length);
+        if (marker === 0xe1 && readAscii(segment, 4, 6) === 'Exif\0\0') {
+          removeTiffGps(segment.subarray(10));
+        } else if (marker === 0xe1 && readAscii(segment, 4, XMP_NAMESPACE.length) === XMP_NAMESPACE) {
+          return;
+        }
+        kept.push(segment);
+      });
+      kept.push(bytes.slice(end));
+      break;
+    }
+
+    case 'image/png':
+      kept.push(bytes.slice(0, 8));
+      forEachPngChunk(bytes, (type, start, length) => {
+        const isXmp = type === 'iTXt' && readAscii(bytes, start + 8, 17) === 'XML:com.adobe.xmp';
+        if (type !== 'eXIf' && !isXmp) kept.push(bytes.slice(start, start + length));
+      });
+      break;
+
+    case 'image/webp': {
+      const header = bytes.slice(0, 12);
+      kept.push(header);
+      forEachWebpChunk(bytes, (type, start, length) => {
+        if (type === 'EXIF' || type === 'XMP ') return;
+        const chunk = bytes.slice(start, start + length);
+        if (type === 'VP8X') chunk[8] &= ~0x0c; // clear the EXIF (0x08) and XMP (0x04) flags
+        kept.push(chunk);
+      });
+      const total = kept.reduce((sum, part) => sum + part.length, 0);
+      new DataView(header.buffer).setUint32(4, total - 8, true);
+      break;
+    }
+
+    default:
+      return bytes;
+  }
+
+  const result = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  kept.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+/**
+ * Decode a photo for drawing (EXIF orientation applied)
+ * @throws Error if the browser can't decode the image
+ */
+async function decodePhoto(file: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('This photo format is not supported - please use a JPEG, PNG, or WebP photo');
+  }
+}
+
+/**
+ * Draw a decoded photo to a JPEG no larger than maxDimension on its longest side (drops all metadata)
+ */
+function encodeJpeg(bitmap: ImageBitmap, maxDimension: number, quality: number): Promise<Blob> {
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (context) {
+    // JPEG has no transparency - flatten onto white rather than black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to convert photo'))),
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+/**
+ * Prepare a selected photo: detect its type, read its capture time, remove location metadata,
+ * and produce the compressed photo and its thumbnail
+ * Photos that are already small enough keep their original encoding (cleaned in place);
+ * everything else is resized and re-encoded as JPEG, which drops all metadata.
+ * @param file - Photo as selected or captured
+ * @throws Error if the file isn't an image the browser can handle
+ */
+export async function preparePhoto(file: File): Promise<PreparedPhoto> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const mimeType = detectImageMimeType(bytes);
+  const capturedAt = readExifCaptureTime(bytes);
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'photo';
+
+  const bitmap = await decodePhoto(file);
+  try {
+    const thumbnail = new File(
+      [await encodeJpeg(bitmap, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_QUALITY)],
+      `${baseName}.jpg`,
+      { type: 'image/jpeg' }
+    );
+
+    const fitsAsIs = Math.max(bitmap.width, bitmap.height) <= PHOTO_MAX_DIMENSION && file.size <= PHOTO_MAX_BYTES;
+    if (fitsAsIs && (mimeType === 'image/jpeg' || mimeType === 'image/png' || mimeType === 'image/webp')) {
+      try {
+        const cleaned = stripLocationMetadata(bytes);
+        return { file: new File([cleaned as BlobPart], file.name, { type: mimeType }), thumbnail, mimeType, capturedAt };
+      } catch (error) {
+        // Malformed metadata - fall back to re-encoding, which drops it entirely
+        console.error('Failed to strip photo metadata:', error);
+      }
+    }
+
+    const jpeg = await encodeJpeg(bitmap, PHOTO_MAX_DIMENSION, PHOTO_QUALITY);
+    return { file: new File([jpeg], `${baseName}.jpg`, { type: 'image/jpeg' }), thumbnail, mimeType: 'image/jpeg', capturedAt };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Read a blob as base64 (no data: prefix)
+ */
+function readAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.split(',')[1]); // Remove data:...;base64, prefix
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Read a prepared photo as base64 image input for the AI
+ */
+export async function readPhotoForAI(photo: PreparedPhoto): Promise<AIImageInput> {
+  return { data: await readAsBase64(photo.file), mimeType: photo.mimeType };
+}
+
+/**
+ * Download an uploaded photo as base64 image input for the AI
+ * Requires CORS on the Storage bucket (see DEPLOYMENT.md).
+ * @throws Error if the photo can't be downloaded
+ */
+export async function fetchPhotoForAI(url: string): Promise<AIImageInput> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download photo (${response.status})`);
+  }
+
+  const blob = await response.blob();
+  const mimeType = detectImageMimeType(new Uint8Array(await blob.slice(0, 16).arrayBuffer())) || blob.type || 'image/jpeg';
+  return { data: await readAsBase64(blob), mimeType };
+}
+
+/**
+ * Get an entry's photos in order
+ * Entries from before multiple photos have only photoUrl (or fieldValues.photo) and thumbnailUrl.
+ */
+export function getEntryPhotos(entry: Pick<FoodEntry, 'photos' | 'photoUrl' | 'thumbnailUrl' | 'fieldValues'>): EntryPhoto[] {
+  if (entry.photos?.length) return entry.photos;
+
+  const url = entry.fieldValues?.photo || entry.photoUrl;
+  if (!url) return [];
+  return [entry.thumbnailUrl ? { url, thumbnailUrl: entry.thumbnailUrl } : { url }];
+}
@@ -0,0 +1,68 @@
+/**
+ * Product Utilities
+ *
+ * Helper functions for barcode logging:
+ * - Normalizing and validating EAN/UPC barcodes (see barcodes.js)
+ * - Detecting a barcode in a photo (where the browser supports it)
+ * - Choosing the serving a product's values are given for
+ */
+
+import { normalizeBarcode } from './barcodes.js';
+import type { Product } from '../types';
+
+// Shared with the product importer (functions/scripts/importProducts.js)
+export { normalizeBarcode, expandUpcE, isValidBarcode } from './barcodes.js';
+
+/**
+ * Minimal typing for the Shape Detection API (not yet in TypeScript's DOM lib)
+ */
+interface BarcodeDetectorLike {
+  detect(image: ImageBitmapSource): Promise<Array<{ rawValue: string; format: string }>>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorLike;
+
+/**
+ * Check whether this browser can read barcodes from images
+ */
+export function canDetectBarcodes(): boolean {
+  return typeof window !== 'undefined' && 'BarcodeDetector' in window;
+}
+
+/**
+ * Read the first EAN/UPC barcode in a photo
+ * @param file - Photo of the product's barcode
+ * @returns Normalized barcode, or null if none was found or detection is unsupported
+ */
+export async function detectBarcode(file: Blob): Promise<string | null> {
+  if (!canDetectBarcodes()) return null;
+
+  const Detector = (window as unknown as { BarcodeDetector: BarcodeDetectorConstructor }).BarcodeDetector;
+  const detector = new Detector({ formats: ['ean_13', 'ean_8', 'upc_a', 'upc_e'] });
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const results = await detector.detect(bitmap);
+    bitmap.close();
+    return results.length > 0 ? normalizeBarcode(results[0].rawValue, results[0].format) : null;
+  } catch (error) {
+    console.error('Barcode detection failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the serving a product's values apply to
+ * Per-serving values are preferred; otherwise values per 100 g are used.
+ * @returns Serving description and values, or null if the product has no nutrition data
+ */
+export function getProductServing(
+  product: Product
+): { servingSize: string; perServing: Record<string, number> } | null {
+  if (product.perServing && Object.keys(product.perServing).length > 0) {
+    return { servingSize: product.servingSize || '1 serving', perServing: product.perServing };
+  }
+  if (product.per100g && Object.keys(product.per100g).length > 0) {
+    return { servingSize: '100 g', perServing: product.per100g };
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Recipe Utilities
+ *
+ * Helper functions for the recipe builder:
+ * - Computing per-serving values from ingredient quantities
+ * - Breaking a serving down into ingredient items for logging
+ * - Finding ingredients that lack a value for a tracked field
+ */
+
+import { scaleFieldValues } from './foodItems';
+import type { FoodItem, Recipe } from '../types';
+
+/**
+ * Compute a recipe's values per serving
+ * Each ingredient's per-portion values are multiplied by its quantity, summed, and divided by the servings.
+ * @param recipe - Recipe (only its ingredients and servings are used)
+ * @param fieldIds - Numeric fields to compute (the active schema's numeric fields)
+ * @returns Per-serving values keyed by field ID
+ */
+export function computeRecipePerServing(
+  recipe: Pick<Recipe, 'ingredients' | 'servings'>,
+  fieldIds: string[]
+): Record<string, number> {
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  const perServing: Record<string, number> = {};
+
+  fieldIds.forEach((fieldId) => {
+    const total = recipe.ingredients.reduce(
+      (sum, ingredient) => sum + (Number(ingredient.fieldValues[fieldId]) || 0) * ingredient.quantity,
+      0
+    );
+    perServing[fieldId] = Math.round((total / servings) * 10) / 10;
+  });
+
+  return perServing;
+}
+
+/**
+ * Break one serving of a recipe into ingredient items
+ * @param recipe - Recipe to break down
+ * @param fieldIds - Numeric fields each item should carry
+ */
+export function getRecipeServingItems(
+  recipe: Pick<Recipe, 'ingredients' | 'servings'>,
+  fieldIds: string[]
+): FoodItem[] {
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+
+  return recipe.ingredients.map((ingredient) => {
+    const values: Record<string, number> = {};
+    fieldIds.forEach((fieldId) => {
+      values[fieldId] = Number(ingredient.fieldValues[fieldId]) || 0;
+    });
+
+    const quantityPerServing = ingredient.quantity / servings;
+    return {
+      name: ingredient.name,
+      portion: `${Math.round(quantityPerServing * 100) / 100} × ${ingredient.portion}`,
+      fieldValues: scaleFieldValues(values, quantityPerServing),
+    };
+  });
+}
+
+/**
+ * Find ingredients with no value for some of the tracked fields (they count as zero)
+ * @returns Ingredient name -> IDs of its missing fields
+ */
+export function getMissingIngredientFields(
+  recipe: Pick<Recipe, 'ingredients'>,
+  fieldIds: string[]
+): Record<string, string[]> {
+  const missing: Record<string, string[]> = {};
+  recipe.ingredients.forEach((ingredient) => {
+    const fields = fieldIds.filter((fieldId) => typeof ingredient.fieldValues[fieldId] !== 'number');
+    if (fields.length > 0) missing[ingredient.name] = fields;
+  });
+  return missing;
+}
@@ -0,0 +1,57 @@
+/**
+ * Saved Food Utilities
+ *
+ * Helper functions for the personal food library ("My Foods"):
+ * - Creating a library food from an existing entry
+ * - Ordering foods so the most frequent ones are suggested first
+ */
+
+import type { FoodEntry, SavedFood } from '../types';
+
+// Entry-specific values that don't belong to the food itself
+const ENTRY_ONLY_FIELDS = ['name', 'date', 'summary', 'photo'];
+
+/**
+ * Build a library food from a logged entry
+ * @param entry - Entry to save
+ * @param userId - Owner of the library
+ * @returns Saved food data (without id)
+ */
+export function entryToSavedFood(entry: FoodEntry, userId: string): Omit<SavedFood, 'id'> {
+  const fieldValues: Record<string, unknown> = {};
+  Object.entries(entry.fieldValues || {}).forEach(([fieldId, value]) => {
+    if (!ENTRY_ONLY_FIELDS.includes(fieldId) && value !== undefined && value !== null && value !== '') {
+      fieldValues[fieldId] = value;
+    }
+  });
+
+  const food: Omit<SavedFood, 'id'> = {
+    userId,
+    name: entry.title || entry.fieldValues?.name || entry.text || 'Saved Food',
+    portion: (entry.items?.length === 1 && entry.items[0].portion) || '1 serving',
+    fieldValues,
+    sourceEntryId: entry.id,
+    logCount: 0,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+
+  // Firestore rejects undefined values, so optional fields are only set when present
+  const photoUrl = entry.photoUrl || entry.fieldValues?.photo;
+  if (photoUrl) food.photoUrl = photoUrl;
+  if (entry.thumbnailUrl) food.thumbnailUrl = entry.thumbnailUrl;
+  if (entry.items?.length) food.items = entry.items;
+
+  return food;
+}
+
+/**
+ * Order foods for suggestion: most logged first, then most recently logged
+ * @param foods - The user's saved foods
+ * @param maxResults - Maximum number of foods to return
+ */
+export function getSuggestedFoods(foods: SavedFood[], maxResults: number = 6): SavedFood[] {
+  return [...foods]
+    .sort((a, b) => b.logCount - a.logCount || (b.lastLoggedAt || 0) - (a.lastLoggedAt || 0))
+    .slice(0, maxResults);
+}